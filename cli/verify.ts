@@ -0,0 +1,351 @@
+// minicontratos-verify: offline verification of ledger exports (NDJSON or
+// JSON, as produced by exportLedger) and .minicontrato bundles.
+//
+//   node dist-cli/minicontratos-verify.js <arquivo> [--keys chaves.json] [--json] [--allow-unverified]
+//
+// Only keys given with --keys are trusted. Keys carried by the file itself
+// are used to check its signatures, but a span is only verified when its
+// signer's key came from --keys; unverifiable spans fail the check unless
+// --allow-unverified is given. Unsigned spans are always invalid.
+//
+// Exit codes: 0 valid, 1 verification failed, 2 unreadable input or bad usage.
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { LedgerEntry, Span } from '../src/types';
+import {
+  entryShapeError,
+  groupByTrace,
+  spanShapeError,
+  verifySpans,
+  LEDGER_EXPORT_FORMAT,
+  type LedgerExport,
+  type LedgerVerification,
+  type PublicKeyResolver
+} from '../src/lib/verify';
+import {
+  bundleKeyResolver,
+  parseBundle,
+  verifyBundle,
+  BUNDLE_FORMAT,
+  type BundleVerification,
+  type ContractBundle
+} from '../src/lib/bundle';
+import { keyFingerprint } from '../src/lib/crypto';
+
+interface TrustedKey {
+  signer_id: string;
+  public_key: JsonWebKey;
+}
+
+interface Options {
+  file: string;
+  keys?: string;
+  json: boolean;
+  allowUnverified: boolean;
+}
+
+// What was read from a ledger export: the chain is absent in older exports
+interface LedgerInput {
+  spans: Span[];
+  chain?: LedgerEntry[];
+  keys: TrustedKey[];
+}
+
+const USAGE =
+  'uso: minicontratos-verify <arquivo.ndjson|arquivo.json|arquivo.minicontrato> ' +
+  '[--keys chaves.json] [--json] [--allow-unverified]';
+
+function parseArgs(argv: string[]): Options {
+  const options: Partial<Options> = { json: false, allowUnverified: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--allow-unverified') {
+      options.allowUnverified = true;
+    } else if (arg === '--keys') {
+      options.keys = argv[++i];
+      if (!options.keys) throw new Error('--keys precisa de um arquivo');
+    } else if (arg === '-h' || arg === '--help') {
+      throw new Error(USAGE);
+    } else if (arg.startsWith('-')) {
+      throw new Error(`opção desconhecida: ${arg}`);
+    } else if (!options.file) {
+      options.file = arg;
+    } else {
+      throw new Error(`argumento inesperado: ${arg}`);
+    }
+  }
+
+  if (!options.file) throw new Error(USAGE);
+  return options as Options;
+}
+
+function isKeyList(value: unknown): value is TrustedKey[] {
+  return Array.isArray(value) && value.every(k =>
+    typeof k?.signer_id === 'string' && typeof k?.public_key === 'object' && k.public_key !== null
+  );
+}
+
+// Keys the auditor trusts, as a JSON array of { signer_id, public_key }
+// (the key directory format, or the keys of a bundle)
+async function readTrustedKeys(file: string): Promise<TrustedKey[]> {
+  let keys: unknown;
+  try {
+    keys = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof SyntaxError ? 'JSON inválido' : err instanceof Error ? err.message : err}`);
+  }
+  if (!isKeyList(keys)) {
+    throw new Error(`${file}: esperado um array de { signer_id, public_key }`);
+  }
+  return keys;
+}
+
+function trustedResolver(keys: TrustedKey[], fallback?: PublicKeyResolver): PublicKeyResolver {
+  return async (signerId) => {
+    const trusted = keys.filter(k => k.signer_id === signerId).map(k => k.public_key);
+    return trusted.length > 0 || !fallback ? trusted : await fallback(signerId);
+  };
+}
+
+function checkSpans(spans: unknown[], where: (idx: number) => string): Span[] {
+  spans.forEach((span, idx) => {
+    const problem = spanShapeError(span);
+    if (problem) throw new Error(`${where(idx)}: span inválido (${problem})`);
+  });
+  return spans as Span[];
+}
+
+function checkEntries(entries: unknown[], where: (idx: number) => string): LedgerEntry[] {
+  entries.forEach((entry, idx) => {
+    const problem = entryShapeError(entry);
+    if (problem) throw new Error(`${where(idx)}: entrada da cadeia inválida (${problem})`);
+  });
+  return entries as LedgerEntry[];
+}
+
+// NDJSON export: one span per line, then { ledger_entry } and { signer_key } lines
+function parseLines(text: string): LedgerInput {
+  const spans: unknown[] = [];
+  const chain: unknown[] = [];
+  const keys: unknown[] = [];
+  const lines: number[] = [];
+
+  text.split('\n').forEach((line, idx) => {
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`linha ${idx + 1}: JSON inválido`);
+    }
+    if (record && typeof record === 'object' && 'ledger_entry' in record) {
+      chain.push(record.ledger_entry);
+    } else if (record && typeof record === 'object' && 'signer_key' in record) {
+      keys.push(record.signer_key);
+    } else {
+      spans.push(record);
+      lines.push(idx + 1);
+    }
+  });
+
+  if (!isKeyList(keys)) throw new Error('chaves inválidas no arquivo');
+  return {
+    spans: checkSpans(spans, idx => `linha ${lines[idx]}`),
+    chain: chain.length > 0 ? checkEntries(chain, idx => `entrada ${idx + 1} da cadeia`) : undefined,
+    keys
+  };
+}
+
+// A ledger export is a JSON object (with the chain), a JSON array of spans
+// or NDJSON; a bundle is a single JSON object
+function parseInput(text: string): LedgerInput | { bundle: ContractBundle } {
+  let parsed: Partial<LedgerExport> | Partial<ContractBundle> | unknown[];
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return parseLines(text);
+  }
+
+  if (Array.isArray(parsed)) {
+    return { spans: checkSpans(parsed, idx => `span ${idx + 1}`), keys: [] };
+  }
+  if (parsed === null || typeof parsed !== 'object') {
+    throw new Error('esperado um span, um array de spans ou um pacote');
+  }
+  if (parsed.format === BUNDLE_FORMAT) {
+    const bundle = parseBundle(text);
+    checkSpans(bundle.spans, idx => `span ${idx + 1} do pacote`);
+    if (!isKeyList(bundle.keys)) throw new Error('chaves inválidas no pacote');
+    return { bundle };
+  }
+  if (parsed.format === LEDGER_EXPORT_FORMAT) {
+    if (!('chain' in parsed) || !Array.isArray(parsed.spans) || !Array.isArray(parsed.chain) || !isKeyList(parsed.keys)) {
+      throw new Error('export do ledger incompleto (esperado spans, chain e keys)');
+    }
+    return {
+      spans: checkSpans(parsed.spans, idx => `span ${idx + 1}`),
+      chain: checkEntries(parsed.chain, idx => `entrada ${idx + 1} da cadeia`),
+      keys: parsed.keys
+    };
+  }
+  return { spans: checkSpans([parsed], () => 'span'), keys: [] };
+}
+
+// Why spans could not be verified against the auditor's keys: signed by
+// someone without a known key, or only checkable with a key the file brought
+// along
+function unverifiedReasons(report: LedgerVerification, spans: Span[], trustedSigners: Set<string>): string[] {
+  const reasons: string[] = [];
+  report.spans.forEach((result, idx) => {
+    const span = spans[idx];
+    if (result.signature === 'unknown_signer') {
+      reasons.push(`${result.span_id}: nenhuma chave para ${span.confirmed_by!.signer_id}`);
+    } else if (result.signature === 'valid' && !trustedSigners.has(span.confirmed_by!.signer_id)) {
+      reasons.push(`${result.span_id}: chave de ${span.confirmed_by!.signer_id} só consta no próprio arquivo`);
+    }
+    for (const cosignature of result.cosignatures) {
+      if (cosignature.status === 'unknown_signer') {
+        reasons.push(`${result.span_id}: nenhuma chave para ${cosignature.signer_id} (${cosignature.party})`);
+      } else if (cosignature.status === 'valid' && !trustedSigners.has(cosignature.signer_id)) {
+        reasons.push(`${result.span_id}: chave de ${cosignature.signer_id} (${cosignature.party}) só consta no próprio arquivo`);
+      }
+    }
+  });
+  return reasons;
+}
+
+function printLedgerReport(report: LedgerVerification): void {
+  for (const [traceId, results] of groupByTrace(report)) {
+    const ok = results.every(r => r.valid);
+    console.log(`\n${ok ? '✓' : '✗'} trace ${traceId} (${results.length} spans)`);
+
+    for (const result of results) {
+      const marks = [
+        `hash ${result.hash === 'valid' ? '✓' : '✗'}`,
+        `assinatura ${result.signature === 'valid' ? '✓' : result.signature === 'invalid' ? '✗' : result.signature === 'unsigned' ? '-' : '?'}`,
+        ...result.cosignatures.map(c => `${c.party} ${c.status === 'valid' ? '✓' : c.status === 'invalid' ? '✗' : '?'}`)
+      ];
+      if (result.parent !== 'none') marks.push(`pai ${result.parent === 'valid' ? '✓' : '✗'}`);
+      if (result.link !== 'none') marks.push(`cadeia ${result.link === 'valid' ? '✓' : '✗'}`);
+      if (result.quorum) marks.push(`quórum ${result.quorum.signed.length}/${result.quorum.required}`);
+
+      console.log(`  ${result.valid ? '✓' : '✗'} ${result.type} ${result.span_id}  [${marks.join(', ')}]`);
+      for (const error of result.errors) console.log(`      erro: ${error}`);
+      for (const warning of result.warnings) console.log(`      aviso: ${warning}`);
+    }
+  }
+
+  if (report.chain) {
+    const { valid, length, checkpoints, errors } = report.chain;
+    console.log(`\n${valid ? '✓' : '✗'} cadeia do ledger (${length} entradas, ${checkpoints} checkpoints)`);
+    for (const error of errors) console.log(`  erro: ${error}`);
+  }
+
+  if (report.unknown_signers.length > 0) {
+    console.log(`\nAssinantes sem chave conhecida: ${report.unknown_signers.join(', ')}`);
+    console.log('Informe as chaves com --keys para verificar essas assinaturas.');
+  }
+}
+
+function printBundleReport(bundle: BundleVerification): void {
+  console.log(`Contrato ${bundle.contract_id}`);
+  console.log(`Manifesto ${bundle.manifest_hash}`);
+  for (const error of bundle.errors) console.log(`  erro: ${error}`);
+  for (const warning of bundle.warnings) console.log(`  aviso: ${warning}`);
+}
+
+async function main(): Promise<number> {
+  let options: Options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    return 2;
+  }
+
+  let text: string;
+  let trusted: TrustedKey[] = [];
+  try {
+    text = await readFile(options.file, 'utf8');
+    if (options.keys) trusted = await readTrustedKeys(options.keys);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    return 2;
+  }
+
+  let spans: Span[];
+  let chain: LedgerEntry[] | undefined;
+  let bundle: BundleVerification | undefined;
+  let resolver: PublicKeyResolver;
+
+  // Keys passed with --keys take precedence over the ones the file carries
+  try {
+    const input = parseInput(text);
+    if ('bundle' in input) {
+      resolver = trustedResolver(trusted, bundleKeyResolver(input.bundle));
+      bundle = await verifyBundle(input.bundle, resolver);
+      spans = input.bundle.spans;
+    } else {
+      resolver = trustedResolver(trusted, trustedResolver(input.keys));
+      spans = input.spans;
+      chain = input.chain;
+    }
+  } catch (err) {
+    console.error(`${options.file}: ${err instanceof Error ? err.message : err}`);
+    return 2;
+  }
+
+  if (spans.length === 0) {
+    console.error(`${options.file}: nenhum span encontrado`);
+    return 2;
+  }
+
+  const report = await verifySpans(spans, resolver, chain);
+  const unverified = unverifiedReasons(report, spans, new Set(trusted.map(k => k.signer_id)));
+  if (!bundle && !chain) {
+    unverified.push('export sem a cadeia do ledger: encadeamento, checkpoints e truncamento não verificados');
+  }
+  const verified = report.valid && (bundle?.valid ?? true);
+  const valid = verified && (unverified.length === 0 || options.allowUnverified);
+
+  if (options.json) {
+    console.log(JSON.stringify({ file: basename(options.file), valid, unverified, bundle, ledger: report }, null, 2));
+    return valid ? 0 : 1;
+  }
+
+  console.log(`minicontratos-verify ${basename(options.file)}: ${report.total} spans`);
+  if (bundle) printBundleReport(bundle);
+  if (trusted.length > 0) {
+    console.log(`Chaves confiáveis: ${trusted.map(k => `${k.signer_id} ${keyFingerprint(k.public_key)}`).join(', ')}`);
+  }
+  printLedgerReport(report);
+
+  if (unverified.length > 0) {
+    console.log(`\nNão verificado (${unverified.length}):`);
+    for (const reason of unverified) console.log(`  ${reason}`);
+    if (!options.allowUnverified) {
+      console.log('Informe as chaves com --keys, ou aceite com --allow-unverified.');
+    }
+  }
+
+  if (!verified) {
+    console.log(`\n✗ INVÁLIDO (${report.errors.length + (report.chain?.errors.length ?? 0)} erros)`);
+  } else if (!valid) {
+    console.log('\n✗ NÃO VERIFICADO');
+  } else {
+    console.log(`\n✓ VÁLIDO${unverified.length > 0 ? ' (com spans não verificados)' : ''}`);
+  }
+
+  return valid ? 0 : 1;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(err);
+    process.exit(2);
+  }
+);
@@ -1,23 +1,64 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Onboarding } from './pages/Onboarding';
 import { Dashboard } from './pages/Dashboard';
+import { ContractDetail } from './pages/ContractDetail';
 import { CreateContract } from './pages/CreateContract';
-import { getCurrentSession } from './lib/db';
+import { VerifyLedger } from './pages/VerifyLedger';
+import { KeyDirectory } from './pages/KeyDirectory';
+import { Settings } from './pages/Settings';
+import { Usage } from './pages/Usage';
+import { ImportContract } from './pages/ImportContract';
+import { LockScreen } from './pages/LockScreen';
+import { getCurrentSession, getVaultConfig } from './lib/db';
+import { isVaultUnlocked, lockIfIdle, onVaultChange, touchSession } from './lib/vault';
+
+type AuthState = 'loading' | 'anonymous' | 'setup' | 'locked' | 'unlocked';
+
+// Activity is written to the session at most this often
+const ACTIVITY_INTERVAL_MS = 30 * 1000;
 
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [auth, setAuth] = useState<AuthState>('loading');
+  const lastActivity = useRef(0);
+
+  const checkAuth = useCallback(async () => {
+    const [session, vault] = await Promise.all([getCurrentSession(), getVaultConfig()]);
+    if (!session) {
+      setAuth('anonymous');
+    } else if (!vault) {
+      setAuth('setup');
+    } else {
+      setAuth(isVaultUnlocked() ? 'unlocked' : 'locked');
+    }
+  }, []);
 
   useEffect(() => {
     checkAuth();
-  }, []);
+    return onVaultChange(checkAuth);
+  }, [checkAuth]);
 
-  async function checkAuth() {
-    const session = await getCurrentSession();
-    setIsAuthenticated(!!session);
-  }
+  // Track activity and lock when the session goes idle
+  useEffect(() => {
+    if (auth !== 'unlocked') return;
+
+    const handleActivity = () => {
+      if (Date.now() - lastActivity.current > ACTIVITY_INTERVAL_MS) {
+        lastActivity.current = Date.now();
+        touchSession();
+      }
+    };
+    const events = ['pointerdown', 'keydown', 'scroll'];
+    events.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const timer = window.setInterval(lockIfIdle, ACTIVITY_INTERVAL_MS);
+
+    return () => {
+      events.forEach(event => window.removeEventListener(event, handleActivity));
+      window.clearInterval(timer);
+    };
+  }, [auth]);
 
-  if (isAuthenticated === null) {
+  if (auth === 'loading') {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -25,21 +66,51 @@ function App() {
     );
   }
 
+  if (auth === 'locked' || auth === 'setup') {
+    return <LockScreen mode={auth === 'locked' ? 'unlock' : 'setup'} />;
+  }
+
+  const isAuthenticated = auth === 'unlocked';
+
   return (
     <Router>
       <Routes>
         <Route 
           path="/" 
-          element={isAuthenticated ? <Navigate to="/dashboard" /> : <Onboarding />} 
+          element={isAuthenticated ? <Navigate to="/dashboard" /> : <Onboarding onComplete={checkAuth} />} 
         />
         <Route 
           path="/dashboard" 
           element={isAuthenticated ? <Dashboard /> : <Navigate to="/" />} 
         />
+        <Route 
+          path="/contract/:id" 
+          element={isAuthenticated ? <ContractDetail /> : <Navigate to="/" />} 
+        />
         <Route 
           path="/create" 
           element={isAuthenticated ? <CreateContract /> : <Navigate to="/" />} 
         />
+        <Route 
+          path="/verify" 
+          element={isAuthenticated ? <VerifyLedger /> : <Navigate to="/" />} 
+        />
+        <Route 
+          path="/keys" 
+          element={isAuthenticated ? <KeyDirectory /> : <Navigate to="/" />} 
+        />
+        <Route 
+          path="/import" 
+          element={isAuthenticated ? <ImportContract /> : <Navigate to="/" />} 
+        />
+        <Route 
+          path="/settings" 
+          element={isAuthenticated ? <Settings /> : <Navigate to="/" />} 
+        />
+        <Route 
+          path="/usage" 
+          element={isAuthenticated ? <Usage /> : <Navigate to="/" />} 
+        />
         <Route path="*" element={<Navigate to="/" />} />
       </Routes>
     </Router>
@@ -8,17 +8,22 @@ import {
 } from './db';
 import {
   generateId,
-  encryptApiKey,
   generateKeyPair,
-  detectProvider,
-  calculateSpanHash,
-  signSpan,
+  SPAN_VERSION,
 } from './crypto';
+import { detectProvider } from './providers';
+import { importSignerKey } from './keys';
+import { checkPassphrase, createVault, sealApiKey } from './vault';
 
 export async function registerUser(
   name: string,
-  apiKey: string
+  apiKey: string,
+  passphrase: string,
+  provider: string = detectProvider(apiKey),
+  baseUrl?: string
 ): Promise<{ user: User; credential: Credential; identity: Identity }> {
+  checkPassphrase(passphrase);
+  
   // Generate user ID with cryptographically secure random
   const randomBytes = crypto.getRandomValues(new Uint8Array(3));
   const shortId = Array.from(randomBytes)
@@ -36,18 +41,6 @@ export async function registerUser(
   };
   await saveUser(user);
   
-  // Encrypt and save API key
-  const encryptedKey = await encryptApiKey(apiKey, userId);
-  const provider = detectProvider(apiKey);
-  
-  const credential: Credential = {
-    user_id: userId,
-    encrypted_key: encryptedKey,
-    provider,
-    created_at: new Date().toISOString()
-  };
-  await saveCredential(credential);
-  
   // Generate Ed25519 keypair
   const keyPair = await generateKeyPair();
   const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
@@ -60,39 +53,41 @@ export async function registerUser(
     created_at: new Date().toISOString()
   };
   await saveIdentity(identity);
+  const selfKey = await importSignerKey(userId, publicKeyJwk, 'self');
   
-  // Create registration span
-  const registrationSpan: Partial<Span> = {
+  // Create registration span (hashed and signed on append)
+  const registrationSpan: Span = {
     id: generateId(),
     trace_id: `onboarding-${userId}`,
     type: 'user.registered',
     entity: 'user',
     body: {
       action: 'register_user',
-      input: { name, user_id: userId },
+      input: { name, user_id: userId, public_key: selfKey.public_key },
       output: { success: true, user_id: userId }
     },
     started_at: new Date().toISOString(),
     completed_at: new Date().toISOString(),
     this: {
       hash: '',
-      version: '1.0.0'
+      version: SPAN_VERSION
     }
   };
   
-  // Calculate hash
-  registrationSpan.this!.hash = await calculateSpanHash(registrationSpan);
+  await appendToLedger(registrationSpan);
   
-  // Sign span
-  const signature = await signSpan(registrationSpan as Span, keyPair.privateKey);
-  (registrationSpan as Span).confirmed_by = {
-    signature,
-    domain: 'minicontratos.local',
-    timestamp: new Date().toISOString(),
-    signer_id: userId
-  };
+  // Encrypt and save API key in the vault (unlocked from here on). The vault
+  // is created last: once it exists, registering again is refused.
+  await createVault(passphrase);
   
-  await appendToLedger(registrationSpan as Span);
+  const credential: Credential = {
+    user_id: userId,
+    ...(await sealApiKey(apiKey)),
+    provider,
+    ...(baseUrl && { base_url: baseUrl }),
+    created_at: new Date().toISOString()
+  };
+  await saveCredential(credential);
   
   return { user, credential, identity };
 }
@@ -0,0 +1,206 @@
+import type { User, Credential, Identity, LedgerEntry, Span, VaultConfig } from '../types';
+import {
+  getIdentity,
+  getCurrentUser,
+  getCredential,
+  getVaultConfig,
+  readLedgerSnapshot,
+  restoreIdentityData,
+  type LedgerSnapshot
+} from './db';
+import {
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  keyFingerprint,
+  type PassphraseEnvelope
+} from './crypto';
+import { buildKeyTimeline, findSigningKey, identityTraceId, onboardingTraceId } from './rotation';
+import { normalizePublicKey } from './keys';
+import { verifySpans } from './verify';
+
+export const BACKUP_FORMAT = 'minicontratos-backup';
+export const BACKUP_EXTENSION = '.minicontratos-backup';
+
+// Portable backup file: only the format header is readable without the passphrase
+export interface IdentityBackupFile extends PassphraseEnvelope {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  created_at: string;
+}
+
+interface IdentityBackupContents {
+  user: User;
+  credential: Credential;
+  identity: {
+    user_id: string;
+    public_key: JsonWebKey;
+    private_key: JsonWebKey;
+    created_at: string;
+  };
+  vault?: VaultConfig; // the credential is only readable with the vault passphrase
+  ledger: LedgerSnapshot;
+}
+
+export async function createIdentityBackup(passphrase: string): Promise<Blob> {
+  const [user, identity] = await Promise.all([getCurrentUser(), getIdentity()]);
+  if (!user || !identity) {
+    throw new Error('Nenhuma identidade para exportar.');
+  }
+  
+  if (!identity.private_key_handle.extractable) {
+    throw new Error(
+      'A chave desta identidade não pode ser exportada. ' +
+      'Habilite o backup para gerar uma chave exportável e tente novamente.'
+    );
+  }
+  
+  const credential = await getCredential(user.id);
+  if (!credential) {
+    throw new Error('Credenciais não encontradas.');
+  }
+  
+  const contents: IdentityBackupContents = {
+    user,
+    credential,
+    identity: {
+      user_id: identity.user_id,
+      public_key: identity.public_key,
+      private_key: await crypto.subtle.exportKey('jwk', identity.private_key_handle),
+      created_at: identity.created_at
+    },
+    vault: await getVaultConfig(),
+    ledger: await readLedgerSnapshot()
+  };
+  
+  const file: IdentityBackupFile = {
+    format: BACKUP_FORMAT,
+    version: 1,
+    created_at: new Date().toISOString(),
+    ...(await encryptWithPassphrase(JSON.stringify(contents), passphrase))
+  };
+  
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+async function readBackupContents(text: string, passphrase: string): Promise<IdentityBackupContents> {
+  let file: IdentityBackupFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Arquivo de backup ilegível.');
+  }
+  
+  if (file.format !== BACKUP_FORMAT || file.version !== 1) {
+    throw new Error('Este arquivo não é um backup do minicontratos.');
+  }
+  
+  try {
+    return JSON.parse(await decryptWithPassphrase(file, passphrase));
+  } catch {
+    throw new Error('Senha incorreta ou backup corrompido.');
+  }
+}
+
+// The restored key must be the key registered in the ledger, or one reached
+// from it through verified rotations, and must not have been revoked
+async function checkRestoredKey(
+  user: User,
+  publicKey: JsonWebKey,
+  spans: Span[],
+  chain: LedgerEntry[]
+): Promise<void> {
+  const registered = spans.find(s =>
+    s.type === 'user.registered' && s.body.input?.user_id === user.id
+  );
+  if (!registered?.confirmed_by) {
+    throw new Error('O backup não contém o registro do usuário no ledger.');
+  }
+  
+  const identitySpans = spans.filter(s =>
+    s.trace_id === onboardingTraceId(user.id) || s.trace_id === identityTraceId(user.id)
+  );
+  // The registered key is the anchor; registrations that predate public_key
+  // in the span can only be checked against the restored key itself
+  const timeline = await buildKeyTimeline(
+    identitySpans,
+    async () => [registered.body.input.public_key || publicKey],
+    chain
+  );
+  const candidates = timeline.get(user.id) || [];
+  
+  const registeredKey = await findSigningKey(registered, registered.confirmed_by.signature, candidates);
+  const current = candidates.find(k => k.fingerprint === keyFingerprint(publicKey));
+  
+  if (!registeredKey || !current) {
+    throw new Error('A chave do backup não corresponde à chave registrada no ledger.');
+  }
+  if (current.valid_until || current.revoked_at) {
+    throw new Error('A chave do backup foi substituída ou revogada. Use um backup mais recente.');
+  }
+}
+
+// The private key must sign for the public key recorded with it: a test
+// payload signed with one has to verify with the other. The restored key stays
+// exportable, since the identity already opted into backup.
+async function checkKeyPair(privateKey: JsonWebKey, publicKey: JsonWebKey): Promise<CryptoKey> {
+  let matches = false;
+  let signingKey: CryptoKey | undefined;
+  try {
+    signingKey = await crypto.subtle.importKey('jwk', privateKey, 'Ed25519', true, ['sign']);
+    const verifyingKey = await crypto.subtle.importKey('jwk', publicKey, 'Ed25519', false, ['verify']);
+    const payload = crypto.getRandomValues(new Uint8Array(32));
+    const signature = await crypto.subtle.sign('Ed25519', signingKey, payload);
+    matches = await crypto.subtle.verify('Ed25519', verifyingKey, signature, payload);
+  } catch {
+    matches = false;
+  }
+  
+  if (!signingKey || !matches) {
+    throw new Error('A chave privada do backup não corresponde à chave pública registrada.');
+  }
+  return signingKey;
+}
+
+// Restore an identity on a device without one. Returns the restored user.
+export async function restoreIdentityBackup(text: string, passphrase: string): Promise<User> {
+  if (await getIdentity()) {
+    throw new Error('Este dispositivo já tem uma identidade.');
+  }
+  
+  const contents = await readBackupContents(text, passphrase);
+  if (contents.identity.user_id !== contents.user.id || contents.credential.user_id !== contents.user.id) {
+    throw new Error('O backup mistura dados de usuários diferentes.');
+  }
+  const publicKey = await normalizePublicKey(contents.identity.public_key);
+  
+  await checkRestoredKey(contents.user, publicKey, contents.ledger.spans, contents.ledger.chain);
+  
+  const report = await verifySpans(
+    contents.ledger.spans,
+    async (signerId) => contents.ledger.keys.filter(k => k.signer_id === signerId).map(k => k.public_key),
+    contents.ledger.chain
+  );
+  if (!report.valid) {
+    throw new Error(`O ledger do backup não passou na verificação (${report.errors.length} erros).`);
+  }
+  
+  const privateKey = await checkKeyPair(contents.identity.private_key, publicKey);
+  
+  const identity: Identity = {
+    id: 'self',
+    user_id: contents.identity.user_id,
+    public_key: publicKey,
+    private_key_handle: privateKey,
+    created_at: contents.identity.created_at
+  };
+  
+  await restoreIdentityData({
+    user: contents.user,
+    credential: contents.credential,
+    identity,
+    vault: contents.vault,
+    snapshot: contents.ledger
+  });
+  
+  return contents.user;
+}
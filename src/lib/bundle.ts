@@ -0,0 +1,233 @@
+// Portable contract bundles (.minicontrato): one contract's spans, the
+// identity spans and public keys of everyone who signed them, and a manifest
+// whose hash covers the rest of the file.
+import type { Contract, Span, SpanSignature } from '../types';
+import { calculateCanonicalHash, keyFingerprint, SPAN_VERSION } from './crypto';
+import { CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import { createVerificationContext, verifySpan, type PublicKeyResolver } from './verify';
+
+export const BUNDLE_FORMAT = 'minicontrato';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.minicontrato';
+
+export interface BundleKey {
+  signer_id: string;
+  fingerprint: string;
+  public_key: JsonWebKey;
+}
+
+export interface BundleManifest {
+  spans: Array<{ id: string; hash: string }>;
+  keys: string[];  // fingerprints
+  hash: string;    // hash of the bundle without manifest.hash
+}
+
+export interface ContractBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  span_version: string;
+  exported_at: string;
+  exported_by?: string;
+  contract: Contract;
+  spans: Span[];
+  keys: BundleKey[];
+  manifest: BundleManifest;
+}
+
+export type BundleSpanStatus = 'accepted' | 'duplicate' | 'updated' | 'rejected';
+
+export interface BundleSpanResult {
+  span_id: string;
+  type: string;
+  status: BundleSpanStatus;
+  new_signatures: SpanSignature[];  // verified party signatures not held locally
+  reasons: string[];
+}
+
+export interface BundleVerification {
+  contract_id: string;
+  manifest_hash: string;
+  valid: boolean;
+  spans: BundleSpanResult[];
+  errors: string[];
+  warnings: string[];
+}
+
+export function identityTraceIds(signerId: string): string[] {
+  return [`onboarding-${signerId}`, `identity-${signerId}`];
+}
+
+export function spanSigners(spans: Span[]): string[] {
+  return [...new Set(spans.flatMap(s => [
+    ...(s.confirmed_by ? [s.confirmed_by.signer_id] : []),
+    ...(s.signatures || []).map(sig => sig.signer_id)
+  ]))];
+}
+
+export function calculateManifestHash(bundle: ContractBundle): string {
+  return calculateCanonicalHash({ ...bundle, manifest: { ...bundle.manifest, hash: undefined } });
+}
+
+export function createBundle(data: {
+  contract: Contract;
+  spans: Span[];
+  keys: BundleKey[];
+  exported_by?: string;
+}): ContractBundle {
+  const bundle: ContractBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    span_version: SPAN_VERSION,
+    exported_at: new Date().toISOString(),
+    exported_by: data.exported_by,
+    contract: data.contract,
+    spans: data.spans,
+    keys: data.keys,
+    manifest: {
+      spans: data.spans.map(s => ({ id: s.id, hash: s.this.hash })),
+      keys: data.keys.map(k => k.fingerprint),
+      hash: ''
+    }
+  };
+  bundle.manifest.hash = calculateManifestHash(bundle);
+  return bundle;
+}
+
+export function parseBundle(text: string): ContractBundle {
+  let bundle: ContractBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('Arquivo de contrato ilegível.');
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    throw new Error('Este arquivo não é um contrato do minicontratos.');
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new Error(`Versão de pacote não suportada: ${bundle.version}`);
+  }
+  if (!bundle.contract?.id || !Array.isArray(bundle.spans) || !Array.isArray(bundle.keys) || !bundle.manifest) {
+    throw new Error('Pacote de contrato incompleto.');
+  }
+
+  return bundle;
+}
+
+// The manifest must hash to itself and list exactly the spans and keys present
+function checkManifest(bundle: ContractBundle): string[] {
+  const errors: string[] = [];
+  const { manifest } = bundle;
+
+  if (calculateManifestHash(bundle) !== manifest.hash) {
+    errors.push('Hash do manifesto não confere: o pacote foi alterado depois de exportado');
+  }
+
+  const listed = new Map((manifest.spans || []).map(s => [s.id, s.hash]));
+  if (listed.size !== bundle.spans.length) {
+    errors.push(`Manifesto lista ${listed.size} spans, pacote contém ${bundle.spans.length}`);
+  }
+  for (const span of bundle.spans) {
+    if (listed.get(span.id) !== span.this?.hash) {
+      errors.push(`Span ${span.id} não confere com o manifesto`);
+    }
+  }
+
+  for (const key of bundle.keys) {
+    if (keyFingerprint(key.public_key) !== key.fingerprint || !manifest.keys?.includes(key.fingerprint)) {
+      errors.push(`Chave ${key.fingerprint} de ${key.signer_id} não confere com o manifesto`);
+    }
+  }
+
+  return errors;
+}
+
+// Keys the bundle carries for a signer
+export function bundleKeyResolver(bundle: ContractBundle): PublicKeyResolver {
+  return async (signerId) => bundle.keys.filter(k => k.signer_id === signerId).map(k => k.public_key);
+}
+
+// Verify every span of a bundle against the spans already held locally.
+// Spans must belong to the contract or to the identity of one of its signers,
+// carry a valid signature and not conflict with a local span of the same id.
+export async function verifyBundle(
+  bundle: ContractBundle,
+  resolver: PublicKeyResolver,
+  localSpans: Span[] = []
+): Promise<BundleVerification> {
+  const report: BundleVerification = {
+    contract_id: bundle.contract.id,
+    manifest_hash: bundle.manifest.hash,
+    valid: false,
+    spans: [],
+    errors: checkManifest(bundle),
+    warnings: []
+  };
+
+  const local = new Map(localSpans.map(s => [s.id, s]));
+  const allowedTraces = new Set([
+    bundle.contract.id,
+    ...spanSigners(bundle.spans).flatMap(identityTraceIds)
+  ]);
+
+  // Bundle copies replace local ones so that their new signers are resolved
+  const bundled = new Set(bundle.spans.map(s => s.id));
+  const context = await createVerificationContext(
+    [...localSpans.filter(s => !bundled.has(s.id)), ...bundle.spans],
+    resolver
+  );
+
+  for (const span of bundle.spans) {
+    const result: BundleSpanResult = {
+      span_id: span.id,
+      type: span.type,
+      status: 'accepted',
+      new_signatures: [],
+      reasons: []
+    };
+
+    if (!allowedTraces.has(span.trace_id)) {
+      result.reasons.push(`Trace ${span.trace_id} não pertence ao contrato`);
+    }
+
+    const existing = local.get(span.id);
+    if (existing && existing.this.hash !== span.this.hash) {
+      result.reasons.push(`Conflita com o span local de mesmo id (hash ${existing.this.hash})`);
+    }
+
+    const verification = await verifySpan(span, context);
+    result.reasons.push(...verification.errors);
+    if (verification.signature === 'unknown_signer') {
+      result.reasons.push(`Nenhuma chave conhecida para ${span.confirmed_by?.signer_id}`);
+    }
+
+    // Only party signatures that verify are carried over
+    const known = existing?.signatures || [];
+    result.new_signatures = (span.signatures || []).filter((signature, idx) =>
+      verification.cosignatures[idx]?.status === 'valid' &&
+      !known.some(k => k.signer_id === signature.signer_id && k.party === signature.party)
+    );
+
+    if (result.reasons.length > 0) {
+      result.status = 'rejected';
+      result.new_signatures = [];
+    } else if (existing) {
+      result.status = result.new_signatures.length > 0 ? 'updated' : 'duplicate';
+    }
+
+    report.spans.push(result);
+  }
+
+  const created = bundle.spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+  if (created?.trace_id !== bundle.contract.id) {
+    report.errors.push('O pacote não contém a criação do contrato');
+  }
+
+  const rejected = report.spans.filter(s => s.status === 'rejected').length;
+  if (rejected > 0) {
+    report.errors.push(`${rejected} span(s) rejeitado(s)`);
+  }
+
+  report.valid = report.errors.length === 0;
+  return report;
+}
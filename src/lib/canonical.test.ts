@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { hexToBytes } from '@noble/hashes/utils.js';
+import vectors from '../../docs/vectors/canonical-json.json';
+import type { Span } from '../types';
+import { canonicalize } from './canonical';
+import { calculateEntryHash, calculateSpanHash, signSpan, spanHashPayload, spanSigningPayload, verifySignature } from './crypto';
+import { createInclusionProof, merkleRoot, verifyInclusionProof } from './merkle';
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+describe('canonical JSON vectors', () => {
+  it.each(vectors.canonicalization)('canonicalizes $canonical', ({ input, canonical }) => {
+    expect(canonicalize(JSON.parse(input))).toBe(canonical);
+  });
+
+  it('rejects values without a JSON form', () => {
+    expect(() => canonicalize({ a: NaN })).toThrow();
+    expect(() => canonicalize([Infinity])).toThrow();
+  });
+
+  it('omits undefined properties', () => {
+    expect(canonicalize({ b: 1, a: undefined })).toBe('{"b":1}');
+  });
+
+  it.each(vectors.span_hash)('hashes the span $hash', async ({ span, hash_payload, hash }) => {
+    expect(spanHashPayload(span as Span)).toBe(hash_payload);
+    expect(await calculateSpanHash(span as Span)).toBe(hash);
+  });
+
+  it.each(vectors.span_signature)('signs the span deterministically', async (vector) => {
+    const span = vector.span as Span;
+    const privateKey = await crypto.subtle.importKey(
+      'jwk',
+      { ...vector.public_key, d: base64url(hexToBytes(vector.private_key_seed)) },
+      'Ed25519',
+      false,
+      ['sign']
+    );
+
+    expect(spanSigningPayload(span)).toBe(vector.signing_payload);
+    expect(await signSpan(span, privateKey)).toBe(vector.signature);
+    expect(await verifySignature(span, vector.signature, vector.public_key)).toBe(true);
+  });
+
+  it('rejects a signature over altered content', async () => {
+    const vector = vectors.span_signature[0];
+    const altered = { ...vector.span, body: { ...vector.span.body, action: 'other' } } as Span;
+    expect(await verifySignature(altered, vector.signature, vector.public_key)).toBe(false);
+  });
+
+  it.each(vectors.ledger_entry)('hashes the ledger entry $hash', ({ entry, hash }) => {
+    expect(calculateEntryHash(entry)).toBe(hash);
+  });
+
+  it.each(vectors.merkle)('computes the merkle root and inclusion proof', ({ leaves, root, inclusion_proof }) => {
+    expect(merkleRoot(leaves)).toBe(root);
+    expect(createInclusionProof(leaves, inclusion_proof.leaf_index)).toEqual(inclusion_proof);
+    expect(verifyInclusionProof(inclusion_proof, root)).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+// Canonical JSON (RFC 8785 - JSON Canonicalization Scheme)
+//
+// - object keys sorted by their UTF-16 code units, at every depth
+// - no insignificant whitespace
+// - numbers in ECMAScript shortest round-trip form (1e+30, 0.002, 4.5)
+// - strings escaped exactly as JSON.stringify does
+// - properties whose value is undefined are omitted, like JSON.stringify
+//
+// Everything that gets hashed or signed goes through canonicalize(), so any
+// implementation of RFC 8785 reproduces the same bytes.
+
+export function canonicalize(value: unknown): string {
+  if (value === null) return 'null';
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Número não representável em JSON: ${value}`);
+      }
+      // ECMAScript Number-to-String is the serialization RFC 8785 mandates
+      return JSON.stringify(value);
+
+    case 'string':
+      return JSON.stringify(value);
+
+    case 'object': {
+      if (Array.isArray(value)) {
+        return '[' + value.map(item => {
+          if (item === undefined) {
+            throw new Error('Valor undefined não permitido em arrays');
+          }
+          return canonicalize(item);
+        }).join(',') + ']';
+      }
+
+      const record = value as Record<string, unknown>;
+      // Default sort compares UTF-16 code units, as RFC 8785 requires
+      const keys = Object.keys(record).filter(k => record[k] !== undefined).sort();
+      return '{' + keys.map(k => JSON.stringify(k) + ':' + canonicalize(record[k])).join(',') + '}';
+    }
+
+    default:
+      throw new Error(`Tipo não suportado em JSON canônico: ${typeof value}`);
+  }
+}
+
+export function canonicalBytes(value: unknown): Uint8Array {
+  return new TextEncoder().encode(canonicalize(value));
+}
@@ -0,0 +1,169 @@
+// Assistant conversations are recorded in the contract's trace: each turn is
+// an llm.prompted span followed by an llm.responded span, so the ledger shows
+// which answer each clause came from. A trace with turns but no
+// contract.created is a draft that can be resumed.
+import type { LLMConfig, Message, Span } from '../types';
+import { appendToLedger, queryLedger } from './db';
+import { generateId, SPAN_VERSION } from './crypto';
+import { extractSpans, extractSpansFromValue, type SpanExtraction } from './extract';
+import { modelLabel } from './models';
+import { CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import type { ToolCallRecord } from './tools';
+import type { CallUsage } from './usage';
+import type { RedactionLog } from './redact';
+
+export const LLM_PROMPTED_SPAN_TYPE = 'llm.prompted';
+export const LLM_RESPONDED_SPAN_TYPE = 'llm.responded';
+
+export interface ConversationTurn {
+  prompt: string;
+  response: string;
+  config: LLMConfig;
+  started_at: string;
+  completed_at: string;
+  tool_calls?: ToolCallRecord[];
+  usage?: CallUsage;
+  redaction?: RedactionLog;
+}
+
+export interface DraftConversation {
+  trace_id: string;
+  first_prompt: string;
+  turns: number;
+  started_at: string;
+  last_activity: string;
+}
+
+function llmMetadata(config: LLMConfig) {
+  return {
+    provider: config.provider,
+    model: config.model,
+    ...(config.maxTokens !== undefined && { max_tokens: config.maxTokens }),
+    ...(config.temperature !== undefined && { temperature: config.temperature })
+  };
+}
+
+// Both spans are appended once the answer is complete; cancelled or failed
+// requests leave nothing behind
+export async function recordTurn(traceId: string, turn: ConversationTurn): Promise<[Span, Span]> {
+  const prompted: Span = {
+    id: generateId(),
+    trace_id: traceId,
+    type: LLM_PROMPTED_SPAN_TYPE,
+    entity: 'conversation',
+    body: {
+      action: 'prompt_llm',
+      input: { content: turn.prompt },
+      metadata: {
+        ...llmMetadata(turn.config),
+        // What the provider did not see; the values stay only in this ledger
+        ...(turn.redaction && { redaction: turn.redaction })
+      }
+    },
+    started_at: turn.started_at,
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  };
+  await appendToLedger(prompted);
+
+  const responded: Span = {
+    id: generateId(),
+    trace_id: traceId,
+    parent_id: prompted.id,
+    type: LLM_RESPONDED_SPAN_TYPE,
+    entity: 'conversation',
+    body: {
+      action: 'llm_respond',
+      input: { prompt_id: prompted.id },
+      output: {
+        content: turn.response,
+        ...(turn.tool_calls?.length && {
+          tool_calls: turn.tool_calls.map(c => ({ name: c.name, kind: c.kind, input: c.input }))
+        })
+      },
+      metadata: {
+        ...llmMetadata(turn.config),
+        ...(turn.usage && { usage: turn.usage })
+      }
+    },
+    started_at: turn.started_at,
+    completed_at: turn.completed_at,
+    duration_ms: new Date(turn.completed_at).getTime() - new Date(turn.started_at).getTime(),
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  };
+  await appendToLedger(responded);
+
+  return [prompted, responded];
+}
+
+function byTime(a: Span, b: Span): number {
+  return a.started_at.localeCompare(b.started_at) || (a.type === LLM_PROMPTED_SPAN_TYPE ? -1 : 1);
+}
+
+// Rebuild the chat, and the latest proposal, from the recorded turns
+export async function loadConversation(traceId: string): Promise<{ messages: Message[]; extraction: SpanExtraction | null }> {
+  const spans = (await queryLedger({ trace_id: traceId }))
+    .filter(s => s.type === LLM_PROMPTED_SPAN_TYPE || s.type === LLM_RESPONDED_SPAN_TYPE)
+    .sort(byTime);
+
+  const messages: Message[] = [];
+  let extraction: SpanExtraction | null = null;
+
+  for (const span of spans) {
+    if (span.type === LLM_PROMPTED_SPAN_TYPE) {
+      messages.push({ role: 'user', content: span.body.input.content });
+      continue;
+    }
+
+    const { content, tool_calls } = span.body.output;
+    const metadata = span.body.metadata || {};
+    messages.push({
+      role: 'assistant',
+      content,
+      model: modelLabel({ provider: metadata.provider, model: metadata.model, apiKey: '' })
+    });
+
+    // Same precedence as the live chat: a proposal made through the tool,
+    // then spans written in the text
+    const proposal = (tool_calls || []).filter((c: ToolCallRecord) => c.kind === 'propose').pop();
+    const fromText = extractSpans(content);
+    if (fromText.spans.length > 0 || fromText.errors.length > 0) {
+      extraction = fromText;
+    } else if (proposal) {
+      extraction = extractSpansFromValue(proposal.input);
+    }
+  }
+
+  return { messages, extraction };
+}
+
+// Traces with conversation turns that never became a contract
+export async function listDraftConversations(): Promise<DraftConversation[]> {
+  const prompts = await queryLedger({ type: LLM_PROMPTED_SPAN_TYPE });
+  const traces = new Map<string, Span[]>();
+  for (const span of prompts) {
+    traces.set(span.trace_id, [...(traces.get(span.trace_id) || []), span]);
+  }
+
+  const drafts: DraftConversation[] = [];
+  for (const [traceId, turns] of traces) {
+    const trace = await queryLedger({ trace_id: traceId });
+    if (trace.some(s => s.type === CONTRACT_CREATED_SPAN_TYPE)) continue;
+
+    const sorted = trace.sort(byTime);
+    drafts.push({
+      trace_id: traceId,
+      first_prompt: turns.sort(byTime)[0].body.input.content,
+      turns: turns.length,
+      started_at: sorted[0].started_at,
+      last_activity: sorted[sorted.length - 1].completed_at || sorted[sorted.length - 1].started_at
+    });
+  }
+
+  return drafts.sort((a, b) => b.last_activity.localeCompare(a.last_activity));
+}
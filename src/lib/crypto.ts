@@ -1,7 +1,8 @@
 // Use direct imports without path extensions
 import { blake3 } from '@noble/hashes/blake3.js';
 import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
-import type { Span } from '../types';
+import type { Span, LedgerEntry } from '../types';
+import { canonicalize, canonicalBytes } from './canonical';
 
 // Generate UUID v7 (timestamp-based)
 export function generateId(): string {
@@ -22,9 +23,35 @@ export function generateId(): string {
   return uuid;
 }
 
-// Calculate BLAKE3 hash of a span
-export async function calculateSpanHash(span: Partial<Span>): Promise<string> {
-  // Create a canonical representation for hashing
+// Schema version of spans created by this build. Version 1.0.0 spans were
+// hashed and signed with JSON.stringify and are still verified that way.
+export const SPAN_VERSION = '2.0.0';
+const LEGACY_SPAN_VERSION = '1.0.0';
+
+// Span without its signatures (author's and parties'): the content covered
+// by the signing payload, so every signer signs the same bytes
+function unsignedSpan(span: Partial<Span>): Partial<Span> {
+  const unsigned = { ...span };
+  delete unsigned.confirmed_by;
+  delete unsigned.signatures;
+  return unsigned;
+}
+
+// Canonical payload hashed into span.this.hash: the whole span except the
+// hash itself and the signatures
+export function spanHashPayload(span: Partial<Span>): string {
+  const thisWithoutHash: Partial<Span['this']> = { ...span.this };
+  delete thisWithoutHash.hash;
+  return canonicalize({ ...unsignedSpan(span), this: thisWithoutHash });
+}
+
+// Canonical payload signed by every signer: the whole span, including its
+// hash, except the signatures
+export function spanSigningPayload(span: Partial<Span>): string {
+  return canonicalize(unsignedSpan(span));
+}
+
+function legacyHashPayload(span: Partial<Span>): string {
   const canonical = {
     id: span.id,
     trace_id: span.trace_id,
@@ -34,16 +61,13 @@ export async function calculateSpanHash(span: Partial<Span>): Promise<string> {
     body: span.body,
     started_at: span.started_at,
     completed_at: span.completed_at,
+    prev_hash: span.this?.prev_hash,
   };
-  
-  const jsonString = JSON.stringify(canonical, Object.keys(canonical).sort());
-  const hash = blake3(new TextEncoder().encode(jsonString));
-  return 'blake3:' + bytesToHex(hash);
+  return JSON.stringify(canonical, Object.keys(canonical).sort());
 }
 
-// Sign a span using Ed25519
-export async function signSpan(span: Span, privateKey: CryptoKey): Promise<string> {
-  const canonical = JSON.stringify({
+function legacySigningPayload(span: Span): string {
+  return JSON.stringify({
     id: span.id,
     trace_id: span.trace_id,
     type: span.type,
@@ -52,8 +76,34 @@ export async function signSpan(span: Span, privateKey: CryptoKey): Promise<strin
     started_at: span.started_at,
     hash: span.this.hash,
   }, Object.keys(span).sort());
-  
-  const data = new TextEncoder().encode(canonical);
+}
+
+function isLegacySpan(span: Partial<Span>): boolean {
+  return span.this?.version === LEGACY_SPAN_VERSION;
+}
+
+// Calculate BLAKE3 hash of a span
+export async function calculateSpanHash(span: Partial<Span>): Promise<string> {
+  const payload = isLegacySpan(span) ? legacyHashPayload(span) : spanHashPayload(span);
+  const hash = blake3(new TextEncoder().encode(payload));
+  return 'blake3:' + bytesToHex(hash);
+}
+
+// Calculate BLAKE3 hash of a ledger chain entry
+export function calculateEntryHash(entry: Omit<LedgerEntry, 'hash'>): string {
+  const payload = canonicalBytes([entry.seq, entry.span_id, entry.span_hash, entry.prev]);
+  return 'blake3:' + bytesToHex(blake3(payload));
+}
+
+// Calculate BLAKE3 hash of any JSON value in canonical form
+export function calculateCanonicalHash(value: unknown): string {
+  return 'blake3:' + bytesToHex(blake3(canonicalBytes(value)));
+}
+
+// Sign a span using Ed25519
+export async function signSpan(span: Span, privateKey: CryptoKey): Promise<string> {
+  const payload = isLegacySpan(span) ? legacySigningPayload(span) : spanSigningPayload(span);
+  const data = new TextEncoder().encode(payload);
   
   const signature = await crypto.subtle.sign(
     'Ed25519',
@@ -71,22 +121,10 @@ export async function verifySignature(
   publicKey: JsonWebKey
 ): Promise<boolean> {
   try {
-    const signatureHex = signature.replace('ed25519:', '');
-    const signatureBytes = new Uint8Array(
-      signatureHex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-    );
-    
-    const canonical = JSON.stringify({
-      id: span.id,
-      trace_id: span.trace_id,
-      type: span.type,
-      entity: span.entity,
-      body: span.body,
-      started_at: span.started_at,
-      hash: span.this.hash,
-    }, Object.keys(span).sort());
+    const signatureBytes = new Uint8Array(hexToBytes(signature.replace('ed25519:', '')));
     
-    const data = new TextEncoder().encode(canonical);
+    const payload = isLegacySpan(span) ? legacySigningPayload(span) : spanSigningPayload(span);
+    const data = new TextEncoder().encode(payload);
     
     const publicCryptoKey = await crypto.subtle.importKey(
       'jwk',
@@ -108,6 +146,12 @@ export async function verifySignature(
   }
 }
 
+// Fingerprint of an Ed25519 public key (only the key material is hashed)
+export function keyFingerprint(publicKey: JsonWebKey): string {
+  const payload = canonicalBytes({ crv: publicKey.crv, kty: publicKey.kty, x: publicKey.x });
+  return 'blake3:' + bytesToHex(blake3(payload));
+}
+
 // Encrypt API key using PBKDF2 + AES-GCM
 export async function encryptApiKey(apiKey: string, userId: string): Promise<string> {
   const salt = crypto.getRandomValues(new Uint8Array(16));
@@ -186,28 +230,118 @@ export async function decryptApiKey(encrypted: string, userId: string): Promise<
   return new TextDecoder().decode(decrypted);
 }
 
-// Generate Ed25519 keypair
-export async function generateKeyPair(): Promise<CryptoKeyPair> {
+// Generate Ed25519 keypair. The private key never leaves WebCrypto unless
+// `extractable` is set, which only identities that opted into backup do.
+export async function generateKeyPair(extractable: boolean = false): Promise<CryptoKeyPair> {
   return await crypto.subtle.generateKey(
     'Ed25519',
-    false,
+    extractable,
     ['sign', 'verify']
   );
 }
 
+// Data encrypted with a passphrase-derived key (PBKDF2 + AES-GCM)
+export interface PassphraseEnvelope {
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+const PASSPHRASE_ITERATIONS = 600000;
+
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PASSPHRASE_ITERATIONS
+): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+  
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: salt,
+      iterations,
+      hash: 'SHA-256'
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<PassphraseEnvelope> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt);
+  
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  
+  return {
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PASSPHRASE_ITERATIONS, salt: bytesToHex(salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToHex(iv) },
+    ciphertext: bytesToHex(new Uint8Array(encrypted))
+  };
+}
+
+// Throws when the passphrase is wrong or the data was tampered with
+export async function decryptWithPassphrase(envelope: PassphraseEnvelope, passphrase: string): Promise<string> {
+  const key = await derivePassphraseKey(
+    passphrase,
+    new Uint8Array(hexToBytes(envelope.kdf.salt)),
+    envelope.kdf.iterations
+  );
+  
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(hexToBytes(envelope.cipher.iv)) },
+    key,
+    new Uint8Array(hexToBytes(envelope.ciphertext))
+  );
+  
+  return new TextDecoder().decode(decrypted);
+}
+
+// Encrypt with an AES-GCM key held by the caller. Returns hex of iv + ciphertext.
+export async function encryptWithKey(plaintext: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  
+  const combined = new Uint8Array(iv.length + encrypted.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(encrypted), iv.length);
+  
+  return bytesToHex(combined);
+}
+
+// Throws when the key is wrong or the data was tampered with
+export async function decryptWithKey(encrypted: string, key: CryptoKey): Promise<string> {
+  const data = new Uint8Array(hexToBytes(encrypted));
+  
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: data.slice(0, 12) },
+    key,
+    data.slice(12)
+  );
+  
+  return new TextDecoder().decode(decrypted);
+}
+
 // Hash API key for lookup
 export async function hashApiKey(apiKey: string): Promise<string> {
   const hash = blake3(new TextEncoder().encode(apiKey));
   return bytesToHex(hash);
 }
-
-// Detect provider from API key format
-export function detectProvider(apiKey: string): 'anthropic' | 'openai' | 'ollama' {
-  if (apiKey.startsWith('sk-ant-')) {
-    return 'anthropic';
-  } else if (apiKey.startsWith('sk-') || apiKey.startsWith('sk-proj-')) {
-    return 'openai';
-  } else {
-    return 'ollama';
-  }
-}
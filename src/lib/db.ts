@@ -1,5 +1,46 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
-import type { Span, Contract, User, Credential, Identity, Session } from '../types';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb';
+import type {
+  Span,
+  SpanSignature,
+  Contract,
+  User,
+  Credential,
+  Identity,
+  Session,
+  LedgerEntry,
+  SignerKey,
+  VaultConfig,
+  LLMSettings,
+  UsageSettings,
+  LLMFixtureStore,
+  RedactionSettings
+} from '../types';
+import {
+  createVerificationContext,
+  verifySpan,
+  verifySpans,
+  CHECKPOINT_SPAN_TYPE,
+  LEDGER_EXPORT_FORMAT,
+  LEDGER_EXPORT_VERSION,
+  type LedgerExport,
+  type LedgerVerification,
+  type PublicKeyResolver,
+  type SpanVerification
+} from './verify';
+import { calculateSpanHash, calculateEntryHash, generateId, signSpan, keyFingerprint, SPAN_VERSION } from './crypto';
+import { merkleRoot, createInclusionProof, type InclusionProof } from './merkle';
+import { assertTransition, isTransitionSpan } from './lifecycle';
+import { CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import {
+  applySignatures,
+  applySpan,
+  compareProjections,
+  projectContract,
+  type ProjectionRebuild
+} from './projection';
+
+// A signed checkpoint is published every CHECKPOINT_INTERVAL ledger entries
+export const CHECKPOINT_INTERVAL = 32;
 
 interface MinicontratosDB extends DBSchema {
   spans: {
@@ -12,6 +53,13 @@ interface MinicontratosDB extends DBSchema {
       'by-time': string;
     };
   };
+  chain: {
+    key: number;
+    value: LedgerEntry;
+    indexes: {
+      'by-span': string;
+    };
+  };
   contracts: {
     key: string;
     value: Contract;
@@ -28,6 +76,13 @@ interface MinicontratosDB extends DBSchema {
     key: 'self';
     value: Identity;
   };
+  keys: {
+    key: string;
+    value: SignerKey;
+    indexes: {
+      'by-signer': string;
+    };
+  };
   session: {
     key: 'current';
     value: Session;
@@ -45,8 +100,8 @@ export async function getDB(): Promise<IDBPDatabase<MinicontratosDB>> {
     return dbInstance;
   }
 
-  dbInstance = await openDB<MinicontratosDB>('minicontratos', 1, {
-    upgrade(db) {
+  dbInstance = await openDB<MinicontratosDB>('minicontratos', 3, {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
       // Spans store with indexes
       if (!db.objectStoreNames.contains('spans')) {
         const spanStore = db.createObjectStore('spans', { keyPath: 'id' });
@@ -85,15 +140,398 @@ export async function getDB(): Promise<IDBPDatabase<MinicontratosDB>> {
       if (!db.objectStoreNames.contains('settings')) {
         db.createObjectStore('settings');
       }
+
+      // Ledger chain store
+      if (!db.objectStoreNames.contains('chain')) {
+        const chainStore = db.createObjectStore('chain', { keyPath: 'seq' });
+        chainStore.createIndex('by-span', 'span_id');
+      }
+
+      // Signer key directory
+      if (!db.objectStoreNames.contains('keys')) {
+        const keyStore = db.createObjectStore('keys', { keyPath: 'fingerprint' });
+        keyStore.createIndex('by-signer', 'signer_id');
+      }
+
+      // Spans written before the chain existed are chained in time order
+      if (oldVersion > 0 && oldVersion < 2) {
+        await chainExistingSpans(transaction);
+      }
+
+      // The local identity's key is the first entry of the directory
+      if (oldVersion > 0 && oldVersion < 3) {
+        const identity = await transaction.objectStore('identity').get('self');
+        if (identity) {
+          await transaction.objectStore('keys').put({
+            fingerprint: keyFingerprint(identity.public_key),
+            signer_id: identity.user_id,
+            public_key: identity.public_key,
+            provenance: 'self',
+            added_at: identity.created_at
+          });
+        }
+      }
     },
   });
 
   return dbInstance;
 }
 
-export async function appendToLedger(span: Span): Promise<void> {
+async function chainExistingSpans(
+  transaction: IDBPTransaction<MinicontratosDB, StoreNames<MinicontratosDB>[], 'versionchange'>
+): Promise<void> {
+  const spans = await transaction.objectStore('spans').index('by-time').getAll();
+  let prev: string | null = null;
+  
+  for (const [idx, span] of spans.entries()) {
+    const entry = { seq: idx + 1, span_id: span.id, span_hash: span.this.hash, prev };
+    const hash = calculateEntryHash(entry);
+    await transaction.objectStore('chain').add({ ...entry, hash });
+    prev = hash;
+  }
+}
+
+// Spans of a trace in ledger order, with the chain entry of each one read
+// from the given source (the database or an open transaction)
+async function inLedgerOrder(
+  spans: Span[],
+  entryOf: (spanId: string) => Promise<LedgerEntry | undefined>
+): Promise<Span[]> {
+  const seqs = new Map<string, number>();
+  for (const span of spans) {
+    seqs.set(span.id, (await entryOf(span.id))?.seq ?? 0);
+  }
+  return [...spans].sort((a, b) => seqs.get(a.id)! - seqs.get(b.id)!);
+}
+
+// Latest span of a trace, in ledger order
+async function getTraceHead(traceId: string): Promise<Span | undefined> {
+  const db = await getDB();
+  const spans = await inLedgerOrder(
+    await db.getAllFromIndex('spans', 'by-trace', traceId),
+    spanId => db.getFromIndex('chain', 'by-span', spanId)
+  );
+  return spans[spans.length - 1];
+}
+
+// Replay the lifecycle guards over a whole trace, in ledger order: every
+// transition must have been legal against the spans before it. Signatures
+// are taken from the final spans, as they are not ordered in the ledger.
+function assertTraceTransitions(trace: Span[], verified: Set<string>): void {
+  trace.forEach((span, idx) => {
+    if (!isTransitionSpan(span)) return;
+    const before = trace.slice(0, idx);
+    assertTransition(projectContract(before), before, span.type, verified);
+  });
+}
+
+// A trace holds a single contract: a second contract.created would fold
+// other terms into the same record
+function assertSingleContract(trace: Span[]): void {
+  if (trace.filter(span => span.type === CONTRACT_CREATED_SPAN_TYPE).length > 1) {
+    throw new Error(`O trace ${trace[0].trace_id} já tem um contrato.`);
+  }
+}
+
+// Every key the directory knows for a signer, plus keys about to be stored
+function keyResolver(pending: SignerKey[] = []): PublicKeyResolver {
+  return async (signerId) => [
+    ...(await getSignerKeys(signerId)),
+    ...pending.filter(k => k.signer_id === signerId)
+  ].map(k => k.public_key);
+}
+
+// Party signatures on the given spans that check out against their signers'
+// key timelines, built from the ledger plus the given spans. Only these
+// count toward a signing quorum.
+async function verifiedSignatures(spans: Span[], pendingKeys: SignerKey[] = []): Promise<Set<string>> {
+  const db = await getDB();
+  const ids = new Set(spans.map(s => s.id));
+  const held = (await db.getAll('spans')).filter(s => !ids.has(s.id));
+  const context = await createVerificationContext(
+    [...held, ...spans],
+    keyResolver(pendingKeys),
+    await db.getAll('chain')
+  );
+  
+  const verified = new Set<string>();
+  for (const span of spans.filter(s => s.signatures?.length)) {
+    const result = await verifySpan(span, context);
+    span.signatures!.forEach((signature, idx) => {
+      if (result.cosignatures[idx]?.status === 'valid') verified.add(signature.signature);
+    });
+  }
+  return verified;
+}
+
+// Attempts at sealing a span while other appends move the head of its trace
+const APPEND_ATTEMPTS = 3;
+
+// Append a span to the ledger. Spans without a hash are sealed here: linked
+// to the head of their trace, hashed and signed with the local identity.
+// Spans that already carry a hash (e.g. imported ones) are stored as they are.
+// `rotated` replaces the local identity and adds its key to the directory in
+// the same transaction, so a key rotation is never recorded without the new
+// key being kept; the span itself is still signed with the current key.
+export async function appendToLedger(
+  span: Span,
+  rotated?: { identity: Identity; key: SignerKey }
+): Promise<Span> {
+  const [appended] = await appendSpansToLedger([span], rotated);
+  return appended;
+}
+
+// Append spans to the ledger in one transaction, in the given order: either
+// all of them are stored or none is. Each sealed span links to the one before
+// it in its trace.
+// Lifecycle transitions must pass their guards against the trace so far,
+// counting only the party signatures that verify, and a trace holds a single
+// contract.created.
+// The heads and the guards are read again in the write transaction, so two
+// concurrent appends cannot both link to the same head or pass the same
+// guard; spans sealed against a stale head are sealed again.
+// The contract records of the traces are projected in the same transaction.
+export async function appendSpansToLedger(
+  spans: Span[],
+  rotated?: { identity: Identity; key: SignerKey }
+): Promise<Span[]> {
+  const db = await getDB();
+  const sealing = spans.map(span => !span.this.hash);
+  const presigned = spans.some((span, idx) => sealing[idx] && Boolean(span.confirmed_by));
+  
+  for (let attempt = 1; ; attempt++) {
+    const identity = await db.get('identity', 'self');
+    const heads = new Map<string, string | undefined>();
+    for (const [idx, span] of spans.entries()) {
+      if (sealing[idx]) {
+        if (!heads.has(span.trace_id)) {
+          heads.set(span.trace_id, (await getTraceHead(span.trace_id))?.this.hash);
+        }
+        const head = heads.get(span.trace_id);
+        if (head) {
+          span.this.prev_hash = head;
+        }
+        
+        span.this.hash = await calculateSpanHash(span);
+        
+        if (identity && !span.confirmed_by) {
+          span.confirmed_by = {
+            signature: await signSpan(span, identity.private_key_handle),
+            domain: 'minicontratos.local',
+            timestamp: new Date().toISOString(),
+            signer_id: identity.user_id
+          };
+        }
+      }
+      heads.set(span.trace_id, span.this.hash);
+    }
+    
+    // Signatures are checked before the transaction, which cannot wait on crypto
+    const traceIds = new Set(spans.map(span => span.trace_id));
+    let verified: Set<string> | undefined;
+    if (spans.some(isTransitionSpan)) {
+      const held: Span[] = [];
+      for (const traceId of traceIds) {
+        held.push(...(await db.getAllFromIndex('spans', 'by-trace', traceId)));
+      }
+      verified = await verifiedSignatures([...held, ...spans]);
+    }
+    
+    // Spans, chain entries and projections are written atomically
+    const tx = db.transaction(
+      rotated ? ['spans', 'chain', 'contracts', 'identity', 'keys'] : ['spans', 'chain', 'contracts'],
+      'readwrite'
+    );
+    const chain = tx.objectStore('chain');
+    
+    // Every check runs before the first write
+    const traces = new Map<string, Span[]>();
+    const contracts = new Map<string, Contract | undefined>();
+    for (const traceId of traceIds) {
+      traces.set(traceId, await inLedgerOrder(
+        await tx.objectStore('spans').index('by-trace').getAll(traceId),
+        spanId => chain.index('by-span').get(spanId)
+      ));
+      contracts.set(traceId, await tx.objectStore('contracts').get(traceId));
+    }
+    
+    let stale = false;
+    for (const [idx, span] of spans.entries()) {
+      const trace = traces.get(span.trace_id)!;
+      if (sealing[idx] && trace[trace.length - 1]?.this.hash !== span.this.prev_hash) {
+        stale = true;
+        break;
+      }
+      
+      const current = contracts.get(span.trace_id);
+      if (isTransitionSpan(span)) {
+        assertTransition(current, trace, span.type, verified);
+      }
+      trace.push(span);
+      if (span.type === CONTRACT_CREATED_SPAN_TYPE) {
+        assertSingleContract(trace);
+      }
+      contracts.set(span.trace_id, current
+        ? applySpan(current, span)
+        : span.type === CONTRACT_CREATED_SPAN_TYPE
+          ? projectContract(trace)
+          : undefined);
+    }
+    if (stale) {
+      await tx.done;
+      if (attempt === APPEND_ATTEMPTS || presigned) {
+        throw new Error('O trace mudou durante a gravação. Tente novamente.');
+      }
+      spans.forEach((span, idx) => {
+        if (!sealing[idx]) return;
+        span.this.hash = '';
+        delete span.confirmed_by;
+      });
+      continue;
+    }
+    
+    const last = await chain.openCursor(null, 'prev');
+    const before = last ? last.value.seq : 0;
+    let prev = last ? last.value.hash : null;
+    let seq = before;
+    for (const span of spans) {
+      const entry = { seq: ++seq, span_id: span.id, span_hash: span.this.hash, prev };
+      prev = calculateEntryHash(entry);
+      await tx.objectStore('spans').add(span);
+      await chain.add({ ...entry, hash: prev });
+    }
+    if (rotated) {
+      await tx.objectStore('identity').put(rotated.identity);
+      await tx.objectStore('keys').put(rotated.key);
+    }
+    for (const contract of contracts.values()) {
+      if (contract) await tx.objectStore('contracts').put(contract);
+    }
+    await tx.done;
+    
+    const checkpointDue = spans.some((span, idx) =>
+      (before + idx + 1) % CHECKPOINT_INTERVAL === 0 && span.type !== CHECKPOINT_SPAN_TYPE
+    );
+    if (checkpointDue) {
+      await createCheckpoint();
+    }
+    
+    return spans;
+  }
+}
+
+// Add a party signature to a stored span. Signatures are outside the hashed
+// content, so the span hash and the ledger chain are unaffected. The
+// signature must verify against the signer's key timeline to be stored.
+export async function addSpanSignature(spanId: string, signature: SpanSignature): Promise<Span> {
   const db = await getDB();
-  await db.add('spans', span);
+  const stored = await db.get('spans', spanId);
+  if (!stored) {
+    throw new Error(`Span ${spanId} não encontrado`);
+  }
+  const verified = await verifiedSignatures([{ ...stored, signatures: [signature] }]);
+  if (!verified.has(signature.signature)) {
+    throw new Error(`A assinatura de ${signature.party} não confere com as chaves de ${signature.signer_id}`);
+  }
+  
+  const tx = db.transaction(['spans', 'contracts'], 'readwrite');
+  const span = await tx.objectStore('spans').get(spanId);
+  if (!span) {
+    throw new Error(`Span ${spanId} não encontrado`);
+  }
+  
+  const signatures = span.signatures || [];
+  if (signatures.some(s => s.signer_id === signature.signer_id && s.party === signature.party)) {
+    throw new Error(`${signature.party} já assinou este span`);
+  }
+  
+  const updated = { ...span, signatures: [...signatures, signature] };
+  await tx.objectStore('spans').put(updated);
+  
+  const contract = await tx.objectStore('contracts').get(span.trace_id);
+  if (contract) {
+    await tx.objectStore('contracts').put(applySignatures(contract, updated));
+  }
+  await tx.done;
+  return updated;
+}
+
+export async function getLedgerChain(): Promise<LedgerEntry[]> {
+  const db = await getDB();
+  return await db.getAll('chain');
+}
+
+// Publish a signed checkpoint committing to the Merkle root of every span
+// appended so far. Checkpoints form their own trace per identity.
+export async function createCheckpoint(): Promise<Span | undefined> {
+  const db = await getDB();
+  const identity = await db.get('identity', 'self');
+  if (!identity) return undefined;
+  
+  const entries = await db.getAll('chain');
+  if (entries.length === 0) return undefined;
+  
+  const head = entries[entries.length - 1];
+  const traceId = `ledger-${identity.user_id}`;
+  const previous = await getTraceHead(traceId);
+  
+  const checkpoint: Span = {
+    id: generateId(),
+    trace_id: traceId,
+    parent_id: previous?.id,
+    type: CHECKPOINT_SPAN_TYPE,
+    entity: 'ledger',
+    body: {
+      action: 'checkpoint_ledger',
+      input: { size: head.seq, head: head.hash },
+      output: { merkle_root: merkleRoot(entries.map(e => e.span_hash)) }
+    },
+    started_at: new Date().toISOString(),
+    completed_at: new Date().toISOString(),
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  };
+  
+  return await appendToLedger(checkpoint);
+}
+
+export interface SpanInclusionProof {
+  span_id: string;
+  checkpoint_id: string;
+  merkle_root: string;
+  proof: InclusionProof;
+}
+
+// Prove that a span is included in a checkpoint (by default the latest one)
+export async function getInclusionProof(
+  spanId: string,
+  checkpointId?: string
+): Promise<SpanInclusionProof> {
+  const db = await getDB();
+  const entry = await db.getFromIndex('chain', 'by-span', spanId);
+  if (!entry) {
+    throw new Error(`Span ${spanId} não está na cadeia do ledger`);
+  }
+  
+  const checkpoints = await db.getAllFromIndex('spans', 'by-type', CHECKPOINT_SPAN_TYPE);
+  const checkpoint = checkpointId
+    ? checkpoints.find(c => c.id === checkpointId)
+    : checkpoints.sort((a, b) => b.body.input.size - a.body.input.size)[0];
+  
+  if (!checkpoint || checkpoint.body.input.size < entry.seq) {
+    throw new Error('Span ainda não incluído em nenhum checkpoint');
+  }
+  
+  const entries = await db.getAll('chain', IDBKeyRange.upperBound(checkpoint.body.input.size));
+  
+  return {
+    span_id: spanId,
+    checkpoint_id: checkpoint.id,
+    merkle_root: checkpoint.body.output.merkle_root,
+    proof: createInclusionProof(entries.map(e => e.span_hash), entry.seq - 1)
+  };
 }
 
 export async function queryLedger(filter: {
@@ -136,6 +574,29 @@ export async function queryLedger(filter: {
   return filtered;
 }
 
+export async function verifyLedger(): Promise<LedgerVerification> {
+  const db = await getDB();
+  const allSpans = await db.getAll('spans');
+  const entries = await db.getAll('chain');
+  
+  // Signatures are checked against every key the directory knows for the signer
+  return await verifySpans(allSpans, keyResolver(), entries);
+}
+
+// Verify the spans of one trace. The context is the whole ledger, so key
+// rotations recorded in identity traces are taken into account.
+export async function verifyTrace(traceId: string): Promise<SpanVerification[]> {
+  const db = await getDB();
+  const allSpans = await db.getAll('spans');
+  const context = await createVerificationContext(allSpans, keyResolver(), await db.getAll('chain'));
+  
+  const results: SpanVerification[] = [];
+  for (const span of allSpans.filter(s => s.trace_id === traceId)) {
+    results.push(await verifySpan(span, context));
+  }
+  return results;
+}
+
 export async function getAllContracts(): Promise<Contract[]> {
   const db = await getDB();
   return await db.getAll('contracts');
@@ -146,11 +607,6 @@ export async function getContract(id: string): Promise<Contract | undefined> {
   return await db.get('contracts', id);
 }
 
-export async function saveContract(contract: Contract): Promise<void> {
-  const db = await getDB();
-  await db.put('contracts', contract);
-}
-
 export async function getCurrentUser(): Promise<User | undefined> {
   const db = await getDB();
   const session = await db.get('session', 'current');
@@ -173,6 +629,11 @@ export async function saveCredential(credential: Credential): Promise<void> {
   await db.put('credentials', credential);
 }
 
+export async function getAllCredentials(): Promise<Credential[]> {
+  const db = await getDB();
+  return await db.getAll('credentials');
+}
+
 export async function getIdentity(): Promise<Identity | undefined> {
   const db = await getDB();
   return await db.get('identity', 'self');
@@ -183,6 +644,31 @@ export async function saveIdentity(identity: Identity): Promise<void> {
   await db.put('identity', identity);
 }
 
+export async function getSignerKey(fingerprint: string): Promise<SignerKey | undefined> {
+  const db = await getDB();
+  return await db.get('keys', fingerprint);
+}
+
+export async function getSignerKeys(signerId: string): Promise<SignerKey[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex('keys', 'by-signer', signerId);
+}
+
+export async function getAllSignerKeys(): Promise<SignerKey[]> {
+  const db = await getDB();
+  return await db.getAll('keys');
+}
+
+export async function saveSignerKey(key: SignerKey): Promise<void> {
+  const db = await getDB();
+  await db.put('keys', key);
+}
+
+export async function deleteSignerKey(fingerprint: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('keys', fingerprint);
+}
+
 export async function getCurrentSession(): Promise<Session | undefined> {
   const db = await getDB();
   return await db.get('session', 'current');
@@ -198,17 +684,254 @@ export async function clearSession(): Promise<void> {
   await db.delete('session', 'current');
 }
 
-export async function exportLedger(format: 'ndjson' | 'json' | 'csv'): Promise<Blob> {
+// Merge a verified contract bundle in a single transaction. New spans are
+// appended to the ledger chain as they are; party signatures are added to
+// spans already held. Every trace the bundle touches is replayed through the
+// lifecycle guards first, counting only signatures that verify, and the
+// whole bundle is refused (LifecycleError) if one of its transitions is
+// illegal. Returns the contract records projected again from those traces.
+export async function mergeContractBundle(data: {
+  spans: Span[];
+  signatures: Array<{ span_id: string; signatures: SpanSignature[] }>;
+  keys: SignerKey[];
+}): Promise<Contract[]> {
   const db = await getDB();
-  const allSpans = await db.getAll('spans');
+  const updates = new Map(data.signatures.map(u => [u.span_id, u.signatures]));
+  const withUpdates = (span: Span): Span => {
+    const added = updates.get(span.id);
+    return added ? { ...span, signatures: [...(span.signatures || []), ...added] } : span;
+  };
+  
+  const traceIds = new Set(data.spans.map(s => s.trace_id));
+  for (const update of data.signatures) {
+    const span = await db.get('spans', update.span_id);
+    if (span) traceIds.add(span.trace_id);
+  }
+  const signed: Span[] = [...data.spans];
+  for (const traceId of traceIds) {
+    signed.push(...(await db.getAllFromIndex('spans', 'by-trace', traceId)).map(withUpdates));
+  }
+  const verified = await verifiedSignatures(signed, data.keys);
+  
+  const tx = db.transaction(['spans', 'chain', 'keys', 'contracts'], 'readwrite');
+  const spans = tx.objectStore('spans');
+  const chain = tx.objectStore('chain');
+  
+  // The merged traces, in ledger order, before anything is written
+  const traces = new Map<string, Span[]>();
+  const updated: Span[] = [];
+  for (const traceId of traceIds) {
+    const held = (await inLedgerOrder(
+      await spans.index('by-trace').getAll(traceId),
+      spanId => chain.index('by-span').get(spanId)
+    )).map(span => {
+      const merged = withUpdates(span);
+      if (merged !== span) updated.push(merged);
+      return merged;
+    });
+    const trace = [...held, ...data.spans.filter(s => s.trace_id === traceId)];
+    assertSingleContract(trace);
+    assertTraceTransitions(trace, verified);
+    traces.set(traceId, trace);
+  }
+  
+  const last = await chain.openCursor(null, 'prev');
+  const before = last ? last.value.seq : 0;
+  let prev = last ? last.value.hash : null;
+  let seq = before;
+  
+  for (const span of data.spans) {
+    const entry = { seq: ++seq, span_id: span.id, span_hash: span.this.hash, prev };
+    const hash = calculateEntryHash(entry);
+    await spans.add(span);
+    await chain.add({ ...entry, hash });
+    prev = hash;
+  }
+  for (const span of updated) await spans.put(span);
+  for (const key of data.keys) await tx.objectStore('keys').put(key);
+  
+  const contracts: Contract[] = [];
+  for (const trace of traces.values()) {
+    const contract = projectContract(trace);
+    if (contract) {
+      await tx.objectStore('contracts').put(contract);
+      contracts.push(contract);
+    }
+  }
+  await tx.done;
+  
+  if (Math.floor(seq / CHECKPOINT_INTERVAL) > Math.floor(before / CHECKPOINT_INTERVAL)) {
+    await createCheckpoint();
+  }
+  return contracts;
+}
+
+// Fold the whole ledger into contract records again and replace the
+// contracts store with them, reporting every record that differed
+export async function rebuildProjections(): Promise<ProjectionRebuild> {
+  const db = await getDB();
+  const tx = db.transaction(['spans', 'chain', 'contracts'], 'readwrite');
+  const [allSpans, entries, stored] = await Promise.all([
+    tx.objectStore('spans').getAll(),
+    tx.objectStore('chain').getAll(),
+    tx.objectStore('contracts').getAll()
+  ]);
+  
+  // The chain is keyed by seq, so this groups each trace in ledger order
+  const byId = new Map(allSpans.map(s => [s.id, s]));
+  const traces = new Map<string, Span[]>();
+  for (const entry of entries) {
+    const span = byId.get(entry.span_id);
+    if (!span) continue;
+    const trace = traces.get(span.trace_id) || [];
+    trace.push(span);
+    traces.set(span.trace_id, trace);
+  }
+  
+  const projected = [...traces.values()].flatMap(trace => projectContract(trace) ?? []);
+  const discrepancies = compareProjections(stored, projected);
+  
+  await tx.objectStore('contracts').clear();
+  for (const contract of projected) {
+    await tx.objectStore('contracts').put(contract);
+  }
+  await tx.done;
+  
+  return { contracts: projected.length, discrepancies };
+}
+
+export async function getVaultConfig(): Promise<VaultConfig | undefined> {
+  const db = await getDB();
+  return await db.get('settings', 'vault');
+}
+
+export async function saveVaultConfig(config: VaultConfig): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', config, 'vault');
+}
+
+export async function getLLMSettings(userId: string): Promise<LLMSettings | undefined> {
+  const db = await getDB();
+  return await db.get('settings', `llm-${userId}`);
+}
+
+export async function saveLLMSettings(settings: LLMSettings): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', settings, `llm-${settings.user_id}`);
+}
+
+export async function getUsageSettings(userId: string): Promise<UsageSettings | undefined> {
+  const db = await getDB();
+  return await db.get('settings', `usage-${userId}`);
+}
+
+export async function saveUsageSettings(settings: UsageSettings): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', settings, `usage-${settings.user_id}`);
+}
+
+export async function getRedactionSettings(userId: string): Promise<RedactionSettings | undefined> {
+  const db = await getDB();
+  return await db.get('settings', `redaction-${userId}`);
+}
+
+export async function saveRedactionSettings(settings: RedactionSettings): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', settings, `redaction-${settings.user_id}`);
+}
+
+export async function getLLMFixtures(): Promise<LLMFixtureStore | undefined> {
+  const db = await getDB();
+  return await db.get('settings', 'llm-fixtures');
+}
+
+export async function saveLLMFixtures(store: LLMFixtureStore): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', store, 'llm-fixtures');
+}
+
+export interface LedgerSnapshot {
+  spans: Span[];
+  chain: LedgerEntry[];
+  keys: SignerKey[];
+  contracts: Contract[];
+}
+
+export async function readLedgerSnapshot(): Promise<LedgerSnapshot> {
+  const db = await getDB();
+  const tx = db.transaction(['spans', 'chain', 'keys', 'contracts'], 'readonly');
+  const snapshot = {
+    spans: await tx.objectStore('spans').getAll(),
+    chain: await tx.objectStore('chain').getAll(),
+    keys: await tx.objectStore('keys').getAll(),
+    contracts: await tx.objectStore('contracts').getAll()
+  };
+  await tx.done;
+  return snapshot;
+}
+
+// Write a restored identity and its ledger in a single transaction. Spans and
+// chain entries are stored as they are, so the restored chain stays intact;
+// a device that already holds an identity or ledger data is refused, since
+// chain entries keyed by seq would overwrite its own.
+export async function restoreIdentityData(data: {
+  user: User;
+  credential: Credential;
+  identity: Identity;
+  vault?: VaultConfig;
+  snapshot: LedgerSnapshot;
+}): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(
+    ['users', 'credentials', 'identity', 'settings', 'spans', 'chain', 'keys', 'contracts'],
+    'readwrite'
+  );
+  
+  const held = await Promise.all(
+    (['identity', 'spans', 'chain', 'keys', 'contracts'] as const).map(name => tx.objectStore(name).count())
+  );
+  if (held.some(count => count > 0)) {
+    await tx.done;
+    throw new Error('Este dispositivo já tem dados no ledger. Restaure o backup em um navegador sem dados.');
+  }
+  
+  await tx.objectStore('users').put(data.user);
+  await tx.objectStore('credentials').put(data.credential);
+  await tx.objectStore('identity').put(data.identity);
+  if (data.vault) await tx.objectStore('settings').put(data.vault, 'vault');
+  for (const span of data.snapshot.spans) await tx.objectStore('spans').put(span);
+  for (const entry of data.snapshot.chain) await tx.objectStore('chain').put(entry);
+  for (const key of data.snapshot.keys) await tx.objectStore('keys').put(key);
+  for (const contract of data.snapshot.contracts) await tx.objectStore('contracts').put(contract);
+  
+  await tx.done;
+}
+
+// JSON and NDJSON exports carry the chain and the key directory with the
+// spans, so the offline verifier can check links and checkpoints. In NDJSON,
+// chain entries and keys follow the spans as { ledger_entry } and
+// { signer_key } lines.
+export async function exportLedger(format: 'ndjson' | 'json' | 'csv'): Promise<Blob> {
+  const { spans: allSpans, chain, keys } = await readLedgerSnapshot();
   
   switch (format) {
     case 'ndjson':
-      const ndjson = allSpans.map(s => JSON.stringify(s)).join('\n') + '\n';
-      return new Blob([ndjson], { type: 'application/x-ndjson' });
+      const lines = [
+        ...allSpans.map(s => JSON.stringify(s)),
+        ...chain.map(entry => JSON.stringify({ ledger_entry: entry })),
+        ...keys.map(key => JSON.stringify({ signer_key: key }))
+      ];
+      return new Blob([lines.join('\n') + '\n'], { type: 'application/x-ndjson' });
     
     case 'json':
-      return new Blob([JSON.stringify(allSpans, null, 2)], { type: 'application/json' });
+      return new Blob([JSON.stringify({
+        format: LEDGER_EXPORT_FORMAT,
+        version: LEDGER_EXPORT_VERSION,
+        exported_at: new Date().toISOString(),
+        spans: allSpans,
+        chain,
+        keys
+      } satisfies LedgerExport, null, 2)], { type: 'application/json' });
     
     case 'csv':
       const headers = ['id', 'trace_id', 'type', 'entity', 'started_at', 'hash', 'signature'];
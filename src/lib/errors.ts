@@ -0,0 +1,124 @@
+// Typed failures of LLM providers. The message is what the user reads;
+// `detail` keeps the provider's own answer for the console.
+
+export type LLMErrorKind =
+  | 'invalid_key'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'context_too_long'
+  | 'offline'
+  | 'timeout'
+  | 'provider';
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    options: { provider: string; status?: number; detail?: string; retryable?: boolean; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.provider = options.provider;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class InvalidKeyError extends LLMError {
+  constructor(provider: string, status?: number, detail?: string) {
+    super('invalid_key', `${provider} recusou a chave de API. Confira se ela foi copiada inteira e se ainda está ativa.`, {
+      provider, status, detail
+    });
+    this.name = 'InvalidKeyError';
+  }
+}
+
+// Without credits no wait helps, so quota errors are not retried
+export class RateLimitError extends LLMError {
+  constructor(provider: string, options: { status?: number; detail?: string; retryAfterMs?: number; quota?: boolean } = {}) {
+    super(
+      'rate_limited',
+      options.quota
+        ? `Sua conta em ${provider} ficou sem créditos ou atingiu a cota. Verifique o faturamento no painel do provedor.`
+        : `Limite de uso de ${provider} atingido. Espere ${formatWait(options.retryAfterMs)} e tente de novo.`,
+      { provider, status: options.status, detail: options.detail, retryable: !options.quota, retryAfterMs: options.retryAfterMs }
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+export class OverloadedError extends LLMError {
+  constructor(provider: string, options: { status?: number; detail?: string; retryAfterMs?: number } = {}) {
+    super('overloaded', `${provider} está sobrecarregado no momento. Tente de novo em alguns minutos.`, {
+      provider, ...options, retryable: true
+    });
+    this.name = 'OverloadedError';
+  }
+}
+
+export class ContextTooLongError extends LLMError {
+  constructor(provider: string, status?: number, detail?: string) {
+    super('context_too_long', 'A conversa ficou longa demais para o modelo. Clique em "Refazer" e descreva o contrato de forma mais curta.', {
+      provider, status, detail
+    });
+    this.name = 'ContextTooLongError';
+  }
+}
+
+export class NetworkError extends LLMError {
+  constructor(provider: string, detail?: string) {
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    super(
+      'offline',
+      offline
+        ? 'Você está sem internet. Conecte-se e tente de novo.'
+        : `Não foi possível conectar a ${provider}. Verifique a rede ou o endereço do servidor.`,
+      { provider, detail, retryable: true }
+    );
+    this.name = 'NetworkError';
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  constructor(provider: string, seconds: number) {
+    super('timeout', `${provider} não respondeu em ${seconds} segundos. Tente de novo ou escolha um modelo mais rápido.`, {
+      provider, retryable: true
+    });
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+// Any other refusal; 5xx answers are worth another try
+export class ProviderError extends LLMError {
+  constructor(provider: string, status?: number, detail?: string) {
+    super('provider', `${provider} retornou um erro${status ? ` (${status})` : ''}. Tente de novo.`, {
+      provider, status, detail, retryable: status !== undefined && status >= 500
+    });
+    this.name = 'ProviderError';
+  }
+}
+
+function formatWait(ms?: number): string {
+  if (!ms) return 'um pouco';
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds} segundos` : `${Math.ceil(seconds / 60)} minutos`;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+// Message for the UI: typed errors explain themselves
+export function describeLLMError(err: unknown, fallback: string): string {
+  return err instanceof LLMError ? err.message : fallback;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { evaluate, evaluateCondition, parseExpression, ExpressionError, type ExprValue } from './expression';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+function run(source: string, context: Record<string, ExprValue> = {}): ExprValue {
+  return evaluate(parseExpression(source), context, { now });
+}
+
+describe('expression', () => {
+  it('follows operator precedence', () => {
+    expect(run('1 + 2 * 3')).toBe(7);
+    expect(run('(1 + 2) * 3')).toBe(9);
+    expect(run('10 - 4 - 3')).toBe(3);
+    expect(run('!false && 1 < 2 || false')).toBe(true);
+    expect(run('-2 * -3')).toBe(6);
+  });
+
+  it('reads dotted names from the context and yields null for missing ones', () => {
+    const context = { payment: { status: 'pending' } };
+    expect(run("payment.status == 'pending'", context)).toBe(true);
+    expect(run('payment.missing.deeper', context)).toBe(null);
+  });
+
+  it('compares dates with ISO strings as instants', () => {
+    expect(evaluateCondition('now() > deadline', { deadline: '2026-03-01T00:00:00Z' }, { now })).toBe(true);
+    expect(evaluateCondition('now() > date(deadline) + days(30)', { deadline: '2026-03-01T00:00:00Z' }, { now })).toBe(false);
+    expect(run("days_between('2026-03-01T00:00:00Z', now())")).toBe(9);
+  });
+
+  it('has no access to the host environment', () => {
+    expect(() => run('constructor.constructor("return 1")()')).toThrow(ExpressionError);
+    expect(run('constructor')).toBe(null);
+  });
+
+  it('rejects malformed expressions with a position', () => {
+    expect(() => parseExpression('1 +')).toThrow(ExpressionError);
+    expect(() => parseExpression("'open")).toThrow(/posição 1/);
+    expect(() => parseExpression('1 2')).toThrow(/sobrando/);
+  });
+
+  it('bounds nesting of parentheses, unary operators and binary chains', () => {
+    const nested = /aninhada demais/;
+    expect(() => parseExpression('('.repeat(80) + '1' + ')'.repeat(80))).toThrow(nested);
+    expect(() => parseExpression('!'.repeat(80) + 'true')).toThrow(nested);
+    expect(() => parseExpression('-'.repeat(80) + '1')).toThrow(nested);
+    expect(() => parseExpression(Array(80).fill('1').join(' + '))).toThrow(nested);
+    expect(() => parseExpression(Array(80).fill('a').join(' && '))).toThrow(nested);
+    expect(run(Array(20).fill('1').join(' + '))).toBe(20);
+  });
+
+  it('rounds to a bounded number of places', () => {
+    expect(run('round(1.2345, 2)')).toBe(1.23);
+    expect(run('round(1234, -2)')).toBe(1200);
+    expect(run('round(2.5)')).toBe(3);
+    expect(() => run('round(1, 400)')).toThrow(ExpressionError);
+    expect(() => run('round(1, 1.5)')).toThrow(ExpressionError);
+  });
+
+  it('refuses division by zero and operations across types', () => {
+    expect(() => run('1 / 0')).toThrow(/divisão por zero/);
+    expect(() => run("1 + 'a'")).toThrow(ExpressionError);
+  });
+});
@@ -0,0 +1,407 @@
+// Expression language of Rule.condition. Parsed and evaluated here, never
+// with eval or Function: only the grammar below exists, names resolve only
+// to the context's own properties and calls only to registered functions.
+//
+//   expression := or
+//   or         := and ( "||" and )*
+//   and        := equality ( "&&" equality )*
+//   equality   := comparison ( ( "==" | "!=" ) comparison )*
+//   comparison := additive ( ( "<" | "<=" | ">" | ">=" ) additive )*
+//   additive   := term ( ( "+" | "-" ) term )*
+//   term       := unary ( ( "*" | "/" | "%" ) unary )*
+//   unary      := ( "!" | "-" ) unary | primary
+//   primary    := number | string | "true" | "false" | "null"
+//               | name "(" ( expression ( "," expression )* )? ")"
+//               | name ( "." name )*
+//               | "(" expression ")"
+//
+// Strings use single or double quotes. Missing names are null, and any
+// ordering comparison with null is false, so a rule about an absent
+// deadline does not fire. Dates compare with ISO strings; a date plus or
+// minus a number of milliseconds (days(3), hours(12)) is a date.
+
+export type ExprValue = null | boolean | number | string | Date | ExprValue[] | { [key: string]: ExprValue };
+
+export type Expr =
+  | { kind: 'literal'; value: ExprValue }
+  | { kind: 'name'; path: string[] }
+  | { kind: 'call'; name: string; args: Expr[] }
+  | { kind: 'unary'; op: '!' | '-'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+export interface EvaluateOptions {
+  now?: Date;
+  functions?: Record<string, ExpressionFunction>;
+}
+
+export type ExpressionFunction = (args: ExprValue[], options: { now: Date }) => ExprValue;
+
+export class ExpressionError extends Error {
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (posição ${position + 1})` : message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+const MAX_LENGTH = 2000;
+const MAX_DEPTH = 64;
+const MAX_ROUND_DIGITS = 15;
+const DAY_MS = 86_400_000;
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'name'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ',', '.'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new ExpressionError('texto sem aspas de fechamento', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) {
+      throw new ExpressionError(`caractere inesperado "${ch}"`, i);
+    }
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+export function parseExpression(source: string): Expr {
+  if (source.length > MAX_LENGTH) {
+    throw new ExpressionError(`expressão maior que ${MAX_LENGTH} caracteres`);
+  }
+
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const isOp = (...ops: string[]) => {
+    const token = peek();
+    return token.type === 'op' && ops.includes(token.value);
+  };
+  const expectOp = (op: string) => {
+    if (!isOp(op)) {
+      throw new ExpressionError(`esperado "${op}"`, peek().pos);
+    }
+    index++;
+  };
+  // Every level the evaluator recurses through counts: parentheses and
+  // arguments, unary operators and each operator of a binary chain
+  const enter = () => {
+    if (++depth > MAX_DEPTH) {
+      throw new ExpressionError('expressão aninhada demais', peek().pos);
+    }
+  };
+
+  const binary = (next: () => Expr, ...ops: string[]) => (): Expr => {
+    const start = depth;
+    let left = next();
+    while (isOp(...ops)) {
+      enter();
+      const op = (tokens[index++] as { value: string }).value;
+      left = { kind: 'binary', op, left, right: next() };
+    }
+    depth = start;
+    return left;
+  };
+
+  const primary = (): Expr => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'name': {
+        if (token.value === 'true') return { kind: 'literal', value: true };
+        if (token.value === 'false') return { kind: 'literal', value: false };
+        if (token.value === 'null') return { kind: 'literal', value: null };
+        if (isOp('(')) {
+          index++;
+          const args: Expr[] = [];
+          if (!isOp(')')) {
+            args.push(expression());
+            while (isOp(',')) {
+              index++;
+              args.push(expression());
+            }
+          }
+          expectOp(')');
+          return { kind: 'call', name: token.value, args };
+        }
+        const path = [token.value];
+        while (isOp('.')) {
+          index++;
+          const part = tokens[index++];
+          if (part.type !== 'name') {
+            throw new ExpressionError('esperado um nome depois de "."', part.pos);
+          }
+          path.push(part.value);
+        }
+        return { kind: 'name', path };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = expression();
+          expectOp(')');
+          return inner;
+        }
+        throw new ExpressionError(`"${token.value}" inesperado`, token.pos);
+      case 'end':
+        throw new ExpressionError('expressão incompleta', token.pos);
+    }
+  };
+
+  const unary = (): Expr => {
+    if (isOp('!', '-')) {
+      enter();
+      const op = (tokens[index++] as { value: string }).value as '!' | '-';
+      const operand = unary();
+      depth--;
+      return { kind: 'unary', op, operand };
+    }
+    return primary();
+  };
+
+  const term = binary(unary, '*', '/', '%');
+  const additive = binary(term, '+', '-');
+  const comparison = binary(additive, '<', '<=', '>', '>=');
+  const equality = binary(comparison, '==', '!=');
+  const and = binary(equality, '&&');
+  const or = binary(and, '||');
+
+  function expression(): Expr {
+    enter();
+    const result = or();
+    depth--;
+    return result;
+  }
+
+  const result = expression();
+  if (peek().type !== 'end') {
+    throw new ExpressionError('texto sobrando depois da expressão', peek().pos);
+  }
+  return result;
+}
+
+export function isTruthy(value: ExprValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+function toDate(value: ExprValue): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function toNumber(value: ExprValue, name: string): number {
+  if (typeof value !== 'number') {
+    throw new ExpressionError(`${name} precisa de um número`);
+  }
+  return value;
+}
+
+// Dates are compared as instants, whichever side holds the ISO string
+function comparable(left: ExprValue, right: ExprValue): [number | string, number | string] | null {
+  if (left === null || right === null) return null;
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left);
+    const b = toDate(right);
+    return a && b ? [a.getTime(), b.getTime()] : null;
+  }
+  if (typeof left === 'number' && typeof right === 'number') return [left, right];
+  if (typeof left === 'string' && typeof right === 'string') return [left, right];
+  throw new ExpressionError(`não é possível comparar ${describe(left)} com ${describe(right)}`);
+}
+
+function equals(left: ExprValue, right: ExprValue): boolean {
+  if (left instanceof Date || right instanceof Date) {
+    const pair = comparable(left, right);
+    return pair !== null && pair[0] === pair[1];
+  }
+  return left === right;
+}
+
+function describe(value: ExprValue): string {
+  if (value === null) return 'null';
+  if (value instanceof Date) return 'data';
+  if (Array.isArray(value)) return 'lista';
+  return { boolean: 'booleano', number: 'número', string: 'texto', object: 'objeto' }[typeof value as string] ?? typeof value;
+}
+
+function arithmetic(op: string, left: ExprValue, right: ExprValue): ExprValue {
+  if (left === null || right === null) return null;
+
+  if (left instanceof Date) {
+    if (typeof right === 'number' && (op === '+' || op === '-')) {
+      return new Date(left.getTime() + (op === '+' ? right : -right));
+    }
+    const other = toDate(right);
+    if (op === '-' && other) return left.getTime() - other.getTime();
+  }
+  if (op === '+' && typeof left === 'string' && typeof right === 'string') {
+    return left + right;
+  }
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new ExpressionError(`"${op}" não se aplica a ${describe(left)} e ${describe(right)}`);
+  }
+
+  switch (op) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/':
+    case '%':
+      if (right === 0) throw new ExpressionError('divisão por zero');
+      return op === '/' ? left / right : left % right;
+  }
+  throw new ExpressionError(`operador desconhecido "${op}"`);
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  now: (_args, { now }) => now,
+  date: ([value]) => toDate(value),
+  days: ([n]) => toNumber(n, 'days()') * DAY_MS,
+  hours: ([n]) => toNumber(n, 'hours()') * 3_600_000,
+  // Whole days from a to b (negative when b is earlier)
+  days_between: ([a, b]) => {
+    const from = toDate(a);
+    const to = toDate(b);
+    return from && to ? Math.floor((to.getTime() - from.getTime()) / DAY_MS) : null;
+  },
+  min: (args) => args.length ? Math.min(...args.map(a => toNumber(a, 'min()'))) : null,
+  max: (args) => args.length ? Math.max(...args.map(a => toNumber(a, 'max()'))) : null,
+  abs: ([n]) => Math.abs(toNumber(n, 'abs()')),
+  // Digits beyond what a double holds would turn the factor into Infinity
+  round: ([n, digits]) => {
+    const places = digits === undefined ? 0 : toNumber(digits, 'round()');
+    if (!Number.isInteger(places) || Math.abs(places) > MAX_ROUND_DIGITS) {
+      throw new ExpressionError(`round() aceita de -${MAX_ROUND_DIGITS} a ${MAX_ROUND_DIGITS} casas`);
+    }
+    const factor = 10 ** places;
+    return Math.round(toNumber(n, 'round()') * factor) / factor;
+  },
+  len: ([value]) => typeof value === 'string' || Array.isArray(value) ? value.length : null,
+  contains: ([collection, item]) => {
+    if (typeof collection === 'string' && typeof item === 'string') return collection.includes(item);
+    return Array.isArray(collection) && collection.some(entry => equals(entry, item));
+  },
+  exists: ([value]) => value !== null && value !== undefined,
+  lower: ([value]) => typeof value === 'string' ? value.toLowerCase() : value
+};
+
+function lookup(context: Record<string, ExprValue>, path: string[]): ExprValue {
+  let value: ExprValue = context;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object' || value instanceof Date || Array.isArray(value)) return null;
+    // Own properties only: no way to reach prototypes
+    if (!Object.prototype.hasOwnProperty.call(value, key)) return null;
+    value = (value as Record<string, ExprValue>)[key] ?? null;
+  }
+  return value;
+}
+
+export function evaluate(expr: Expr, context: Record<string, ExprValue>, options: EvaluateOptions = {}): ExprValue {
+  const now = options.now ?? new Date();
+  const functions = options.functions ?? EXPRESSION_FUNCTIONS;
+
+  const run = (node: Expr): ExprValue => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'name':
+        return lookup(context, node.path);
+      case 'call': {
+        if (!Object.prototype.hasOwnProperty.call(functions, node.name)) {
+          throw new ExpressionError(`função desconhecida: ${node.name}()`);
+        }
+        return functions[node.name](node.args.map(run), { now });
+      }
+      case 'unary': {
+        const value = run(node.operand);
+        if (node.op === '!') return !isTruthy(value);
+        return value === null ? null : -toNumber(value, '"-"');
+      }
+      case 'binary': {
+        if (node.op === '&&') return isTruthy(run(node.left)) && isTruthy(run(node.right));
+        if (node.op === '||') return isTruthy(run(node.left)) || isTruthy(run(node.right));
+
+        const left = run(node.left);
+        const right = run(node.right);
+        switch (node.op) {
+          case '==': return equals(left, right);
+          case '!=': return !equals(left, right);
+          case '<':
+          case '<=':
+          case '>':
+          case '>=': {
+            const pair = comparable(left, right);
+            if (!pair) return false;
+            const [a, b] = pair;
+            return node.op === '<' ? a < b : node.op === '<=' ? a <= b : node.op === '>' ? a > b : a >= b;
+          }
+          default:
+            return arithmetic(node.op, left, right);
+        }
+      }
+    }
+  };
+
+  return run(expr);
+}
+
+// Parse and evaluate in one step, as a condition
+export function evaluateCondition(source: string, context: Record<string, ExprValue>, options: EvaluateOptions = {}): boolean {
+  return isTruthy(evaluate(parseExpression(source), context, options));
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildContractSpans, extractJsonBlocks, extractSpans, extractSpansFromValue, type SpanDraft } from './extract';
+
+const created = {
+  id: 'c1',
+  type: 'contract.created',
+  entity: 'minicontrato',
+  body: {
+    action: 'create_contract',
+    input: { title: 'Venda', parties: [{ name: 'João', role: 'vendedor' }, { name: 'Maria', role: 'compradora' }], amount: 1200 }
+  }
+};
+
+const obligation = {
+  parent_id: 'c1',
+  type: 'obligation.registered',
+  entity: 'pagamento',
+  body: {
+    action: 'register_obligation',
+    input: { description: 'Parcela', installments: { count: 2, amount: 600, first_due_date: '2026-05-05T00:00:00Z' } },
+    rules: [{ condition: 'now() > deadline', action: 'notify' }]
+  }
+};
+
+function reply(spans: object[]): string {
+  return `Segue o contrato:\n\n\`\`\`json\n${JSON.stringify(spans)}\n\`\`\``;
+}
+
+describe('extraction', () => {
+  it('reads fenced blocks, or bare JSON values without fences', () => {
+    expect(extractJsonBlocks('a ```json\n{"x":1}\n``` b')).toEqual(['{"x":1}']);
+    expect(extractJsonBlocks('antes {"a":"}"} depois [1]')).toEqual(['{"a":"}"}', '[1]']);
+  });
+
+  it('accepts the terms of a contract', () => {
+    const result = extractSpans(reply([created, obligation]));
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.contract?.title).toBe('Venda');
+    expect(result.contract?.parties.map(p => p.name)).toEqual(['João', 'Maria']);
+    expect(result.spans[1].body.rules?.[0].id).toBe('rule-1');
+  });
+
+  it.each(['contract.activated', 'payment.recorded', 'penalty.applied', 'identity.key_rotated', 'ledger.checkpoint'])(
+    'refuses a proposed %s span',
+    type => {
+      const result = extractSpans(reply([created, { type, entity: 'x', body: { action: 'x', input: {} } }]));
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(e => e.path === type)).toBe(true);
+    }
+  );
+
+  it('requires exactly one contract.created span', () => {
+    expect(extractSpansFromValue([obligation]).valid).toBe(false);
+    expect(extractSpansFromValue([created, created]).valid).toBe(false);
+  });
+
+  it('reports missing fields with their path', () => {
+    const result = extractSpansFromValue([{ ...created, body: { input: {} } }]);
+    expect(result.errors).toContainEqual({ block: 0, path: 'spans[0].body.action', message: 'obrigatório (texto)' });
+  });
+
+  it('ignores hashes and signatures the assistant made up', () => {
+    const result = extractSpansFromValue([{ ...created, confirmed_by: { signature: 'ed25519:00' } }]);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.some(w => w.path.endsWith('confirmed_by'))).toBe(true);
+    expect(result.spans[0]).not.toHaveProperty('confirmed_by');
+  });
+});
+
+describe('contract spans', () => {
+  const terms = {
+    title: 'Venda confirmada',
+    parties: [{ name: 'João', role: 'vendedor' }, { name: 'Maria', role: 'compradora' }],
+    signing_policy: { type: 'all' as const }
+  };
+
+  it('puts contract.created first, expands installments and links parents', () => {
+    const { spans } = extractSpansFromValue([obligation, created]);
+    const built = buildContractSpans(spans, 'contract-1', terms);
+
+    expect(built.map(s => s.type)).toEqual(['contract.created', 'obligation.registered', 'obligation.registered']);
+    expect(built[0].body.input.title).toBe('Venda confirmada');
+    expect(built.slice(1).every(s => s.parent_id === built[0].id)).toBe(true);
+    expect(built.every(s => s.trace_id === 'contract-1' && s.this.hash === '')).toBe(true);
+  });
+
+  it('refuses drafts of types the assistant may not propose', () => {
+    const draft: SpanDraft = { type: 'contract.activated', entity: 'x', body: { action: 'x', input: {} } };
+    expect(() => buildContractSpans([draft], 'contract-1', terms)).toThrow(/contract.activated/);
+  });
+});
@@ -0,0 +1,440 @@
+// Pull JSON✯Atomic spans out of an assistant reply and check them against
+// the Span/Rule shapes before anything reaches the ledger. The assistant only
+// proposes type, entity and body: ids, trace, hashes and signatures are
+// assigned by the app when the contract is saved.
+import type { MoneyAmount, Party, Rule, SigningPolicy, Span } from '../types';
+import { generateId, SPAN_VERSION } from './crypto';
+import { CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import { expandObligationInput, OBLIGATION_REGISTERED_SPAN_TYPE } from './obligations';
+
+export interface SpanDraft {
+  ref?: string;         // id the assistant gave the span, used by parent_ref
+  parent_ref?: string;
+  type: string;
+  entity: string;
+  body: Span['body'];
+}
+
+export interface ExtractionIssue {
+  block: number;  // index of the JSON block in the reply
+  path: string;
+  message: string;
+}
+
+export interface Deadline {
+  label: string;
+  value: string;
+  date?: string;  // ISO date when the value parses as one
+}
+
+export interface ContractDraft {
+  title: string;
+  parties: Party[];
+  amounts: MoneyAmount[];
+  deadlines: Deadline[];
+  rules: Rule[];
+}
+
+export interface SpanExtraction {
+  spans: SpanDraft[];
+  contract?: ContractDraft;
+  errors: ExtractionIssue[];
+  warnings: ExtractionIssue[];
+  valid: boolean;
+}
+
+const SPAN_TYPE_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+$/;
+
+export const RULE_DEFINED_SPAN_TYPE = 'rule.defined';
+
+// The only spans the assistant may propose: the terms of the contract. Every
+// other type (transitions, payments, penalties, identity and ledger spans) is
+// recorded by the app, and would be signed with the local key if saved.
+export const PROPOSABLE_SPAN_TYPES = [
+  CONTRACT_CREATED_SPAN_TYPE,
+  OBLIGATION_REGISTERED_SPAN_TYPE,
+  RULE_DEFINED_SPAN_TYPE
+];
+const AMOUNT_KEYS = ['amount', 'value', 'valor', 'total', 'price', 'preco', 'installment_amount'];
+const DEADLINE_KEYS = ['deadline', 'due_date', 'due', 'prazo', 'vencimento', 'end_date', 'start_date'];
+
+// Fenced ```json blocks; without fences, the outermost JSON values in the text
+export function extractJsonBlocks(text: string): string[] {
+  const fenced = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)].map(m => m[1].trim());
+  if (fenced.length > 0) return fenced.filter(block => /^[[{]/.test(block));
+
+  const blocks: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if ((char === '}' || char === ']') && depth > 0) {
+      depth--;
+      if (depth === 0) blocks.push(text.slice(start, i + 1));
+    }
+  }
+  return blocks;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function looksLikeSpan(value: unknown): boolean {
+  return isRecord(value) && typeof value.type === 'string' && isRecord(value.body);
+}
+
+// A block may hold one span, an array of spans or { spans: [...] }
+function candidatesOf(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value) && value.some(looksLikeSpan)) return value;
+  if (isRecord(value) && Array.isArray(value.spans)) return value.spans;
+  if (looksLikeSpan(value)) return [value];
+  return undefined;
+}
+
+function validateRule(
+  rule: unknown,
+  path: string,
+  block: number,
+  errors: ExtractionIssue[],
+  warnings: ExtractionIssue[],
+  fallbackId: string
+): Rule | undefined {
+  if (!isRecord(rule)) {
+    errors.push({ block, path, message: 'regra precisa ser um objeto' });
+    return undefined;
+  }
+
+  let ok = true;
+  for (const field of ['condition', 'action'] as const) {
+    if (typeof rule[field] !== 'string' || !rule[field].trim()) {
+      errors.push({ block, path: `${path}.${field}`, message: 'obrigatório (texto)' });
+      ok = false;
+    }
+  }
+  if (rule.parameters !== undefined && !isRecord(rule.parameters)) {
+    errors.push({ block, path: `${path}.parameters`, message: 'precisa ser um objeto' });
+    ok = false;
+  }
+  if (rule.description !== undefined && typeof rule.description !== 'string') {
+    errors.push({ block, path: `${path}.description`, message: 'precisa ser texto' });
+    ok = false;
+  }
+  if (!ok) return undefined;
+
+  const hasId = typeof rule.id === 'string' && rule.id.trim() !== '';
+  if (!hasId) {
+    warnings.push({ block, path: `${path}.id`, message: `regra sem id, usando ${fallbackId}` });
+  }
+
+  return {
+    id: hasId ? rule.id as string : fallbackId,
+    condition: rule.condition as string,
+    action: rule.action as string,
+    ...(rule.parameters !== undefined && { parameters: rule.parameters as Rule['parameters'] }),
+    ...(rule.description !== undefined && { description: rule.description as string })
+  };
+}
+
+function validateSpan(
+  value: unknown,
+  path: string,
+  block: number,
+  errors: ExtractionIssue[],
+  warnings: ExtractionIssue[],
+  ruleCount: () => number
+): SpanDraft | undefined {
+  if (!isRecord(value)) {
+    errors.push({ block, path, message: 'span precisa ser um objeto' });
+    return undefined;
+  }
+
+  const before = errors.length;
+  if (typeof value.type !== 'string' || !SPAN_TYPE_PATTERN.test(value.type)) {
+    errors.push({ block, path: `${path}.type`, message: 'tipo no formato "dominio.evento" (ex: contract.created)' });
+  }
+  if (typeof value.entity !== 'string' || !value.entity.trim()) {
+    errors.push({ block, path: `${path}.entity`, message: 'obrigatório (texto)' });
+  }
+
+  const body = value.body;
+  if (!isRecord(body)) {
+    errors.push({ block, path: `${path}.body`, message: 'obrigatório (objeto)' });
+    return undefined;
+  }
+  if (typeof body.action !== 'string' || !body.action.trim()) {
+    errors.push({ block, path: `${path}.body.action`, message: 'obrigatório (texto)' });
+  }
+  if (!isRecord(body.input)) {
+    errors.push({ block, path: `${path}.body.input`, message: 'obrigatório (objeto)' });
+  }
+  if (body.metadata !== undefined && !isRecord(body.metadata)) {
+    errors.push({ block, path: `${path}.body.metadata`, message: 'precisa ser um objeto' });
+  }
+
+  let rules: Rule[] | undefined;
+  if (body.rules !== undefined) {
+    if (!Array.isArray(body.rules)) {
+      errors.push({ block, path: `${path}.body.rules`, message: 'precisa ser uma lista' });
+    } else {
+      rules = body.rules
+        .map((rule, idx) => validateRule(rule, `${path}.body.rules[${idx}]`, block, errors, warnings, `rule-${ruleCount() + idx + 1}`))
+        .filter((rule): rule is Rule => rule !== undefined);
+    }
+  }
+
+  for (const field of ['hash', 'confirmed_by', 'signatures']) {
+    if (field in value || (field === 'hash' && isRecord(value.this) && value.this.hash)) {
+      warnings.push({ block, path: `${path}.${field}`, message: 'ignorado: o app calcula e assina' });
+      break;
+    }
+  }
+
+  if (errors.length > before) return undefined;
+
+  return {
+    ref: typeof value.id === 'string' ? value.id : undefined,
+    parent_ref: typeof value.parent_id === 'string' ? value.parent_id : undefined,
+    type: value.type as string,
+    entity: value.entity as string,
+    body: {
+      action: body.action as string,
+      input: body.input,
+      ...(body.output !== undefined && { output: body.output }),
+      ...(rules !== undefined && { rules }),
+      ...(body.metadata !== undefined && { metadata: body.metadata as Record<string, unknown> })
+    }
+  };
+}
+
+// Parties come as a list of { name, role }, or keyed by role:
+// { debtor: { name: "João" } } or { freelancer: "Ana" }
+export function normalizeParties(parties: unknown): Party[] {
+  if (Array.isArray(parties)) {
+    return parties
+      .filter(isRecord)
+      .filter(p => typeof p.name === 'string' && p.name.trim())
+      .map(p => ({ name: (p.name as string).trim(), role: typeof p.role === 'string' ? p.role : '' }));
+  }
+  if (isRecord(parties)) {
+    return Object.entries(parties).flatMap(([key, party]) => {
+      if (typeof party === 'string' && party.trim()) return [{ name: party.trim(), role: key }];
+      if (isRecord(party) && typeof party.name === 'string' && party.name.trim()) {
+        return [{ name: party.name.trim(), role: typeof party.role === 'string' ? party.role : key }];
+      }
+      return [];
+    });
+  }
+  return [];
+}
+
+function collectTerms(value: unknown, path: string, amounts: MoneyAmount[], deadlines: Deadline[], currency = 'BRL'): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, idx) => collectTerms(item, `${path}[${idx}]`, amounts, deadlines, currency));
+    return;
+  }
+  if (!isRecord(value)) return;
+
+  const localCurrency = typeof value.currency === 'string' ? value.currency : currency;
+  for (const [key, item] of Object.entries(value)) {
+    const label = path ? `${path}.${key}` : key;
+    if (AMOUNT_KEYS.includes(key) && typeof item === 'number') {
+      amounts.push({ label, amount: item, currency: localCurrency });
+    } else if (DEADLINE_KEYS.includes(key) && typeof item === 'string') {
+      const time = Date.parse(item);
+      deadlines.push({ label, value: item, ...(!isNaN(time) && { date: new Date(time).toISOString() }) });
+    } else {
+      collectTerms(item, label, amounts, deadlines, localCurrency);
+    }
+  }
+}
+
+// Amounts in one span's input, labelled by span type and path
+export function collectAmounts(span: Pick<Span, 'type' | 'body'>): MoneyAmount[] {
+  const amounts: MoneyAmount[] = [];
+  collectTerms(span.body.input, span.type, amounts, []);
+  return amounts;
+}
+
+// What the user confirms before saving
+export function summarizeContract(spans: SpanDraft[]): ContractDraft | undefined {
+  const created = spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+  if (!created) return undefined;
+
+  const input = created.body.input;
+  const parties = normalizeParties(input.parties);
+  const title =
+    (typeof input.title === 'string' && input.title.trim()) ||
+    (typeof created.body.metadata?.title === 'string' && created.body.metadata.title.trim()) ||
+    (parties.length > 0 ? `Contrato entre ${parties.map(p => p.name).join(' e ')}` : 'Novo Contrato');
+
+  const amounts: MoneyAmount[] = [];
+  const deadlines: Deadline[] = [];
+  for (const span of spans) {
+    collectTerms(span.body.input, span.type, amounts, deadlines);
+  }
+
+  return {
+    title,
+    parties,
+    amounts,
+    deadlines,
+    rules: spans.flatMap(s => s.body.rules || [])
+  };
+}
+
+function collectSpans(value: unknown, block: number, result: SpanExtraction): void {
+  const candidates = candidatesOf(value);
+  if (!candidates) {
+    result.warnings.push({ block, path: '', message: 'bloco JSON ignorado: não contém spans' });
+    return;
+  }
+
+  candidates.forEach((candidate, idx) => {
+    const span = validateSpan(
+      candidate,
+      `spans[${idx}]`,
+      block,
+      result.errors,
+      result.warnings,
+      () => result.spans.reduce((n, s) => n + (s.body.rules?.length || 0), 0)
+    );
+    if (span) result.spans.push(span);
+  });
+}
+
+// Cross-span checks once every block has been read
+function finishExtraction(result: SpanExtraction): SpanExtraction {
+  if (result.spans.length === 0 && result.errors.length === 0) {
+    return result;
+  }
+
+  const created = result.spans.filter(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+  if (created.length !== 1) {
+    result.errors.push({
+      block: 0,
+      path: '',
+      message: created.length === 0
+        ? 'nenhum span contract.created na resposta'
+        : `${created.length} spans contract.created; esperado um só`
+    });
+  }
+
+  for (const span of result.spans.filter(s => !PROPOSABLE_SPAN_TYPES.includes(s.type))) {
+    result.errors.push({
+      block: 0,
+      path: span.type,
+      message: `tipo não permitido na resposta (use ${PROPOSABLE_SPAN_TYPES.join(', ')}): o app registra os demais`
+    });
+  }
+
+  const refs = new Set(result.spans.map(s => s.ref).filter(Boolean));
+  for (const span of result.spans) {
+    if (span.parent_ref && !refs.has(span.parent_ref)) {
+      result.warnings.push({
+        block: 0,
+        path: span.type,
+        message: `parent_id ${span.parent_ref} não está na resposta; o span será ligado ao contrato`
+      });
+      span.parent_ref = undefined;
+    }
+  }
+
+  result.contract = summarizeContract(result.spans);
+  if (result.contract && result.contract.parties.length < 2) {
+    result.warnings.push({ block: 0, path: 'contract.created.body.input.parties', message: 'menos de duas partes identificadas' });
+  }
+
+  result.valid = result.errors.length === 0 && result.contract !== undefined;
+  return result;
+}
+
+export function extractSpans(reply: string): SpanExtraction {
+  const result: SpanExtraction = { spans: [], errors: [], warnings: [], valid: false };
+
+  extractJsonBlocks(reply).forEach((text, block) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (err) {
+      result.errors.push({ block, path: '', message: `JSON inválido: ${err instanceof Error ? err.message : err}` });
+      return;
+    }
+    collectSpans(value, block, result);
+  });
+
+  return finishExtraction(result);
+}
+
+// Same checks for spans that arrive already parsed, e.g. as tool input
+export function extractSpansFromValue(value: unknown): SpanExtraction {
+  const result: SpanExtraction = { spans: [], errors: [], warnings: [], valid: false };
+  collectSpans(value, 0, result);
+  return finishExtraction(result);
+}
+
+// An installment plan becomes one obligation per installment, each with the
+// plan's rules. Spans that point to the plan point to its first installment.
+function expandDraft(draft: SpanDraft): SpanDraft[] {
+  if (draft.type !== OBLIGATION_REGISTERED_SPAN_TYPE) return [draft];
+  return expandObligationInput(draft.body.input ?? {}).map((input, idx) => ({
+    ...draft,
+    ref: idx === 0 ? draft.ref : undefined,
+    body: { ...draft.body, input }
+  }));
+}
+
+// Turn confirmed drafts into unsealed spans of one trace, contract.created
+// first. The confirmed parties, title and policy replace what the assistant
+// proposed; appendToLedger hashes and signs each span in order.
+export function buildContractSpans(
+  drafts: SpanDraft[],
+  traceId: string,
+  terms: { title: string; parties: Party[]; signing_policy: SigningPolicy }
+): Span[] {
+  const refused = drafts.find(d => !PROPOSABLE_SPAN_TYPES.includes(d.type));
+  if (refused) {
+    throw new Error(`Spans ${refused.type} não podem ser propostos pelo assistente.`);
+  }
+
+  const ordered = [
+    ...drafts.filter(d => d.type === CONTRACT_CREATED_SPAN_TYPE),
+    ...drafts.filter(d => d.type !== CONTRACT_CREATED_SPAN_TYPE).flatMap(expandDraft)
+  ];
+  const ids = new Map<SpanDraft, string>(ordered.map(d => [d, generateId()]));
+  const byRef = new Map(ordered.filter(d => d.ref).map(d => [d.ref, ids.get(d)!]));
+  const createdId = ids.get(ordered[0])!;
+  const now = new Date().toISOString();
+
+  return ordered.map((draft, idx) => {
+    const id = ids.get(draft)!;
+    const parentId = idx === 0 ? undefined : (draft.parent_ref && byRef.get(draft.parent_ref)) || createdId;
+    const input = idx === 0
+      ? { ...draft.body.input, title: terms.title, parties: terms.parties, signing_policy: terms.signing_policy }
+      : draft.body.input;
+
+    return {
+      id,
+      trace_id: traceId,
+      ...(parentId && parentId !== id && { parent_id: parentId }),
+      type: draft.type,
+      entity: draft.entity,
+      body: { ...draft.body, input },
+      started_at: now,
+      completed_at: now,
+      this: {
+        hash: '',
+        version: SPAN_VERSION
+      }
+    };
+  });
+}
@@ -0,0 +1,196 @@
+import type { Identity, KeyProvenance, SignerKey, Span } from '../types';
+import { generateId, generateKeyPair, keyFingerprint, SPAN_VERSION } from './crypto';
+import {
+  appendToLedger,
+  getIdentity,
+  getLedgerChain,
+  getSignerKey,
+  getSignerKeys,
+  queryLedger,
+  saveSignerKey
+} from './db';
+import {
+  buildKeyTimeline,
+  identityTraceId,
+  onboardingTraceId,
+  KEY_REVOKED_SPAN_TYPE,
+  KEY_ROTATED_SPAN_TYPE,
+  type KeyCandidate
+} from './rotation';
+
+// Stronger provenance wins when the same key is learned twice
+const PROVENANCE_RANK: Record<KeyProvenance, number> = {
+  imported: 0,
+  countersigned: 1,
+  self: 2
+};
+
+// Keep only the public part of an Ed25519 JWK, rejecting anything else
+export async function normalizePublicKey(publicKey: JsonWebKey): Promise<JsonWebKey> {
+  if (publicKey.d) {
+    throw new Error('Isso é uma chave privada. Importe apenas a chave pública.');
+  }
+  if (publicKey.kty !== 'OKP' || publicKey.crv !== 'Ed25519' || typeof publicKey.x !== 'string') {
+    throw new Error('Chave pública Ed25519 inválida (esperado JWK com kty "OKP" e crv "Ed25519").');
+  }
+  
+  const normalized: JsonWebKey = { kty: 'OKP', crv: 'Ed25519', x: publicKey.x };
+  
+  try {
+    await crypto.subtle.importKey('jwk', normalized, 'Ed25519', false, ['verify']);
+  } catch {
+    throw new Error('Chave pública Ed25519 inválida.');
+  }
+  
+  return normalized;
+}
+
+// Add a signer's public key to the directory
+export async function importSignerKey(
+  signerId: string,
+  publicKey: JsonWebKey,
+  provenance: KeyProvenance = 'imported'
+): Promise<SignerKey> {
+  const normalized = await normalizePublicKey(publicKey);
+  const fingerprint = keyFingerprint(normalized);
+  
+  const existing = await getSignerKey(fingerprint);
+  if (existing) {
+    if (existing.signer_id !== signerId) {
+      throw new Error(`Esta chave já pertence a ${existing.signer_id}.`);
+    }
+    if (PROVENANCE_RANK[provenance] <= PROVENANCE_RANK[existing.provenance]) {
+      return existing;
+    }
+  }
+  
+  const key: SignerKey = {
+    fingerprint,
+    signer_id: signerId,
+    public_key: normalized,
+    provenance,
+    added_at: existing?.added_at || new Date().toISOString()
+  };
+  
+  await saveSignerKey(key);
+  return key;
+}
+
+// Replace the local signing key. The rotation span is signed by the current
+// key and introduces the new one; from then on spans are signed with the new key.
+// `exportable` creates a key that can be written to an identity backup.
+export async function rotateIdentityKey(exportable: boolean = false): Promise<Identity> {
+  const identity = await getIdentity();
+  if (!identity) {
+    throw new Error('Identidade local não encontrada.');
+  }
+  
+  const keyPair = await generateKeyPair(exportable);
+  const newPublicKey = await normalizePublicKey(
+    await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+  );
+  
+  const span: Span = {
+    id: generateId(),
+    trace_id: identityTraceId(identity.user_id),
+    type: KEY_ROTATED_SPAN_TYPE,
+    entity: 'identity',
+    body: {
+      action: 'rotate_key',
+      input: {
+        signer_id: identity.user_id,
+        previous_key: keyFingerprint(identity.public_key),
+        new_key: newPublicKey,
+        new_key_fingerprint: keyFingerprint(newPublicKey)
+      }
+    },
+    started_at: new Date().toISOString(),
+    completed_at: new Date().toISOString(),
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  };
+  
+  const rotated: Identity = {
+    ...identity,
+    public_key: newPublicKey,
+    private_key_handle: keyPair.privateKey
+  };
+  const key: SignerKey = {
+    fingerprint: keyFingerprint(newPublicKey),
+    signer_id: identity.user_id,
+    public_key: newPublicKey,
+    provenance: 'self',
+    added_at: span.started_at
+  };
+  
+  // Signed with the key being replaced; the new key is stored with the span
+  await appendToLedger(span, { identity: rotated, key });
+  
+  return rotated;
+}
+
+// Revoke a previous key of the local identity. Signatures made with it after
+// effectiveAt (default: now) are rejected by the verifier.
+export async function revokeIdentityKey(
+  fingerprint: string,
+  reason: string,
+  effectiveAt?: string
+): Promise<void> {
+  const identity = await getIdentity();
+  if (!identity) {
+    throw new Error('Identidade local não encontrada.');
+  }
+  if (keyFingerprint(identity.public_key) === fingerprint) {
+    throw new Error('Esta é a chave em uso. Rotacione a chave antes de revogá-la.');
+  }
+  
+  const key = await getSignerKey(fingerprint);
+  if (!key || key.signer_id !== identity.user_id) {
+    throw new Error('Chave não pertence a esta identidade.');
+  }
+  
+  const span: Span = {
+    id: generateId(),
+    trace_id: identityTraceId(identity.user_id),
+    type: KEY_REVOKED_SPAN_TYPE,
+    entity: 'identity',
+    body: {
+      action: 'revoke_key',
+      input: {
+        signer_id: identity.user_id,
+        fingerprint,
+        reason,
+        effective_at: effectiveAt
+      }
+    },
+    started_at: new Date().toISOString(),
+    completed_at: new Date().toISOString(),
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  };
+  
+  // Signed with the current key
+  await appendToLedger(span);
+}
+
+// Every key this identity has used, with the period in which it was valid
+export async function getIdentityKeyTimeline(): Promise<KeyCandidate[]> {
+  const identity = await getIdentity();
+  if (!identity) return [];
+  
+  const spans = [
+    ...(await queryLedger({ trace_id: onboardingTraceId(identity.user_id) })),
+    ...(await queryLedger({ trace_id: identityTraceId(identity.user_id) }))
+  ];
+  const timeline = await buildKeyTimeline(
+    spans,
+    async (signerId) => (await getSignerKeys(signerId)).map(k => k.public_key),
+    await getLedgerChain()
+  );
+  
+  return timeline.get(identity.user_id) || [];
+}
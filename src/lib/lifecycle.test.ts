@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { Span } from '../types';
+import { SPAN_VERSION } from './crypto';
+import {
+  assertTransition,
+  availableTransitions,
+  LifecycleError,
+  CONTRACT_ACTIVATED_SPAN_TYPE,
+  CONTRACT_CANCELLED_SPAN_TYPE,
+  CONTRACT_COMPLETED_SPAN_TYPE
+} from './lifecycle';
+import { projectContract } from './projection';
+import { getSigningStatus } from './quorum';
+import { OBLIGATION_REGISTERED_SPAN_TYPE, PAYMENT_RECORDED_SPAN_TYPE } from './obligations';
+
+const parties = [{ name: 'João', role: 'credor' }, { name: 'Maria', role: 'devedora' }];
+
+let counter = 0;
+
+// The guards read the signatures as given; checking them against the
+// signers' keys happens before, in the ledger
+function span(type: string, input: Record<string, unknown> = {}, fields: Partial<Span> = {}): Span {
+  return {
+    id: `span-${++counter}`,
+    trace_id: 'contract-1',
+    type,
+    entity: 'minicontrato',
+    body: { action: type, input },
+    started_at: '2026-01-01T00:00:00.000Z',
+    this: { hash: '', version: SPAN_VERSION },
+    ...fields
+  };
+}
+
+function created(signingPolicy?: object, ...signers: Array<[signerId: string, party: string]>): Span {
+  return span('contract.created', { title: 'Empréstimo', parties, signing_policy: signingPolicy }, {
+    signatures: signers.map(([signerId, party]) => ({
+      signature: `ed25519:${signerId}-${party}`,
+      domain: 'minicontratos.local',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      signer_id: signerId,
+      party
+    }))
+  });
+}
+
+const signed = () => created(undefined, ['joao', 'João'], ['maria', 'Maria']);
+
+describe('signing quorum', () => {
+  it('activates only once every party has signed', () => {
+    const partial = created(undefined, ['joao', 'João']);
+    expect(() => assertTransition(projectContract([partial]), [partial], CONTRACT_ACTIVATED_SPAN_TYPE))
+      .toThrow(/Faltam assinaturas: Maria/);
+
+    const full = signed();
+    expect(() => assertTransition(projectContract([full]), [full], CONTRACT_ACTIVATED_SPAN_TYPE)).not.toThrow();
+  });
+
+  it('counts a threshold of the parties', () => {
+    const contract = created({ type: 'threshold', threshold: 1 }, ['joao', 'João']);
+    expect(getSigningStatus(projectContract([contract])!, contract).satisfied).toBe(true);
+  });
+
+  it('counts each signer for a single party', () => {
+    const contract = created(undefined, ['joao', 'João'], ['joao', 'Maria']);
+    const status = getSigningStatus(projectContract([contract])!, contract);
+    expect(status.signed.map(s => s.party.name)).toEqual(['João']);
+    expect(status.satisfied).toBe(false);
+  });
+
+  it('counts only verified signatures when given them', () => {
+    const contract = signed();
+    const verified = new Set([contract.signatures![0].signature]);
+
+    expect(() => assertTransition(projectContract([contract]), [contract], CONTRACT_ACTIVATED_SPAN_TYPE, verified))
+      .toThrow(LifecycleError);
+  });
+});
+
+describe('transitions', () => {
+  it('refuses transitions from the wrong status', () => {
+    const contract = signed();
+    expect(() => assertTransition(projectContract([contract]), [contract], CONTRACT_COMPLETED_SPAN_TYPE))
+      .toThrow(/rascunho/);
+
+    const cancelled = [contract, span(CONTRACT_CANCELLED_SPAN_TYPE)];
+    expect(() => assertTransition(projectContract(cancelled), cancelled, CONTRACT_ACTIVATED_SPAN_TYPE))
+      .toThrow(/cancelado/);
+  });
+
+  it('completes only when no obligation is open', () => {
+    const obligation = span(
+      OBLIGATION_REGISTERED_SPAN_TYPE,
+      { amount_cents: 5000, due_date: '2030-01-01T00:00:00Z' },
+      { id: 'o1' }
+    );
+    const active = [signed(), obligation, span(CONTRACT_ACTIVATED_SPAN_TYPE)];
+    expect(availableTransitions(projectContract(active)!, active).find(o => o.transition.to === 'completed')?.blocked)
+      .toBe('1 obrigação(ões) em aberto.');
+
+    const paid = [...active, span(PAYMENT_RECORDED_SPAN_TYPE, { amount_cents: 5000 }, { parent_id: 'o1' })];
+    expect(() => assertTransition(projectContract(paid), paid, CONTRACT_COMPLETED_SPAN_TYPE)).not.toThrow();
+  });
+
+  it('refuses unknown transitions', () => {
+    expect(() => assertTransition(undefined, [], 'contract.reopened')).toThrow(/desconhecida/);
+  });
+});
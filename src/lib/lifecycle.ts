@@ -0,0 +1,130 @@
+// Contract lifecycle. The status of a contract follows from the transition
+// spans in its trace: contract.activated, contract.completed and
+// contract.cancelled. Each transition has a guard over the trace, and
+// appendToLedger runs the guards, so an illegal transition never reaches
+// the ledger.
+import type { Contract, Span } from '../types';
+import { getSigningStatus, CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import { isOpen, listObligations } from './obligations';
+
+export type ContractStatus = Contract['status'];
+
+export const CONTRACT_ACTIVATED_SPAN_TYPE = 'contract.activated';
+export const CONTRACT_COMPLETED_SPAN_TYPE = 'contract.completed';
+export const CONTRACT_CANCELLED_SPAN_TYPE = 'contract.cancelled';
+
+export const STATUS_LABELS: Record<ContractStatus, string> = {
+  draft: 'rascunho',
+  active: 'ativo',
+  completed: 'concluído',
+  cancelled: 'cancelado'
+};
+
+export interface Transition {
+  type: string;
+  action: string;
+  label: string;
+  from: ContractStatus[];
+  to: ContractStatus;
+}
+
+export const TRANSITIONS: Transition[] = [
+  { type: CONTRACT_ACTIVATED_SPAN_TYPE, action: 'activate_contract', label: 'Ativar', from: ['draft'], to: 'active' },
+  { type: CONTRACT_COMPLETED_SPAN_TYPE, action: 'complete_contract', label: 'Concluir', from: ['active'], to: 'completed' },
+  { type: CONTRACT_CANCELLED_SPAN_TYPE, action: 'cancel_contract', label: 'Cancelar', from: ['draft', 'active'], to: 'cancelled' }
+];
+
+export interface TransitionOption {
+  transition: Transition;
+  blocked?: string;   // why the guard refuses it right now
+}
+
+export class LifecycleError extends Error {
+  readonly transition: string;
+
+  constructor(transition: string, message: string) {
+    super(message);
+    this.name = 'LifecycleError';
+    this.transition = transition;
+  }
+}
+
+export function getTransition(type: string): Transition | undefined {
+  return TRANSITIONS.find(t => t.type === type);
+}
+
+export function isTransitionSpan(span: Pick<Span, 'type'>): boolean {
+  return getTransition(span.type) !== undefined;
+}
+
+// Terminal states win, so the status does not depend on the order in which
+// the spans were read or merged from a bundle
+export function contractStatus(spans: Span[]): ContractStatus {
+  const types = new Set(spans.map(s => s.type));
+  if (types.has(CONTRACT_CANCELLED_SPAN_TYPE)) return 'cancelled';
+  if (types.has(CONTRACT_COMPLETED_SPAN_TYPE)) return 'completed';
+  if (types.has(CONTRACT_ACTIVATED_SPAN_TYPE)) return 'active';
+  return 'draft';
+}
+
+function guard(
+  transition: Transition,
+  contract: Contract | undefined,
+  spans: Span[],
+  verified?: Set<string>
+): string | undefined {
+  const status = contractStatus(spans);
+  if (!transition.from.includes(status)) {
+    return `Não é possível ${transition.label.toLowerCase()} um contrato ${STATUS_LABELS[status]}.`;
+  }
+
+  const created = spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+  if (!contract || !created) {
+    return 'Contrato não encontrado.';
+  }
+
+  if (transition.to === 'active') {
+    const signing = getSigningStatus(contract, created, verified);
+    if (!signing.satisfied) {
+      return `Faltam assinaturas: ${signing.pending.map(p => p.name).join(', ')}.`;
+    }
+  }
+
+  if (transition.to === 'completed') {
+    const open = listObligations(spans).filter(isOpen);
+    if (open.length > 0) {
+      return `${open.length} obrigação(ões) em aberto.`;
+    }
+  }
+
+  return undefined;
+}
+
+// Transitions leaving the current status, with the reason a guard blocks them
+export function availableTransitions(contract: Contract, spans: Span[]): TransitionOption[] {
+  const status = contractStatus(spans);
+  return TRANSITIONS
+    .filter(t => t.from.includes(status))
+    .map(transition => {
+      const blocked = guard(transition, contract, spans);
+      return blocked ? { transition, blocked } : { transition };
+    });
+}
+
+// Throws unless the span is a legal transition for the trace it joins.
+// `verified` limits the signatures that count toward the signing quorum.
+export function assertTransition(
+  contract: Contract | undefined,
+  spans: Span[],
+  type: string,
+  verified?: Set<string>
+): void {
+  const transition = getTransition(type);
+  if (!transition) {
+    throw new LifecycleError(type, `Transição desconhecida: ${type}`);
+  }
+  const blocked = guard(transition, contract, spans, verified);
+  if (blocked) {
+    throw new LifecycleError(type, blocked);
+  }
+}
@@ -1,4 +1,18 @@
-import type { LLMConfig, Message } from '../types';
+import type { LLMConfig, Message, TokenUsage } from '../types';
+import {
+  DEFAULT_MAX_TOKENS,
+  getProvider,
+  type Completion,
+  type ProviderAdapter,
+  type ProviderMessage,
+  type RequestOptions,
+  type StreamRound
+} from './providers';
+import { ProviderError } from './errors';
+import { runTool, type LLMTool, type ToolCallRecord } from './tools';
+import { estimateTokens } from './usage';
+import { isRecording, recordingAdapter, MOCK_PROVIDER_ID } from './mock';
+import { redactorFor, type RedactionLog, type Redactor } from './redact';
 
 const SYSTEM_PROMPT = `Você é o assistente inteligente do minicontratos, um sistema revolucionário de contratos verificáveis.
 
@@ -23,133 +37,146 @@ Cada Span representa uma intenção ou evento que aconteceu com dados de entrada
 4. **Use português natural**: Evite termos técnicos sem explicar
 5. **Pense em segurança**: Alerte sobre riscos legais ou de execução
 
-Ao criar contratos, retorne JSON válido com os Spans no formato especificado.`;
+## FORMATO DOS SPANS:
+
+Quando o contrato estiver claro, inclua UM bloco \`\`\`json com um array de Spans:
+
+- Cada Span tem "type" ("contract.created", "obligation.registered" ou "rule.defined"; nenhum outro é aceito), "entity" e "body" com "action", "input" e, se houver, "rules"
+- Exatamente um Span "contract.created", cujo input tem "title" e "parties" como lista de { "name", "role" }
+- Valores como números em "amount" com "currency"; datas em ISO 8601 em "deadline" ou "due_date"
+- Cada pagamento devido é um Span "obligation.registered" com "description", "debtor" e "creditor" (nomes das partes), "amount" e "due_date"
+- Parcelamentos são UM "obligation.registered" com "installments": { "count", "amount" (de cada parcela), "first_due_date" }; o app cria uma obrigação por parcela, com vencimento mensal
+- Cada regra tem "id", "condition", "action", "parameters" e "description"
+- "condition" é uma expressão avaliada pelo app, não texto livre: nomes como deadline, amount, payment.status ('pending' ou 'confirmed'; no contrato, se não resta saldo em aberto; numa obrigação, se ela foi paga), obligation.outstanding, delivery.status ('pending', 'delivered' ou 'approved'), params.x; operadores && || ! == != < <= > >= + - * /; funções now(), date(texto ISO 8601), days(n), days_between(a, b). Ex: "now() > deadline && payment.status != 'confirmed'"
+- "action" é apply_penalty (parameters: percent, monthly_interest ou amount), release_deliverable ou notify (parameters: message)
+- Para ligar um Span a outro, use "id" e "parent_id" com identificadores curtos (ex: "c1")
+- NÃO inclua hash, assinatura, trace_id ou datas de registro: o app preenche e assina
+- NÃO inclua mudanças de estado, pagamentos, multas ou spans de identidade: o app os registra`;
+
+// While recording is on, answers of real providers are kept as fixtures
+// for the mock provider
+async function resolveAdapter(config: LLMConfig): Promise<ProviderAdapter> {
+  const adapter = getProvider(config.provider);
+  return adapter.id !== MOCK_PROVIDER_ID && await isRecording() ? recordingAdapter(adapter) : adapter;
+}
+
+// History and request as sent to a hosted provider: personal data is
+// replaced, the same way on every turn
+function requestMessages(userMessage: string, conversationHistory: Message[], redactor: Redactor): ProviderMessage[] {
+  return [
+    ...conversationHistory.map(m => ({ role: m.role, content: redactor.redact(m.content) })),
+    { role: 'user', content: redactor.redact(userMessage) }
+  ];
+}
 
 export async function callLLM(
   userMessage: string,
   config: LLMConfig,
   conversationHistory: Message[] = []
-): Promise<string> {
-  const messages = [
-    ...conversationHistory,
-    { role: 'user', content: userMessage }
-  ];
+): Promise<Completion> {
+  const redactor = redactorFor(config);
+  const messages = requestMessages(userMessage, conversationHistory, redactor);
   
-  switch (config.provider) {
-    case 'anthropic':
-      return await callAnthropic(messages, config);
-    
-    case 'openai':
-      return await callOpenAI(messages, config);
-    
-    case 'ollama':
-      return await callOllama(messages, config);
-    
-    default:
-      throw new Error(`Provider não suportado: ${config.provider}`);
-  }
+  const adapter = await resolveAdapter(config);
+  const result = await adapter.complete(messages, config, SYSTEM_PROMPT);
+  return { ...result, text: redactor.restore(result.text) };
 }
 
-async function callAnthropic(
-  messages: Array<{ role: string; content: string }>,
-  config: LLMConfig
-): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': config.apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: config.model || 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
-      messages: messages.filter(m => m.role !== 'system'),
-      system: SYSTEM_PROMPT
-    })
-  });
-  
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+// Yields the provider's text with placeholders already restored; the round
+// it returns keeps them, since it goes back to the provider with tool results
+async function* restoring(stream: AsyncGenerator<string, StreamRound>, redactor: Redactor): AsyncGenerator<string, StreamRound> {
+  const restorer = redactor.streamRestorer();
+  let next = await stream.next();
+  while (!next.done) {
+    const text = restorer.push(next.value);
+    if (text) yield text;
+    next = await stream.next();
   }
-  
-  const data = await response.json();
-  return data.content[0].text;
+  const rest = restorer.flush();
+  if (rest) yield rest;
+  return next.value;
 }
 
-async function callOpenAI(
-  messages: Array<{ role: string; content: string }>,
-  config: LLMConfig
-): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.apiKey}`
-    },
-    body: JSON.stringify({
-      model: config.model || 'gpt-4-turbo-preview',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        ...messages
-      ],
-      temperature: 0.7,
-      max_tokens: 4096
-    })
-  });
-  
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-  
-  const data = await response.json();
-  return data.choices[0].message.content;
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onRetry?: RequestOptions['onRetry'];
+  // Ignored by providers without tool support, which answer with text alone
+  tools?: LLMTool[];
+  onToolCall?: (call: ToolCallRecord) => void;
+  // Once per provider call, when the provider reports usage
+  onUsage?: (usage: TokenUsage) => void;
+  // What was hidden from the provider so far: once the request is built and
+  // again after each round of tool results
+  onRedact?: (log: RedactionLog) => void;
 }
 
-async function callOllama(
-  messages: Array<{ role: string; content: string }>,
-  config: LLMConfig
-): Promise<string> {
-  const endpoint = config.apiKey || 'http://localhost:11434';
-  
-  const response = await fetch(`${endpoint}/api/chat`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      model: config.model || 'llama2',
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        ...messages
-      ],
-      stream: false
-    })
-  });
+// Rounds of tool use before the model must answer with text. Tools stay
+// declared on the last round because the history already contains tool use;
+// a provider that still calls them there fails the request.
+const MAX_TOOL_ROUNDS = 5;
+
+const TOOLS_PROMPT = `
+
+## FERRAMENTAS:
+
+Você pode consultar os contratos e o ledger do usuário com as ferramentas disponíveis. Consulte antes de responder sobre contratos existentes; não invente dados.
+Para propor um contrato novo, chame propose_spans em vez de escrever o bloco json. O usuário confirma a proposta antes de qualquer gravação.`;
+
+// Streaming variant of callLLM: yields text as the provider produces it.
+// Aborting the signal cancels the request and the generator throws AbortError.
+// With tools, calls are run between rounds and the model continues from
+// their results; every call is reported through onToolCall.
+export async function* streamLLM(
+  userMessage: string,
+  config: LLMConfig,
+  conversationHistory: Message[] = [],
+  options: StreamOptions = {}
+): AsyncGenerator<string> {
+  const adapter = await resolveAdapter(config);
+  const tools = adapter.supportsTools ? options.tools || [] : [];
+  const redactor = redactorFor(config);
+  const messages = requestMessages(userMessage, conversationHistory, redactor);
+  options.onRedact?.(redactor.log());
   
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Ollama error: ${response.status} - ${error}`);
+  for (let round = 0; ; round++) {
+    const result: StreamRound = yield* restoring(adapter.stream(messages, config, {
+      system: tools.length > 0 ? SYSTEM_PROMPT + TOOLS_PROMPT : SYSTEM_PROMPT,
+      tools,
+      toolChoice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none',
+      signal: options.signal,
+      onRetry: options.onRetry
+    }), redactor);
+    if (result.usage) options.onUsage?.(result.usage);
+    
+    if (result.calls.length === 0 || !adapter.toolMessages) return;
+    if (round >= MAX_TOOL_ROUNDS) {
+      throw new ProviderError(adapter.label, undefined, `Ferramentas chamadas após ${MAX_TOOL_ROUNDS} rodadas`);
+    }
+    
+    // Tools see the real values; their results are redacted like the history
+    const records: ToolCallRecord[] = [];
+    for (const call of result.calls) {
+      const record = await runTool(tools, call.name, redactor.restoreValue(call.input));
+      options.onToolCall?.(record);
+      records.push({ ...record, result: redactor.redactValue(record.result) });
+    }
+    messages.push(...adapter.toolMessages(result, records));
+    options.onRedact?.(redactor.log());
+    if (result.text) yield '\n\n';
   }
-  
-  const data = await response.json();
-  return data.message.content;
 }
 
-export async function testApiKey(apiKey: string, provider: 'anthropic' | 'openai' | 'ollama'): Promise<boolean> {
-  try {
-    const config: LLMConfig = {
-      provider,
-      apiKey,
-      model: provider === 'anthropic' ? 'claude-sonnet-4-20250514' : provider === 'openai' ? 'gpt-4-turbo-preview' : 'llama2'
-    };
-    
-    await callLLM('Hello', config, []);
-    return true;
-  } catch (error) {
-    console.error('API key test failed:', error);
-    return false;
-  }
+// Upper bound for one call, used to warn before the budget is exceeded
+export function estimateRequest(userMessage: string, config: LLMConfig, conversationHistory: Message[] = []): TokenUsage {
+  const text = SYSTEM_PROMPT + conversationHistory.map(m => m.content).join('') + userMessage;
+  return {
+    input_tokens: estimateTokens(text),
+    output_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS
+  };
+}
+
+// Resolves when the provider answers; otherwise throws the typed LLMError
+// so onboarding can say what is wrong with the key or the server
+export async function testApiKey(config: LLMConfig): Promise<void> {
+  await callLLM('Hello', config, []);
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createInclusionProof, merkleRoot, verifyInclusionProof } from './merkle';
+
+const leaves = Array.from({ length: 7 }, (_, idx) => `blake3:${String(idx).repeat(64)}`);
+
+describe('merkle', () => {
+  it('proves every leaf of trees of every size', () => {
+    for (let size = 1; size <= leaves.length; size++) {
+      const tree = leaves.slice(0, size);
+      const root = merkleRoot(tree);
+      tree.forEach((_, idx) => {
+        expect(verifyInclusionProof(createInclusionProof(tree, idx), root)).toBe(true);
+      });
+    }
+  });
+
+  it('changes the root when a leaf changes or leaves are reordered', () => {
+    const root = merkleRoot(leaves);
+    expect(merkleRoot([...leaves.slice(0, 6), leaves[0]])).not.toBe(root);
+    expect(merkleRoot([leaves[1], leaves[0], ...leaves.slice(2)])).not.toBe(root);
+  });
+
+  it('rejects proofs for another leaf, another tree or a tampered path', () => {
+    const root = merkleRoot(leaves);
+    const proof = createInclusionProof(leaves, 3);
+
+    expect(verifyInclusionProof({ ...proof, leaf: leaves[4] }, root)).toBe(false);
+    expect(verifyInclusionProof(proof, merkleRoot(leaves.slice(0, 6)))).toBe(false);
+    expect(verifyInclusionProof({ ...proof, path: [...proof.path].reverse() }, root)).toBe(false);
+    expect(verifyInclusionProof({ ...proof, path: proof.path.slice(1) }, root)).toBe(false);
+    expect(verifyInclusionProof({ ...proof, leaf_index: 7 }, root)).toBe(false);
+  });
+
+  it('refuses proofs for positions outside the tree', () => {
+    expect(() => createInclusionProof(leaves, 7)).toThrow();
+    expect(() => createInclusionProof(leaves, -1)).toThrow();
+  });
+});
@@ -0,0 +1,95 @@
+// Merkle tree over span hashes (RFC 6962 / RFC 9162 construction with BLAKE3)
+import { blake3 } from '@noble/hashes/blake3.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+
+export interface InclusionProof {
+  leaf: string;          // span hash being proven
+  leaf_index: number;    // zero-based position in the tree
+  tree_size: number;
+  path: string[];        // sibling hashes, bottom-up
+}
+
+const PREFIX = 'blake3:';
+
+function leafHash(leaf: string): Uint8Array {
+  const data = new TextEncoder().encode(leaf);
+  const input = new Uint8Array(data.length + 1);
+  input[0] = 0x00;
+  input.set(data, 1);
+  return blake3(input);
+}
+
+function nodeHash(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const input = new Uint8Array(left.length + right.length + 1);
+  input[0] = 0x01;
+  input.set(left, 1);
+  input.set(right, left.length + 1);
+  return blake3(input);
+}
+
+// Largest power of two strictly smaller than n
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function treeHash(leaves: string[]): Uint8Array {
+  if (leaves.length === 0) return blake3(new Uint8Array(0));
+  if (leaves.length === 1) return leafHash(leaves[0]);
+  const k = splitPoint(leaves.length);
+  return nodeHash(treeHash(leaves.slice(0, k)), treeHash(leaves.slice(k)));
+}
+
+function auditPath(index: number, leaves: string[]): Uint8Array[] {
+  if (leaves.length <= 1) return [];
+  const k = splitPoint(leaves.length);
+  if (index < k) {
+    return [...auditPath(index, leaves.slice(0, k)), treeHash(leaves.slice(k))];
+  }
+  return [...auditPath(index - k, leaves.slice(k)), treeHash(leaves.slice(0, k))];
+}
+
+export function merkleRoot(leaves: string[]): string {
+  return PREFIX + bytesToHex(treeHash(leaves));
+}
+
+export function createInclusionProof(leaves: string[], index: number): InclusionProof {
+  if (index < 0 || index >= leaves.length) {
+    throw new Error(`Índice ${index} fora da árvore de ${leaves.length} folhas`);
+  }
+  return {
+    leaf: leaves[index],
+    leaf_index: index,
+    tree_size: leaves.length,
+    path: auditPath(index, leaves).map(h => PREFIX + bytesToHex(h))
+  };
+}
+
+export function verifyInclusionProof(proof: InclusionProof, root: string): boolean {
+  if (proof.leaf_index < 0 || proof.leaf_index >= proof.tree_size) return false;
+
+  let fn = proof.leaf_index;
+  let sn = proof.tree_size - 1;
+  let r = leafHash(proof.leaf);
+
+  for (const sibling of proof.path) {
+    if (sn === 0) return false;
+    const p = hexToBytes(sibling.replace(PREFIX, ''));
+    if (fn % 2 === 1 || fn === sn) {
+      r = nodeHash(p, r);
+      if (fn % 2 === 0) {
+        while (fn % 2 === 0 && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn >>= 1;
+    sn >>= 1;
+  }
+
+  return sn === 0 && PREFIX + bytesToHex(r) === root;
+}
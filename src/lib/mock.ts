@@ -0,0 +1,342 @@
+// Deterministic provider for development and tests: answers from recorded
+// fixtures or from scripted rules, without network. Recording wraps a real
+// adapter and stores each exchange as a fixture, keyed by the hash of the
+// text conversation, so the same conversation replays the same answer.
+import type { LLMConfig, LLMFixture, LLMFixtureStore } from '../types';
+import { calculateCanonicalHash } from './crypto';
+import { getLLMFixtures, saveLLMFixtures } from './db';
+import { LLMError } from './errors';
+import { registerProvider, type ProviderAdapter, type ProviderMessage, type StreamRound } from './providers';
+import { estimateTokens } from './usage';
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+export type MockMode = 'scripted' | 'replay';
+
+export interface MockRule {
+  name: string;
+  match: RegExp;
+  reply(message: string): string;
+}
+
+type ChatMessage = { role: string; content: string };
+
+// Plain chat messages, as llm.ts builds them from the history. Tool turns
+// carry array content or extra fields in every provider's format.
+function isChatMessage(message: ProviderMessage): boolean {
+  return typeof message.content === 'string' && Object.keys(message).length === 2;
+}
+
+// The conversation up to the user's request, and how many tool rounds
+// follow it: each round adds exactly one assistant message
+function splitConversation(messages: ProviderMessage[]): { conversation: ChatMessage[]; round: number } {
+  let end = 0;
+  while (end < messages.length && isChatMessage(messages[end])) end++;
+  return {
+    conversation: messages
+      .slice(0, end)
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content as string })),
+    round: messages.slice(end).filter(m => m.role === 'assistant').length
+  };
+}
+
+export function fixtureKey(conversation: ChatMessage[]): string {
+  return calculateCanonicalHash(conversation);
+}
+
+async function loadStore(): Promise<LLMFixtureStore> {
+  return (await getLLMFixtures()) ?? { recording: false, fixtures: {} };
+}
+
+export async function isRecording(): Promise<boolean> {
+  return (await loadStore()).recording;
+}
+
+export async function setRecording(recording: boolean): Promise<void> {
+  await saveLLMFixtures({ ...(await loadStore()), recording });
+}
+
+export async function listFixtures(): Promise<LLMFixture[]> {
+  return Object.values((await loadStore()).fixtures)
+    .sort((a, b) => b.recorded_at.localeCompare(a.recorded_at));
+}
+
+export async function clearFixtures(): Promise<void> {
+  await saveLLMFixtures({ ...(await loadStore()), fixtures: {} });
+}
+
+// Fixtures travel as a JSON array, to be kept next to the tests that use them
+export async function exportFixtures(): Promise<Blob> {
+  return new Blob([JSON.stringify(await listFixtures(), null, 2)], { type: 'application/json' });
+}
+
+export async function importFixtures(json: string): Promise<number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Arquivo de gravações não é um JSON válido.');
+  }
+  if (!Array.isArray(parsed) || parsed.some(f => typeof f?.key !== 'string' || !Array.isArray(f?.rounds))) {
+    throw new Error('Arquivo de gravações inválido: esperado uma lista de gravações.');
+  }
+
+  const store = await loadStore();
+  for (const fixture of parsed as LLMFixture[]) {
+    store.fixtures[fixture.key] = fixture;
+  }
+  await saveLLMFixtures(store);
+  return parsed.length;
+}
+
+async function saveRound(messages: ProviderMessage[], config: LLMConfig, result: StreamRound): Promise<void> {
+  const { conversation, round } = splitConversation(messages);
+  const key = fixtureKey(conversation);
+  const store = await loadStore();
+  // Round 0 starts the turn over; later rounds extend it
+  const rounds = round === 0 ? [] : store.fixtures[key]?.rounds.slice(0, round) ?? [];
+  rounds[round] = { text: result.text, calls: result.calls, ...(result.usage && { usage: result.usage }) };
+
+  store.fixtures[key] = {
+    key,
+    conversation,
+    rounds,
+    provider: config.provider,
+    model: config.model,
+    recorded_at: new Date().toISOString()
+  };
+  await saveLLMFixtures(store);
+}
+
+// Same adapter, with every successful answer stored as a fixture
+export function recordingAdapter(adapter: ProviderAdapter): ProviderAdapter {
+  return {
+    ...adapter,
+
+    async complete(messages, config, system) {
+      const result = await adapter.complete(messages, config, system);
+      await saveRound(messages, config, { ...result, calls: [] });
+      return result;
+    },
+
+    async *stream(messages, config, request) {
+      const result = yield* adapter.stream(messages, config, request);
+      await saveRound(messages, config, result);
+      return result;
+    }
+  };
+}
+
+// Scripted contracts use fixed dates so the same request always produces
+// the same spans
+function contractReply(
+  intro: string,
+  title: string,
+  parties: { name: string; role: string }[],
+  spans: object[]
+): string {
+  const created = {
+    id: 'c1',
+    type: 'contract.created',
+    entity: 'minicontrato',
+    body: { action: 'create_contract', input: { title, parties } }
+  };
+  return `${intro}\n\n\`\`\`json\n${JSON.stringify([created, ...spans], null, 2)}\n\`\`\``;
+}
+
+export const MOCK_RULES: readonly MockRule[] = [
+  {
+    name: 'greeting',
+    match: /^(hello|oi|olá)\b/i,
+    reply: () => 'Olá! Este é o provedor simulado: as respostas vêm de regras fixas, sem rede.'
+  },
+  {
+    name: 'loan',
+    match: /empr[ée]st/i,
+    reply: () => contractReply(
+      'Montei o empréstimo com parcelas mensais e multa por atraso.',
+      'Empréstimo entre amigos',
+      [{ name: 'João', role: 'credor' }, { name: 'Maria', role: 'devedora' }],
+      [
+        {
+          parent_id: 'c1',
+          type: 'obligation.registered',
+          entity: 'parcela',
+          body: {
+            action: 'register_obligation',
+            input: {
+              description: 'Parcela do empréstimo',
+              debtor: 'Maria',
+              creditor: 'João',
+              currency: 'BRL',
+              installments: { count: 12, amount: 450, first_due_date: '2027-01-05T00:00:00Z' }
+            },
+            rules: [{
+              id: 'late-fee',
+              condition: "now() > deadline && payment.status != 'confirmed'",
+              action: 'apply_penalty',
+              parameters: { percent: 10 },
+              description: 'Multa de 10% em caso de atraso'
+            }]
+          }
+        }
+      ]
+    )
+  },
+  {
+    name: 'sale',
+    match: /\bvend(a|edor)|comprador/i,
+    reply: () => contractReply(
+      'Registrei a venda com entrada e saldo na entrega.',
+      'Venda de produto',
+      [{ name: 'João', role: 'vendedor' }, { name: 'Maria', role: 'compradora' }],
+      [
+        {
+          parent_id: 'c1',
+          type: 'obligation.registered',
+          entity: 'pagamento',
+          body: {
+            action: 'register_obligation',
+            input: { description: 'Entrada', debtor: 'Maria', creditor: 'João', amount: 6000, currency: 'BRL', due_date: '2027-01-05T00:00:00Z' }
+          }
+        },
+        {
+          parent_id: 'c1',
+          type: 'obligation.registered',
+          entity: 'pagamento',
+          body: {
+            action: 'register_obligation',
+            input: { description: 'Saldo na entrega', debtor: 'Maria', creditor: 'João', amount: 6000, currency: 'BRL', due_date: '2027-02-05T00:00:00Z' }
+          }
+        }
+      ]
+    )
+  },
+  {
+    name: 'service',
+    match: /servi[çc]o|freelanc/i,
+    reply: () => contractReply(
+      'Estruturei a prestação de serviço com entrega e pagamento após aprovação.',
+      'Prestação de serviços',
+      [{ name: 'Freelancer', role: 'prestador' }, { name: 'Cliente', role: 'contratante' }],
+      [
+        {
+          parent_id: 'c1',
+          type: 'obligation.registered',
+          entity: 'entrega',
+          body: {
+            action: 'register_obligation',
+            input: { description: 'Entrega do trabalho', deadline: '2027-01-31T23:59:59Z' }
+          }
+        },
+        {
+          parent_id: 'c1',
+          type: 'obligation.registered',
+          entity: 'pagamento',
+          body: {
+            action: 'register_obligation',
+            input: { description: 'Pagamento após aprovação', debtor: 'Cliente', creditor: 'Freelancer', amount: 2000, currency: 'BRL' },
+            rules: [{
+              id: 'late-payment',
+              condition: "delivery.status == 'approved' && payment.status != 'confirmed' && now() > date(delivery.approved_at) + days(5)",
+              action: 'apply_penalty',
+              parameters: { percent: 2, monthly_interest: 1 },
+              description: 'Multa de 2% + juros de 1% ao mês'
+            }]
+          }
+        }
+      ]
+    )
+  }
+];
+
+const FALLBACK_REPLY =
+  'Provedor simulado: descreva um empréstimo, uma venda ou uma prestação de serviço para receber um contrato de exemplo.';
+
+// The rules in use: the defaults, after any added ones
+const rules: MockRule[] = [...MOCK_RULES];
+
+// Rules added later take precedence, so tests can override the defaults
+export function addMockRule(rule: MockRule): void {
+  rules.unshift(rule);
+}
+
+function scriptedRound(conversation: ChatMessage[]): StreamRound {
+  const message = conversation.filter(m => m.role === 'user').pop()?.content ?? '';
+  const rule = rules.find(r => r.match.test(message.trim()));
+  return { text: rule ? rule.reply(message) : FALLBACK_REPLY, calls: [] };
+}
+
+async function answer(messages: ProviderMessage[], config: LLMConfig): Promise<StreamRound> {
+  const { conversation, round } = splitConversation(messages);
+  let result: StreamRound;
+
+  if (config.model === 'replay') {
+    const key = fixtureKey(conversation);
+    const recorded = (await loadStore()).fixtures[key]?.rounds[round];
+    if (!recorded) {
+      throw new LLMError('provider', `Nenhuma gravação para esta conversa (${key.slice(0, 19)}…, rodada ${round + 1}).`, {
+        provider: mock.label,
+        detail: key
+      });
+    }
+    result = { ...recorded };
+  } else if (round > 0) {
+    // Scripted answers never call tools, but a replayed conversation may
+    // continue in scripted mode
+    result = { text: '', calls: [] };
+  } else {
+    result = scriptedRound(conversation);
+  }
+
+  return {
+    ...result,
+    usage: result.usage ?? {
+      input_tokens: estimateTokens(conversation.map(m => m.content).join('')),
+      output_tokens: estimateTokens(result.text)
+    }
+  };
+}
+
+const mock: ProviderAdapter = {
+  id: MOCK_PROVIDER_ID,
+  label: 'Simulado',
+  hint: 'Respostas fixas ou gravadas, sem rede. Para desenvolvimento e testes.',
+  apiKey: 'none',
+  defaultModel: 'scripted',
+  supportsTools: true,
+  local: true,
+
+  async listModels() {
+    return ['scripted', 'replay'] satisfies MockMode[];
+  },
+
+  async complete(messages, config) {
+    const { text, usage } = await answer(messages, config);
+    return { text, usage };
+  },
+
+  // Streams word by word, like a real provider
+  async *stream(messages, config, request) {
+    request.signal?.throwIfAborted();
+    const result = await answer(messages, config);
+    for (const piece of result.text.match(/\S+\s*|\s+/g) ?? []) {
+      request.signal?.throwIfAborted();
+      yield piece;
+    }
+    return result;
+  },
+
+  toolMessages(round, records) {
+    return [
+      { role: 'assistant', content: round.text, tool_calls: round.calls },
+      { role: 'tool', content: JSON.stringify(records.map(r => r.result)) }
+    ];
+  }
+};
+
+// Only in development builds, or when a build opts in with VITE_LLM_MOCK
+if (import.meta.env.DEV || import.meta.env.VITE_LLM_MOCK === 'true') {
+  registerProvider(mock);
+}
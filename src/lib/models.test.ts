@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { modelLabel } from './models';
+
+describe('modelLabel', () => {
+  it('names the provider by its label', () => {
+    expect(modelLabel({ provider: 'ollama', apiKey: '', model: 'llama3' })).toBe('Ollama · llama3');
+  });
+
+  it('keeps the raw provider id when the provider is not registered', () => {
+    expect(modelLabel({ provider: 'mock', apiKey: '', model: 'roteiro' })).toBe('mock · roteiro');
+  });
+});
@@ -0,0 +1,82 @@
+// Model and generation settings per provider. Every LLMConfig is built here,
+// so the chat, the key test and the model list all use the same choices.
+import type { Credential, LLMConfig, ModelSettings } from '../types';
+import { getLLMSettings, saveLLMSettings } from './db';
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, getProvider, listProviders } from './providers';
+import { redactionKinds } from './redact';
+
+export function defaultModelSettings(provider: string): ModelSettings {
+  return {
+    model: getProvider(provider).defaultModel,
+    max_tokens: DEFAULT_MAX_TOKENS,
+    temperature: DEFAULT_TEMPERATURE
+  };
+}
+
+export async function getModelSettings(userId: string, provider: string): Promise<ModelSettings> {
+  const settings = await getLLMSettings(userId);
+  return { ...defaultModelSettings(provider), ...settings?.providers[provider] };
+}
+
+export async function saveModelSettings(userId: string, provider: string, model: ModelSettings): Promise<void> {
+  if (!model.model.trim()) {
+    throw new Error('Informe o modelo.');
+  }
+  if (!Number.isInteger(model.max_tokens) || model.max_tokens < 1) {
+    throw new Error('O limite de tokens precisa ser um número inteiro positivo.');
+  }
+  if (!(model.temperature >= 0 && model.temperature <= 2)) {
+    throw new Error('A temperatura precisa estar entre 0 e 2.');
+  }
+
+  const settings = await getLLMSettings(userId);
+  await saveLLMSettings({
+    user_id: userId,
+    providers: { ...settings?.providers, [provider]: { ...model, model: model.model.trim() } },
+    updated_at: new Date().toISOString()
+  });
+}
+
+export function buildLLMConfig(
+  provider: string,
+  apiKey: string,
+  model: ModelSettings = defaultModelSettings(provider),
+  baseUrl?: string
+): LLMConfig {
+  return {
+    provider,
+    apiKey,
+    model: model.model,
+    maxTokens: model.max_tokens,
+    temperature: model.temperature,
+    ...(baseUrl && { baseUrl })
+  };
+}
+
+// Config for a stored credential, once its api key has been decrypted
+export async function credentialConfig(credential: Credential, apiKey: string): Promise<LLMConfig> {
+  return {
+    ...buildLLMConfig(
+      credential.provider,
+      apiKey,
+      await getModelSettings(credential.user_id, credential.provider),
+      credential.base_url
+    ),
+    redact: await redactionKinds(credential.user_id)
+  };
+}
+
+export async function listModels(config: LLMConfig): Promise<string[]> {
+  const adapter = getProvider(config.provider);
+  if (!adapter.listModels) {
+    throw new Error(`${adapter.label} não informa os modelos disponíveis.`);
+  }
+  return await adapter.listModels(config);
+}
+
+// Shown under each answer. Answers recorded with a provider this build does
+// not register (e.g. the development-only mock) keep the raw provider id.
+export function modelLabel(config: LLMConfig): string {
+  const adapter = listProviders().find(p => p.id === config.provider);
+  return `${adapter?.label ?? config.provider} · ${config.model}`;
+}
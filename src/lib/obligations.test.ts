@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { Span } from '../types';
+import { SPAN_VERSION } from './crypto';
+import {
+  addMonths,
+  contractBalance,
+  expandObligationInput,
+  listObligations,
+  OBLIGATION_REGISTERED_SPAN_TYPE,
+  OBLIGATION_WAIVED_SPAN_TYPE,
+  PAYMENT_RECORDED_SPAN_TYPE
+} from './obligations';
+
+const now = new Date('2026-03-10T00:00:00Z');
+
+let counter = 0;
+
+function span(type: string, input: Record<string, unknown>, fields: Partial<Span> = {}): Span {
+  return {
+    id: `span-${++counter}`,
+    trace_id: 'contract-1',
+    type,
+    entity: 'pagamento',
+    body: { action: type, input },
+    started_at: '2026-01-01T00:00:00.000Z',
+    this: { hash: '', version: SPAN_VERSION },
+    ...fields
+  };
+}
+
+function obligation(id: string, amount: number, dueDate: string) {
+  return span(OBLIGATION_REGISTERED_SPAN_TYPE, { description: id, amount_cents: amount, due_date: dueDate }, { id });
+}
+
+function payment(cents: number, started: string, parentId?: string) {
+  return span(PAYMENT_RECORDED_SPAN_TYPE, { amount_cents: cents }, { started_at: started, ...(parentId && { parent_id: parentId }) });
+}
+
+describe('installment plans', () => {
+  it('expands a plan into one obligation per installment', () => {
+    const inputs = expandObligationInput({
+      description: 'Parcela',
+      installments: { count: 3, amount: 450, first_due_date: '2026-01-31T00:00:00Z' }
+    });
+    expect(inputs).toHaveLength(3);
+    expect(inputs.map(i => i.amount_cents)).toEqual([45000, 45000, 45000]);
+    expect(inputs.map(i => i.due_date)).toEqual([
+      '2026-01-31T00:00:00.000Z',
+      '2026-02-28T00:00:00.000Z',
+      '2026-03-31T00:00:00.000Z'
+    ]);
+  });
+
+  it('keeps the day of the month after a shorter month', () => {
+    expect(addMonths('2026-01-31T00:00:00.000Z', 2)).toBe('2026-03-31T00:00:00.000Z');
+  });
+
+  it('leaves amounts in other currencies untracked', () => {
+    expect(expandObligationInput({ amount: 10, currency: 'USD' })).toEqual([{ amount: 10, currency: 'USD' }]);
+  });
+});
+
+describe('payment allocation', () => {
+  const first = obligation('o1', 10000, '2026-02-05T00:00:00Z');
+  const second = obligation('o2', 10000, '2026-04-05T00:00:00Z');
+
+  it('pays the earliest due obligations first', () => {
+    const [a, b] = listObligations([first, second, payment(15000, '2026-02-01T00:00:00Z')], now);
+    expect([a.paid_cents, a.status]).toEqual([10000, 'paid']);
+    expect([b.paid_cents, b.status]).toEqual([5000, 'pending']);
+  });
+
+  it('pays the obligation a payment points to, then the rest by due date', () => {
+    const [a, b] = listObligations([first, second, payment(12000, '2026-02-01T00:00:00Z', 'o2')], now);
+    expect(b.paid_cents).toBe(10000);
+    expect(a.paid_cents).toBe(2000);
+    expect(a.status).toBe('overdue');
+  });
+
+  it('keeps overpayment as credit and reports the balance', () => {
+    const balance = contractBalance([first, second, payment(25000, '2026-02-01T00:00:00Z')], now);
+    expect(balance).toEqual({
+      total_cents: 20000,
+      paid_cents: 20000,
+      outstanding_cents: 0,
+      overdue_cents: 0,
+      credit_cents: 5000
+    });
+  });
+
+  it('does not charge waived obligations', () => {
+    const waived = span(OBLIGATION_WAIVED_SPAN_TYPE, {}, { parent_id: 'o1' });
+    const balance = contractBalance([first, second, waived], now);
+    expect(balance.total_cents).toBe(10000);
+    expect(balance.outstanding_cents).toBe(10000);
+    expect(balance.overdue_cents).toBe(0);
+  });
+
+  it('counts what is still owed on overdue obligations', () => {
+    const balance = contractBalance([first, second, payment(4000, '2026-02-01T00:00:00Z')], now);
+    expect(balance.outstanding_cents).toBe(16000);
+    expect(balance.overdue_cents).toBe(6000);
+  });
+});
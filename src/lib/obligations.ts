@@ -0,0 +1,244 @@
+// Obligations of a contract, read from its trace. Each obligation.registered
+// span is one obligation, and an installment plan registers one span per
+// installment. payment.recorded spans pay obligations, fully or in part;
+// obligation.waived and obligation.settled close them without money.
+// Amounts are BRL cents.
+import type { Span } from '../types';
+
+export const OBLIGATION_REGISTERED_SPAN_TYPE = 'obligation.registered';
+export const OBLIGATION_SETTLED_SPAN_TYPE = 'obligation.settled';
+export const OBLIGATION_WAIVED_SPAN_TYPE = 'obligation.waived';
+export const PAYMENT_RECORDED_SPAN_TYPE = 'payment.recorded';
+
+export type ObligationStatus = 'pending' | 'paid' | 'overdue' | 'waived';
+
+export const OBLIGATION_STATUS_LABELS: Record<ObligationStatus, string> = {
+  pending: 'pendente',
+  paid: 'paga',
+  overdue: 'vencida',
+  waived: 'dispensada'
+};
+
+export interface Obligation {
+  id: string;                     // the obligation.registered span
+  description: string;
+  debtor: string | null;          // party names
+  creditor: string | null;
+  amount_cents: number | null;    // null for obligations that are not payments (a delivery)
+  paid_cents: number;
+  due_date: string | null;
+  installment?: { number: number; total: number };
+  status: ObligationStatus;
+}
+
+export interface Balance {
+  total_cents: number;        // every obligation not waived
+  paid_cents: number;
+  outstanding_cents: number;  // still owed on pending and overdue obligations
+  overdue_cents: number;
+  credit_cents: number;       // paid beyond what was owed
+}
+
+export interface InstallmentPlan {
+  description: string;
+  debtor?: string;
+  creditor?: string;
+  count: number;
+  amount_cents: number;       // each installment
+  first_due_date: string;
+}
+
+export const MAX_INSTALLMENTS = 360;
+
+// Cents of a value in reais; amounts in other currencies are not tracked
+function toCents(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value * 100) : null;
+}
+
+function amountCents(input: Record<string, unknown>): number | null {
+  if (typeof input.currency === 'string' && input.currency !== 'BRL') return null;
+  if (typeof input.amount_cents === 'number' && Number.isInteger(input.amount_cents) && input.amount_cents >= 0) {
+    return input.amount_cents;
+  }
+  return toCents(input.amount ?? input.value ?? input.installment_amount);
+}
+
+function stringField(input: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    if (typeof input[key] === 'string' && (input[key] as string).trim()) return (input[key] as string).trim();
+  }
+  return null;
+}
+
+function dateField(input: Record<string, unknown>, keys: string[]): string | null {
+  const value = stringField(input, keys);
+  return value && !isNaN(Date.parse(value)) ? new Date(value).toISOString() : null;
+}
+
+// Same day of the month, n months later; the 31st falls on the last day of
+// shorter months
+export function addMonths(iso: string, months: number): string {
+  const date = new Date(iso);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return date.toISOString();
+}
+
+// Inputs of the obligation.registered spans of a plan, one per installment.
+// `amount` in reais is kept next to the cents for rule conditions.
+export function installmentInputs(plan: InstallmentPlan): Record<string, unknown>[] {
+  return Array.from({ length: plan.count }, (_, idx) => ({
+    description: `${plan.description} (${idx + 1}/${plan.count})`,
+    ...(plan.debtor && { debtor: plan.debtor }),
+    ...(plan.creditor && { creditor: plan.creditor }),
+    amount: plan.amount_cents / 100,
+    amount_cents: plan.amount_cents,
+    currency: 'BRL',
+    due_date: addMonths(plan.first_due_date, idx),
+    installment: { number: idx + 1, total: plan.count }
+  }));
+}
+
+export function validatePlan(plan: InstallmentPlan): void {
+  if (!Number.isInteger(plan.count) || plan.count < 1 || plan.count > MAX_INSTALLMENTS) {
+    throw new Error(`Número de parcelas deve ser entre 1 e ${MAX_INSTALLMENTS}.`);
+  }
+  if (!Number.isInteger(plan.amount_cents) || plan.amount_cents <= 0) {
+    throw new Error('Valor da parcela deve ser maior que zero.');
+  }
+  if (isNaN(Date.parse(plan.first_due_date))) {
+    throw new Error('Data do primeiro vencimento inválida.');
+  }
+}
+
+// An installment plan proposed in one obligation.registered input, as
+// `installments: { count, amount, first_due_date }` or as a count next to
+// the installment amount and first due date
+export function readInstallmentPlan(input: Record<string, unknown>): InstallmentPlan | undefined {
+  const plan = input.installments;
+  const terms = (plan && typeof plan === 'object' ? plan : input) as Record<string, unknown>;
+  const count = typeof plan === 'number' ? plan : terms.count;
+  const cents = amountCents(terms);
+  const firstDue = dateField(terms, ['first_due_date', 'due_date', 'deadline']);
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_INSTALLMENTS || !cents || !firstDue) {
+    return undefined;
+  }
+
+  return {
+    description: stringField(input, ['description', 'title']) || 'Parcela',
+    debtor: stringField(input, ['debtor']) ?? undefined,
+    creditor: stringField(input, ['creditor']) ?? undefined,
+    count,
+    amount_cents: cents,
+    first_due_date: firstDue
+  };
+}
+
+// The inputs a proposed obligation becomes: one per installment for a plan,
+// otherwise the same input with its amount in cents
+export function expandObligationInput(input: Record<string, unknown>): Record<string, unknown>[] {
+  if (input.installments !== undefined) {
+    const plan = readInstallmentPlan(input);
+    if (plan) return installmentInputs(plan);
+  }
+  const cents = amountCents(input);
+  return [cents === null ? input : { ...input, amount_cents: cents, currency: 'BRL' }];
+}
+
+function readObligation(span: Span): Obligation {
+  const input = (span.body.input ?? {}) as Record<string, unknown>;
+  const installment = input.installment as Obligation['installment'] | undefined;
+  return {
+    id: span.id,
+    description: stringField(input, ['description', 'title']) || span.entity,
+    debtor: stringField(input, ['debtor']),
+    creditor: stringField(input, ['creditor']),
+    amount_cents: amountCents(input),
+    paid_cents: 0,
+    due_date: dateField(input, ['due_date', 'deadline']),
+    ...(installment && typeof installment.number === 'number' && { installment }),
+    status: 'pending'
+  };
+}
+
+function byDueDate(a: Obligation, b: Obligation): number {
+  if (a.due_date === b.due_date) return 0;
+  if (!a.due_date) return 1;
+  if (!b.due_date) return -1;
+  return a.due_date.localeCompare(b.due_date);
+}
+
+function byStartTime(a: Span, b: Span): number {
+  return a.started_at.localeCompare(b.started_at);
+}
+
+function settle(spans: Span[], now: Date): { obligations: Obligation[]; credit_cents: number } {
+  const obligations = spans
+    .filter(s => s.type === OBLIGATION_REGISTERED_SPAN_TYPE)
+    .sort(byStartTime)
+    .map(readObligation);
+  const byId = new Map(obligations.map(o => [o.id, o]));
+  const closedBy = (type: string) => new Set(spans.filter(s => s.type === type).map(s => s.parent_id));
+  const waived = closedBy(OBLIGATION_WAIVED_SPAN_TYPE);
+  const settled = closedBy(OBLIGATION_SETTLED_SPAN_TYPE);
+
+  const remaining = (o: Obligation) =>
+    o.amount_cents === null || waived.has(o.id) || settled.has(o.id) ? 0 : o.amount_cents - o.paid_cents;
+
+  // A payment goes to the obligation it points to; what is left, or a
+  // payment to the contract itself, pays the earliest due obligations first
+  let credit = 0;
+  const dueOrder = [...obligations].sort(byDueDate);
+  for (const payment of spans.filter(s => s.type === PAYMENT_RECORDED_SPAN_TYPE).sort(byStartTime)) {
+    let cents = amountCents((payment.body.input ?? {}) as Record<string, unknown>) ?? 0;
+    const target = payment.parent_id ? byId.get(payment.parent_id) : undefined;
+    for (const obligation of target ? [target, ...dueOrder] : dueOrder) {
+      if (cents === 0) break;
+      const applied = Math.min(cents, remaining(obligation));
+      obligation.paid_cents += applied;
+      cents -= applied;
+    }
+    credit += cents;
+  }
+
+  for (const obligation of obligations) {
+    obligation.status =
+      waived.has(obligation.id) ? 'waived' :
+      settled.has(obligation.id) || (obligation.amount_cents !== null && obligation.paid_cents >= obligation.amount_cents) ? 'paid' :
+      obligation.due_date && new Date(obligation.due_date) < now ? 'overdue' :
+      'pending';
+  }
+
+  return { obligations, credit_cents: credit };
+}
+
+export function listObligations(spans: Span[], now: Date = new Date()): Obligation[] {
+  return settle(spans, now).obligations;
+}
+
+export function isOpen(obligation: Obligation): boolean {
+  return obligation.status === 'pending' || obligation.status === 'overdue';
+}
+
+export function outstandingCents(obligation: Obligation): number {
+  return isOpen(obligation) && obligation.amount_cents !== null ? obligation.amount_cents - obligation.paid_cents : 0;
+}
+
+export function contractBalance(spans: Span[], now: Date = new Date()): Balance {
+  const { obligations, credit_cents } = settle(spans, now);
+  const billed = obligations.filter(o => o.status !== 'waived' && o.amount_cents !== null);
+  return {
+    total_cents: billed.reduce((sum, o) => sum + o.amount_cents!, 0),
+    paid_cents: billed.reduce((sum, o) => sum + o.paid_cents, 0),
+    outstanding_cents: obligations.reduce((sum, o) => sum + outstandingCents(o), 0),
+    overdue_cents: obligations.filter(o => o.status === 'overdue').reduce((sum, o) => sum + outstandingCents(o), 0),
+    credit_cents
+  };
+}
+
+export function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+}
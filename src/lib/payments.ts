@@ -0,0 +1,139 @@
+// Record obligations and payments in a contract's trace. The spans are read
+// back by obligations.ts; the ledger projects them into the contract record.
+import type { Span } from '../types';
+import { appendToLedger, getContract, queryLedger } from './db';
+import { generateId, SPAN_VERSION } from './crypto';
+import { CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import { contractStatus, STATUS_LABELS, type ContractStatus } from './lifecycle';
+import {
+  installmentInputs,
+  isOpen,
+  listObligations,
+  validatePlan,
+  OBLIGATION_REGISTERED_SPAN_TYPE,
+  OBLIGATION_SETTLED_SPAN_TYPE,
+  OBLIGATION_WAIVED_SPAN_TYPE,
+  PAYMENT_RECORDED_SPAN_TYPE,
+  type InstallmentPlan,
+  type Obligation
+} from './obligations';
+
+export interface PaymentInput {
+  obligation_id?: string;     // without it, the earliest due obligations are paid first
+  amount_cents: number;
+  paid_at?: string;
+  method?: string;
+}
+
+async function readTrace(contractId: string, allowed: ContractStatus[]): Promise<Span[]> {
+  const [contract, spans] = await Promise.all([
+    getContract(contractId),
+    queryLedger({ trace_id: contractId })
+  ]);
+  if (!contract) {
+    throw new Error('Contrato não encontrado.');
+  }
+  const status = contractStatus(spans);
+  if (!allowed.includes(status)) {
+    throw new Error(`Contrato ${STATUS_LABELS[status]}: a operação não é permitida.`);
+  }
+  return spans;
+}
+
+function openObligation(spans: Span[], obligationId: string): Obligation {
+  const obligation = listObligations(spans).find(o => o.id === obligationId);
+  if (!obligation) {
+    throw new Error('Obrigação não encontrada neste contrato.');
+  }
+  if (!isOpen(obligation)) {
+    throw new Error(`A obrigação "${obligation.description}" já está encerrada.`);
+  }
+  return obligation;
+}
+
+async function append(
+  contractId: string,
+  parentId: string | undefined,
+  type: string,
+  entity: string,
+  action: string,
+  input: Record<string, unknown>
+): Promise<Span> {
+  const now = new Date().toISOString();
+  return await appendToLedger({
+    id: generateId(),
+    trace_id: contractId,
+    parent_id: parentId,
+    type,
+    entity,
+    body: { action, input },
+    started_at: now,
+    completed_at: now,
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  });
+}
+
+export async function getContractObligations(contractId: string, now: Date = new Date()): Promise<Obligation[]> {
+  return listObligations(await queryLedger({ trace_id: contractId }), now);
+}
+
+// One obligation.registered span per installment
+export async function registerInstallments(contractId: string, plan: InstallmentPlan): Promise<Span[]> {
+  validatePlan(plan);
+  const spans = await readTrace(contractId, ['draft', 'active']);
+  const created = spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+
+  const registered: Span[] = [];
+  for (const input of installmentInputs(plan)) {
+    registered.push(await append(contractId, created?.id, OBLIGATION_REGISTERED_SPAN_TYPE, 'parcela', 'register_obligation', input));
+  }
+  return registered;
+}
+
+export async function recordPayment(contractId: string, payment: PaymentInput): Promise<Span> {
+  if (!Number.isInteger(payment.amount_cents) || payment.amount_cents <= 0) {
+    throw new Error('Valor do pagamento deve ser maior que zero.');
+  }
+  const spans = await readTrace(contractId, ['active']);
+  if (payment.obligation_id) {
+    openObligation(spans, payment.obligation_id);
+  }
+
+  return await append(
+    contractId,
+    payment.obligation_id ?? spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE)?.id,
+    PAYMENT_RECORDED_SPAN_TYPE,
+    'pagamento',
+    'record_payment',
+    {
+      ...(payment.obligation_id && { obligation_id: payment.obligation_id }),
+      amount: payment.amount_cents / 100,
+      amount_cents: payment.amount_cents,
+      currency: 'BRL',
+      paid_at: payment.paid_at ?? new Date().toISOString(),
+      ...(payment.method && { method: payment.method })
+    }
+  );
+}
+
+// The creditor gives up what is still owed
+export async function waiveObligation(contractId: string, obligationId: string, reason?: string): Promise<Span> {
+  const spans = await readTrace(contractId, ['draft', 'active']);
+  openObligation(spans, obligationId);
+  return await append(contractId, obligationId, OBLIGATION_WAIVED_SPAN_TYPE, 'obrigacao', 'waive_obligation', {
+    obligation_id: obligationId,
+    ...(reason && { reason })
+  });
+}
+
+// For obligations that are not payments, such as a delivery
+export async function settleObligation(contractId: string, obligationId: string): Promise<Span> {
+  const spans = await readTrace(contractId, ['active']);
+  openObligation(spans, obligationId);
+  return await append(contractId, obligationId, OBLIGATION_SETTLED_SPAN_TYPE, 'obrigacao', 'settle_obligation', {
+    obligation_id: obligationId
+  });
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Span } from '../types';
+import { SPAN_VERSION } from './crypto';
+import { applySpan, compareProjections, projectContract } from './projection';
+import { CONTRACT_ACTIVATED_SPAN_TYPE, CONTRACT_CANCELLED_SPAN_TYPE } from './lifecycle';
+
+function span(id: string, type: string, at: string, input: Record<string, unknown> = {}, entity = 'minicontrato'): Span {
+  return {
+    id,
+    trace_id: 'contract-1',
+    type,
+    entity,
+    body: { action: type, input },
+    started_at: at,
+    this: { hash: '', version: SPAN_VERSION }
+  };
+}
+
+function trace(): Span[] {
+  return [
+    span('c1', 'contract.created', '2026-01-01T00:00:00.000Z', {
+      title: 'Venda',
+      parties: [{ name: 'João', role: 'vendedor' }, { name: 'Maria', role: 'compradora' }],
+      amount: 1200
+    }),
+    span('o1', 'obligation.registered', '2026-01-02T00:00:00.000Z', { amount: 600, currency: 'BRL' }),
+    span('r1', 'llm.responded', '2026-01-03T00:00:00.000Z', { amount: 99 }, 'conversation')
+  ];
+}
+
+describe('projection', () => {
+  it('folds a trace into the contract record', () => {
+    const contract = projectContract(trace())!;
+    expect(contract).toMatchObject({
+      id: 'contract-1',
+      title: 'Venda',
+      status: 'draft',
+      signing_policy: { type: 'all' },
+      created_at: '2026-01-01T00:00:00.000Z',
+      last_updated: '2026-01-03T00:00:00.000Z'
+    });
+    expect(contract.amounts).toEqual([
+      { label: 'contract.created.amount', amount: 1200, currency: 'BRL' },
+      { label: 'obligation.registered.amount', amount: 600, currency: 'BRL' }
+    ]);
+    expect(contract.spans).toHaveLength(3);
+  });
+
+  it('has no record for traces without contract.created', () => {
+    expect(projectContract(trace().slice(1))).toBeUndefined();
+  });
+
+  it('applies each span once', () => {
+    const spans = trace();
+    const contract = projectContract(spans)!;
+    expect(applySpan(contract, spans[1])).toBe(contract);
+  });
+
+  it('never moves a contract back from a terminal status', () => {
+    const spans = [
+      ...trace(),
+      span('x1', CONTRACT_CANCELLED_SPAN_TYPE, '2026-01-04T00:00:00.000Z'),
+      span('x2', CONTRACT_ACTIVATED_SPAN_TYPE, '2026-01-05T00:00:00.000Z')
+    ];
+    expect(projectContract(spans)!.status).toBe('cancelled');
+  });
+
+  it('binds parties to the signers of contract.created', () => {
+    const spans = trace();
+    spans[0].signatures = [{
+      signature: 'ed25519:00',
+      domain: 'minicontratos.local',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      signer_id: 'joao',
+      party: 'João'
+    }];
+    expect(projectContract(spans)!.parties).toEqual([
+      { name: 'João', role: 'vendedor', id: 'joao' },
+      { name: 'Maria', role: 'compradora' }
+    ]);
+  });
+
+  it('reports records that drifted from the ledger', () => {
+    const projected = projectContract(trace())!;
+    const stored = [{ ...projected, title: 'Editado à mão' }, { ...projected, id: 'contract-2' }];
+    expect(compareProjections(stored, [projected])).toEqual([
+      { contract_id: 'contract-1', title: 'Venda', kind: 'changed', fields: ['title'] },
+      { contract_id: 'contract-2', title: 'Venda', kind: 'orphaned', fields: [] }
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+// Contract records are a projection of the ledger: each one is folded from
+// the spans of its trace, in ledger order. The ledger applies every new span
+// to the stored record as it is appended, and a rebuild folds the whole
+// ledger again to find records that drifted from it.
+import type { Contract, Party, Span } from '../types';
+import { collectAmounts, summarizeContract } from './extract';
+import { getTransition, type ContractStatus } from './lifecycle';
+import { getSigningStatus, CONTRACT_CREATED_SPAN_TYPE, DEFAULT_SIGNING_POLICY } from './quorum';
+
+export interface ProjectionDiscrepancy {
+  contract_id: string;
+  title: string;
+  kind: 'missing' | 'orphaned' | 'changed';   // not stored / not in the ledger / stored differently
+  fields: (keyof Contract)[];
+}
+
+export interface ProjectionRebuild {
+  contracts: number;
+  discrepancies: ProjectionDiscrepancy[];
+}
+
+// Terminal states outrank the others, as in contractStatus, so spans merged
+// from a counterparty cannot move a contract back
+const STATUS_RANK: Record<ContractStatus, number> = { draft: 0, active: 1, completed: 2, cancelled: 3 };
+
+// Parties bound to the signers of the contract.created span
+function bindParties(contract: Contract, created: Span): Party[] {
+  const { signed } = getSigningStatus(contract, created);
+  return contract.parties.map(party => {
+    const signature = signed.find(s => s.party.name === party.name)?.signature;
+    return signature ? { ...party, id: signature.signer_id } : party;
+  });
+}
+
+function later(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+// Record for a trace from its contract.created span, before any span is applied
+function createProjection(created: Span): Contract {
+  const { title, parties } = summarizeContract([created])!;
+  return {
+    id: created.trace_id,
+    title,
+    parties,
+    status: 'draft',
+    signing_policy: created.body.input?.signing_policy || DEFAULT_SIGNING_POLICY,
+    amounts: [],
+    created_at: created.started_at,
+    spans: [],
+    last_updated: created.started_at
+  };
+}
+
+// Fold one span into the record. Applying a span twice changes nothing.
+export function applySpan(contract: Contract, span: Span): Contract {
+  if (contract.spans.includes(span.id)) return contract;
+
+  const transition = getTransition(span.type);
+  const status = transition && STATUS_RANK[transition.to] > STATUS_RANK[contract.status]
+    ? transition.to
+    : contract.status;
+
+  return {
+    ...contract,
+    status,
+    // The conversation is part of the trace, but its text is not a term
+    amounts: span.entity === 'conversation'
+      ? contract.amounts
+      : [...(contract.amounts || []), ...collectAmounts(span)],
+    spans: [...contract.spans, span.id],
+    last_updated: later(contract.last_updated, span.completed_at || span.started_at)
+  };
+}
+
+// Signatures live outside the hashed span, so they reach the record apart
+// from the append: a signature on contract.created binds a party
+export function applySignatures(contract: Contract, span: Span): Contract {
+  if (span.type !== CONTRACT_CREATED_SPAN_TYPE) return contract;
+
+  const timestamps = (span.signatures || []).map(s => s.timestamp);
+  return {
+    ...contract,
+    parties: bindParties(contract, span),
+    last_updated: timestamps.reduce(later, contract.last_updated)
+  };
+}
+
+// The whole record from the spans of one trace, in ledger order. Traces
+// without a contract.created span (drafts, identities, checkpoints) have none.
+export function projectContract(spans: Span[]): Contract | undefined {
+  const created = spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+  if (!created) return undefined;
+  return applySignatures(spans.reduce(applySpan, createProjection(created)), created);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Fields of a stored record that differ from its projection. Span ids are
+// compared as a set; records written by hand did not keep ledger order.
+export function diffContract(stored: Contract, projected: Contract): (keyof Contract)[] {
+  const fields: (keyof Contract)[] = ['title', 'parties', 'status', 'signing_policy', 'amounts', 'created_at', 'last_updated'];
+  const changed = fields.filter(field => !sameValue(stored[field], projected[field]));
+
+  const storedSpans = new Set(stored.spans);
+  if (storedSpans.size !== projected.spans.length || projected.spans.some(id => !storedSpans.has(id))) {
+    changed.push('spans');
+  }
+  return changed;
+}
+
+export function compareProjections(stored: Contract[], projected: Contract[]): ProjectionDiscrepancy[] {
+  const discrepancies: ProjectionDiscrepancy[] = [];
+  const byId = new Map(stored.map(c => [c.id, c]));
+
+  for (const contract of projected) {
+    const existing = byId.get(contract.id);
+    if (!existing) {
+      discrepancies.push({ contract_id: contract.id, title: contract.title, kind: 'missing', fields: [] });
+      continue;
+    }
+    const fields = diffContract(existing, contract);
+    if (fields.length > 0) {
+      discrepancies.push({ contract_id: contract.id, title: contract.title, kind: 'changed', fields });
+    }
+  }
+
+  const projectedIds = new Set(projected.map(c => c.id));
+  for (const contract of stored.filter(c => !projectedIds.has(c.id))) {
+    discrepancies.push({ contract_id: contract.id, title: contract.title, kind: 'orphaned', fields: [] });
+  }
+
+  return discrepancies;
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { LLMConfig } from '../types';
+import { getProvider, type ProviderRequest } from './providers';
+import { ProviderError } from './errors';
+
+const request: ProviderRequest = { system: '', tools: [], toolChoice: 'none' };
+
+function respondWith(...responses: Response[]) {
+  const fetch = vi.fn();
+  for (const response of responses) fetch.mockResolvedValueOnce(response);
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+async function drain(provider: string, config: LLMConfig): Promise<string> {
+  let text = '';
+  for await (const piece of getProvider(provider).stream([{ role: 'user', content: 'oi' }], config, request)) {
+    text += piece;
+  }
+  return text;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('streamed answers', () => {
+  const ollama: LLMConfig = { provider: 'ollama', apiKey: '', model: 'llama3' };
+  const compatible: LLMConfig = { provider: 'openai-compatible', apiKey: '', model: 'm' };
+
+  it('reads NDJSON chunks', async () => {
+    respondWith(new Response('{"message":{"content":"Olá"}}\n{"message":{"content":"!"},"done":true}\n'));
+    expect(await drain('ollama', ollama)).toBe('Olá!');
+  });
+
+  it('reads SSE chunks from an OpenAI-compatible server', async () => {
+    const fetch = respondWith(new Response(
+      'data: {"choices":[{"delta":{"content":"Bom"}}]}\n\ndata: {"choices":[{"delta":{"content":" dia"}}]}\n\ndata: [DONE]\n\n'
+    ));
+    expect(await drain('openai-compatible', compatible)).toBe('Bom dia');
+    expect(String(fetch.mock.calls[0][0])).toBe('http://localhost:8080/v1/chat/completions');
+  });
+
+  it('fails a malformed NDJSON chunk with a provider error', async () => {
+    respondWith(new Response('{"message":{"content":"Olá"}}\n{"message":\n'));
+    await expect(drain('ollama', ollama)).rejects.toBeInstanceOf(ProviderError);
+  });
+
+  it('fails a malformed SSE chunk with a provider error', async () => {
+    respondWith(new Response('data: {"choices":[{"delta":{"content":"a"}}]}\n\ndata: {oops\n\n'));
+    await expect(drain('openai-compatible', compatible)).rejects.toBeInstanceOf(ProviderError);
+  });
+});
+
+describe('retries', () => {
+  it('retries overloaded answers without writing to the console', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    const onRetry = vi.fn();
+    const fetch = respondWith(
+      new Response('overloaded', { status: 503, headers: { 'retry-after-ms': '1' } }),
+      new Response('{"message":{"content":"ok"},"done":true}\n')
+    );
+
+    const stream = getProvider('ollama').stream([], { provider: 'ollama', apiKey: '', model: 'm' }, { ...request, onRetry });
+    let text = '';
+    for await (const piece of stream) text += piece;
+
+    expect(text).toBe('ok');
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledOnce();
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
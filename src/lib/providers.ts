@@ -0,0 +1,703 @@
+// LLM provider adapters. Each adapter knows its endpoint, request format and
+// streaming format; llm.ts only talks to the registry. New providers are
+// added with registerProvider, without touching the chat code.
+import type { LLMConfig, TokenUsage } from '../types';
+import type { LLMTool, ToolCallRecord } from './tools';
+import {
+  ContextTooLongError,
+  InvalidKeyError,
+  LLMError,
+  LLMTimeoutError,
+  NetworkError,
+  OverloadedError,
+  ProviderError,
+  RateLimitError,
+  isAbortError
+} from './errors';
+
+// Messages in the provider's own shape, including tool use and results
+export type ProviderMessage = { role: string; content: unknown; [key: string]: unknown };
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+// Usage is missing when the provider does not report it
+export interface Completion {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface StreamRound extends Completion {
+  calls: ToolCall[];
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+export interface ProviderRequest extends RequestOptions {
+  system: string;
+  tools: LLMTool[];
+  toolChoice: 'auto' | 'none';
+}
+
+export interface ProviderAdapter {
+  id: string;
+  label: string;
+  hint: string;                          // one line shown when choosing the provider
+  apiKey: 'required' | 'optional' | 'none';
+  keyPlaceholder?: string;
+  baseUrl?: { default: string; editable: boolean };
+  signupUrl?: { href: string; label: string };
+  defaultModel: string;
+  supportsTools: boolean;
+  local?: boolean;                       // can run on the user's machine or network (see isLocalEndpoint)
+  listModels?(config: LLMConfig): Promise<string[]>;
+  matchesKey?(apiKey: string): boolean;  // recognise keys pasted without choosing
+  complete(messages: ProviderMessage[], config: LLMConfig, system: string): Promise<Completion>;
+  stream(messages: ProviderMessage[], config: LLMConfig, request: ProviderRequest): AsyncGenerator<string, StreamRound>;
+  // The assistant turn that asked for tools, followed by their results
+  toolMessages?(round: StreamRound, records: ToolCallRecord[]): ProviderMessage[];
+}
+
+// Used when the user has not chosen generation settings
+export const DEFAULT_MAX_TOKENS = 4096;
+export const DEFAULT_TEMPERATURE = 0.7;
+
+const REQUEST_TIMEOUT_MS = 60_000;        // until response headers, streaming
+const COMPLETE_TIMEOUT_MS = 120_000;      // until response headers, whole answer
+const STREAM_IDLE_TIMEOUT_MS = 60_000;    // between streamed chunks
+const MAX_RETRIES = 3;
+const MAX_RETRY_WAIT_MS = 60_000;         // longer retry-after is reported instead
+const CONTEXT_PATTERN = /context[_ ]length|context window|too many tokens|prompt is too long|maximum context/i;
+
+const registry = new Map<string, ProviderAdapter>();
+
+export function registerProvider(adapter: ProviderAdapter): void {
+  registry.set(adapter.id, adapter);
+}
+
+export function getProvider(id: string): ProviderAdapter {
+  const adapter = registry.get(id);
+  if (!adapter) {
+    throw new Error(`Provider não suportado: ${id}`);
+  }
+  return adapter;
+}
+
+export function listProviders(): ProviderAdapter[] {
+  return [...registry.values()];
+}
+
+// Guess the provider from the key format; anything unrecognised is taken
+// as a local Ollama endpoint, as before adapters existed
+export function detectProvider(apiKey: string): string {
+  return listProviders().find(p => p.matchesKey?.(apiKey))?.id || 'ollama';
+}
+
+// Base URL without trailing slash. Ollama credentials from before base_url
+// existed keep the endpoint in the api key field.
+export function resolveBaseUrl(adapter: ProviderAdapter, config: LLMConfig): string {
+  const url = config.baseUrl || (adapter.apiKey === 'none' && config.apiKey) || adapter.baseUrl?.default;
+  if (!url) {
+    throw new Error(`${adapter.label}: informe a URL do servidor.`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+// Loopback and private-range hosts: localhost, 127/8, 10/8, 172.16/12,
+// 192.168/16, 169.254/16, ::1, fc00::/7, fe80::/10 and .local names
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) return true;
+
+  const ipv4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) || (a === 169 && b === 254);
+  }
+
+  // IPv4-mapped addresses come normalised to hex (::ffff:7f00:1)
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isPrivateHost(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return host === '::1' || /^f[cd][0-9a-f]{0,2}:/.test(host) || /^fe[89ab][0-9a-f]?:/.test(host);
+}
+
+// Whether requests stay on the user's machine or network, so text can be
+// sent as is. The adapter flag is not enough: an editable server URL can
+// point to a hosted endpoint, so the resolved URL decides.
+export function isLocalEndpoint(config: LLMConfig): boolean {
+  const adapter = getProvider(config.provider);
+  if (!adapter.local) return false;
+  if (!adapter.baseUrl) return true;
+  try {
+    return isPrivateHost(new URL(resolveBaseUrl(adapter, config)).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// retry-after-ms (OpenAI) or retry-after in seconds or as an HTTP date
+function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function classifyResponse(provider: string, response: Response): Promise<LLMError> {
+  const status = response.status;
+  const detail = await response.text().catch(() => '');
+  const retryAfterMs = parseRetryAfter(response.headers);
+
+  if (status === 401 || status === 403) {
+    return new InvalidKeyError(provider, status, detail);
+  }
+  if (status === 429 || /credit balance/i.test(detail)) {
+    return new RateLimitError(provider, {
+      status, detail, retryAfterMs, quota: /insufficient_quota|credit balance|billing/i.test(detail)
+    });
+  }
+  if (status === 503 || status === 529 || /overloaded/i.test(detail)) {
+    return new OverloadedError(provider, { status, detail, retryAfterMs });
+  }
+  if ((status === 400 || status === 413) && CONTEXT_PATTERN.test(detail)) {
+    return new ContextTooLongError(provider, status, detail);
+  }
+  return new ProviderError(provider, status, detail);
+}
+
+// Errors reported inside a stream, after the response headers said 200
+function streamError(provider: string, type: string | undefined, detail: string): LLMError {
+  if (type === 'overloaded_error') return new OverloadedError(provider, { detail });
+  if (type === 'rate_limit_error') return new RateLimitError(provider, { detail });
+  if (CONTEXT_PATTERN.test(detail)) return new ContextTooLongError(provider, undefined, detail);
+  return new ProviderError(provider, undefined, detail);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// fetch with a timeout until the response headers arrive, and retries with
+// exponential backoff for errors marked retryable. The caller's signal stays
+// linked to the request so aborting also stops a body being streamed.
+async function request(
+  provider: string,
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? COMPLETE_TIMEOUT_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    options.signal?.addEventListener('abort', cancel, { once: true });
+
+    let error: LLMError;
+    try {
+      options.signal?.throwIfAborted();
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok) return response;
+      error = await classifyResponse(provider, response);
+    } catch (err) {
+      if (options.signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+      }
+      error = timedOut
+        ? new LLMTimeoutError(provider, Math.round(timeoutMs / 1000))
+        : new NetworkError(provider, err instanceof Error ? err.message : String(err));
+    } finally {
+      clearTimeout(timer);
+    }
+    options.signal?.removeEventListener('abort', cancel);
+
+    const delayMs = error.retryAfterMs ?? Math.min(1000 * 2 ** (attempt - 1), 30_000) + Math.random() * 250;
+    if (!error.retryable || attempt > MAX_RETRIES || delayMs > MAX_RETRY_WAIT_MS) {
+      throw error;
+    }
+    options.onRetry?.(error, attempt, delayMs);
+    await sleep(delayMs, options.signal);
+  }
+}
+
+function parseToolInput(json: string): Record<string, unknown> {
+  try {
+    const value = json ? JSON.parse(json) : {};
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+// One event of a streamed answer. A chunk that is not JSON fails as a
+// provider error, like any other malformed answer.
+function parseChunk(provider: string, data: string): ReturnType<typeof JSON.parse> {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new ProviderError(provider, undefined, `Trecho de streaming inválido: ${data.slice(0, 200)}`);
+  }
+}
+
+// Split a response body into lines as chunks arrive. A stream that goes
+// quiet for STREAM_IDLE_TIMEOUT_MS fails with a timeout.
+async function* readLines(provider: string, response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new ProviderError(provider, response.status, 'Resposta sem corpo para streaming.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const read = () => new Promise<ReadableStreamReadResult<Uint8Array>>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new LLMTimeoutError(provider, STREAM_IDLE_TIMEOUT_MS / 1000)),
+      STREAM_IDLE_TIMEOUT_MS
+    );
+    reader.read().then(
+      result => {
+        clearTimeout(timer);
+        resolve(result);
+      },
+      err => {
+        clearTimeout(timer);
+        reject(isAbortError(err) ? err : new NetworkError(provider, err instanceof Error ? err.message : String(err)));
+      }
+    );
+  });
+
+  try {
+    while (true) {
+      const { done, value } = await read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+// Server-sent events: yields the data payload of each event
+async function* readEvents(provider: string, response: Response): AsyncGenerator<string> {
+  let data: string[] = [];
+  for await (const line of readLines(provider, response)) {
+    if (line === '') {
+      if (data.length > 0) yield data.join('\n');
+      data = [];
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+  if (data.length > 0) yield data.join('\n');
+}
+
+// Anthropic Messages API
+const anthropic: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  hint: 'Recomendado! Claude é excelente para contratos.',
+  apiKey: 'required',
+  keyPlaceholder: 'sk-ant-api03-...',
+  signupUrl: { href: 'https://console.anthropic.com/settings/keys', label: 'Não tem uma chave? Crie grátis (5 min) →' },
+  defaultModel: 'claude-sonnet-4-20250514',
+  supportsTools: true,
+
+  matchesKey: (apiKey) => apiKey.startsWith('sk-ant-'),
+
+  async listModels(config) {
+    const response = await request(this.label, 'https://api.anthropic.com/v1/models?limit=100', {
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      }
+    });
+
+    const data = await response.json();
+    return data.data.map((m: { id: string }) => m.id);
+  },
+
+  async complete(messages, config, system) {
+    const response = await request(this.label, 'https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: config.model || this.defaultModel,
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+        messages: messages.filter(m => m.role !== 'system'),
+        system
+      })
+    });
+
+    const data = await response.json();
+    return {
+      text: data.content[0].text,
+      usage: data.usage && { input_tokens: data.usage.input_tokens, output_tokens: data.usage.output_tokens }
+    };
+  },
+
+  async *stream(messages, config, options) {
+    const { system, tools, toolChoice } = options;
+
+    const response = await request(this.label, 'https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: config.model || this.defaultModel,
+        max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+        messages: messages.filter(m => m.role !== 'system'),
+        system,
+        ...(tools.length > 0 && {
+          tools: tools.map(t => ({ name: t.name, description: t.description, input_schema: t.input_schema })),
+          tool_choice: { type: toolChoice }
+        }),
+        stream: true
+      })
+    }, { ...options, timeoutMs: REQUEST_TIMEOUT_MS });
+
+    let text = '';
+    // Input tokens come with message_start, the output count with message_delta
+    const usage: TokenUsage = { input_tokens: 0, output_tokens: 0 };
+    // Tool input arrives as partial JSON per content block
+    const blocks = new Map<number, { id: string; name: string; json: string }>();
+
+    for await (const data of readEvents(this.label, response)) {
+      const event = parseChunk(this.label, data);
+      if (event.type === 'message_start' && event.message?.usage) {
+        usage.input_tokens = event.message.usage.input_tokens || 0;
+        usage.output_tokens = event.message.usage.output_tokens || 0;
+      } else if (event.type === 'message_delta' && event.usage) {
+        usage.output_tokens = event.usage.output_tokens ?? usage.output_tokens;
+      } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+        blocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        yield event.delta.text;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+        const block = blocks.get(event.index);
+        if (block) block.json += event.delta.partial_json;
+      } else if (event.type === 'error') {
+        throw streamError(this.label, event.error?.type, event.error?.message);
+      }
+    }
+
+    return {
+      text,
+      usage,
+      calls: [...blocks.values()].map(b => ({ id: b.id, name: b.name, input: parseToolInput(b.json) }))
+    };
+  },
+
+  toolMessages(round, records) {
+    return [
+      {
+        role: 'assistant',
+        content: [
+          ...(round.text ? [{ type: 'text', text: round.text }] : []),
+          ...round.calls.map(c => ({ type: 'tool_use', id: c.id, name: c.name, input: c.input }))
+        ]
+      },
+      {
+        role: 'user',
+        content: round.calls.map((c, idx) => ({
+          type: 'tool_result',
+          tool_use_id: c.id,
+          content: JSON.stringify(records[idx].result)
+        }))
+      }
+    ];
+  }
+};
+
+function openAIUsage(usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage | undefined {
+  return usage && { input_tokens: usage.prompt_tokens || 0, output_tokens: usage.completion_tokens || 0 };
+}
+
+// OpenAI chat completions, shared by OpenAI itself and by servers that
+// implement the same API (llama.cpp server, LM Studio, vLLM...)
+function openAIChatAdapter(
+  adapter: Omit<ProviderAdapter, 'complete' | 'stream' | 'toolMessages'>
+): ProviderAdapter {
+  const headers = (config: LLMConfig): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` })
+  });
+
+  return {
+    ...adapter,
+
+    async listModels(config) {
+      const response = await request(this.label, `${resolveBaseUrl(this, config)}/models`, {
+        headers: headers(config)
+      });
+
+      const data = await response.json();
+      return data.data.map((m: { id: string }) => m.id).sort();
+    },
+
+    async complete(messages, config, system) {
+      const response = await request(this.label, `${resolveBaseUrl(this, config)}/chat/completions`, {
+        method: 'POST',
+        headers: headers(config),
+        body: JSON.stringify({
+          model: config.model || this.defaultModel,
+          messages: [
+            { role: 'system', content: system },
+            ...messages
+          ],
+          temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS
+        })
+      });
+
+      const data = await response.json();
+      return { text: data.choices[0].message.content, usage: openAIUsage(data.usage) };
+    },
+
+    async *stream(messages, config, options) {
+      const { system, tools, toolChoice } = options;
+
+      const response = await request(this.label, `${resolveBaseUrl(this, config)}/chat/completions`, {
+        method: 'POST',
+        headers: headers(config),
+        body: JSON.stringify({
+          model: config.model || this.defaultModel,
+          messages: [
+            { role: 'system', content: system },
+            ...messages
+          ],
+          temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(tools.length > 0 && {
+            tools: tools.map(t => ({
+              type: 'function',
+              function: { name: t.name, description: t.description, parameters: t.input_schema }
+            })),
+            tool_choice: toolChoice
+          }),
+          stream: true,
+          stream_options: { include_usage: true }
+        })
+      }, { ...options, timeoutMs: REQUEST_TIMEOUT_MS });
+
+      let text = '';
+      let usage: TokenUsage | undefined;
+      // Tool calls arrive in pieces keyed by index
+      const calls = new Map<number, { id: string; name: string; json: string }>();
+
+      for await (const data of readEvents(this.label, response)) {
+        if (data === '[DONE]') break;
+        const chunk = parseChunk(this.label, data);
+        // Sent in a last chunk without choices
+        if (chunk.usage) usage = openAIUsage(chunk.usage);
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) {
+          text += delta.content;
+          yield delta.content;
+        }
+        for (const piece of delta?.tool_calls || []) {
+          const call = calls.get(piece.index) || { id: '', name: '', json: '' };
+          if (piece.id) call.id = piece.id;
+          if (piece.function?.name) call.name += piece.function.name;
+          if (piece.function?.arguments) call.json += piece.function.arguments;
+          calls.set(piece.index, call);
+        }
+      }
+
+      return {
+        text,
+        usage,
+        calls: [...calls.values()].map(c => ({ id: c.id, name: c.name, input: parseToolInput(c.json) }))
+      };
+    },
+
+    toolMessages(round, records) {
+      return [
+        {
+          role: 'assistant',
+          content: round.text || null,
+          tool_calls: round.calls.map(c => ({
+            id: c.id,
+            type: 'function',
+            function: { name: c.name, arguments: JSON.stringify(c.input) }
+          }))
+        },
+        ...round.calls.map((c, idx) => ({
+          role: 'tool',
+          tool_call_id: c.id,
+          content: JSON.stringify(records[idx].result)
+        }))
+      ];
+    }
+  };
+}
+
+const openai = openAIChatAdapter({
+  id: 'openai',
+  label: 'OpenAI',
+  hint: 'GPT-4 também funciona bem!',
+  apiKey: 'required',
+  keyPlaceholder: 'sk-proj-...',
+  baseUrl: { default: 'https://api.openai.com/v1', editable: false },
+  signupUrl: { href: 'https://platform.openai.com/api-keys', label: 'Criar chave OpenAI →' },
+  defaultModel: 'gpt-4-turbo-preview',
+  supportsTools: true,
+  matchesKey: (apiKey) => apiKey.startsWith('sk-') || apiKey.startsWith('sk-proj-')
+});
+
+// Tool support varies between servers, so tools stay off
+const openaiCompatible = openAIChatAdapter({
+  id: 'openai-compatible',
+  label: 'Compatível com OpenAI',
+  hint: 'Servidor próprio na sua rede: llama.cpp, LM Studio, vLLM...',
+  apiKey: 'optional',
+  keyPlaceholder: 'Chave (se o servidor exigir)',
+  baseUrl: { default: 'http://localhost:8080/v1', editable: true },
+  defaultModel: 'default',
+  supportsTools: false,
+  local: true
+});
+
+function ollamaUsage(data: { prompt_eval_count?: number; eval_count?: number }): TokenUsage | undefined {
+  if (data.prompt_eval_count === undefined && data.eval_count === undefined) return undefined;
+  return { input_tokens: data.prompt_eval_count || 0, output_tokens: data.eval_count || 0 };
+}
+
+function ollamaOptions(config: LLMConfig) {
+  return {
+    temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+    num_predict: config.maxTokens ?? DEFAULT_MAX_TOKENS
+  };
+}
+
+// Ollama streams one JSON object per line
+const ollama: ProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama',
+  hint: 'Para rodar modelos localmente (grátis!)',
+  apiKey: 'none',
+  baseUrl: { default: 'http://localhost:11434', editable: true },
+  signupUrl: { href: 'https://ollama.ai', label: 'Instalar Ollama →' },
+  defaultModel: 'llama2',
+  supportsTools: false,
+  local: true,
+
+  async listModels(config) {
+    const response = await request(this.label, `${resolveBaseUrl(this, config)}/api/tags`);
+
+    const data = await response.json();
+    return data.models.map((m: { name: string }) => m.name);
+  },
+
+  async complete(messages, config, system) {
+    const response = await request(this.label, `${resolveBaseUrl(this, config)}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: config.model || this.defaultModel,
+        messages: [
+          { role: 'system', content: system },
+          ...messages
+        ],
+        options: ollamaOptions(config),
+        stream: false
+      })
+    });
+
+    const data = await response.json();
+    return { text: data.message.content, usage: ollamaUsage(data) };
+  },
+
+  async *stream(messages, config, options) {
+    const { system } = options;
+
+    const response = await request(this.label, `${resolveBaseUrl(this, config)}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: config.model || this.defaultModel,
+        messages: [
+          { role: 'system', content: system },
+          ...messages
+        ],
+        options: ollamaOptions(config),
+        stream: true
+      })
+    }, { ...options, timeoutMs: REQUEST_TIMEOUT_MS });
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    for await (const line of readLines(this.label, response)) {
+      if (!line.trim()) continue;
+      const chunk = parseChunk(this.label, line);
+      if (chunk.error) {
+        throw streamError(this.label, undefined, chunk.error);
+      }
+      if (chunk.message?.content) {
+        text += chunk.message.content;
+        yield chunk.message.content;
+      }
+      if (chunk.done) {
+        usage = ollamaUsage(chunk);
+        break;
+      }
+    }
+
+    return { text, usage, calls: [] };
+  }
+};
+
+// Registration order is the order shown in onboarding and used by detectProvider
+registerProvider(anthropic);
+registerProvider(openai);
+registerProvider(ollama);
+registerProvider(openaiCompatible);
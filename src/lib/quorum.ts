@@ -0,0 +1,66 @@
+// Signing policies: how many of a contract's parties must sign before it
+// leaves the draft, and who has signed so far.
+import type { Contract, Party, SigningPolicy, Span, SpanSignature } from '../types';
+
+export const CONTRACT_CREATED_SPAN_TYPE = 'contract.created';
+
+export const DEFAULT_SIGNING_POLICY: SigningPolicy = { type: 'all' };
+
+export interface SigningStatus {
+  policy: SigningPolicy;
+  required: number;
+  signed: Array<{ party: Party; signature: SpanSignature }>;
+  pending: Party[];
+  satisfied: boolean;
+}
+
+export function requiredSignatures(policy: SigningPolicy, partyCount: number): number {
+  if (policy.type === 'threshold') {
+    return Math.min(Math.max(policy.threshold, 1), partyCount);
+  }
+  return partyCount;
+}
+
+export function describePolicy(policy: SigningPolicy, partyCount: number): string {
+  return policy.type === 'all'
+    ? 'Todas as partes'
+    : `${requiredSignatures(policy, partyCount)} de ${partyCount} partes`;
+}
+
+// Who has and hasn't signed the span that creates the contract. With
+// `verified` (the signatures that checked out against their signers' keys),
+// no other signature counts.
+export function getSigningStatus(contract: Contract, span: Span | undefined, verified?: Set<string>): SigningStatus {
+  const policy = contract.signing_policy || span?.body.input?.signing_policy || DEFAULT_SIGNING_POLICY;
+  const signatures = (span?.signatures || []).filter(s => !verified || verified.has(s.signature));
+  return tallySignatures(contract.parties, policy, signatures);
+}
+
+// Match signatures to parties: a party bound to a signer only counts that
+// signer, and a signer counts for a single party
+export function tallySignatures(parties: Party[], policy: SigningPolicy, signatures: SpanSignature[]): SigningStatus {
+  const signed: SigningStatus['signed'] = [];
+  const pending: Party[] = [];
+  const signers = new Set<string>();
+  for (const party of parties) {
+    const signature = signatures.find(s =>
+      s.party === party.name && (!party.id || party.id === s.signer_id) && !signers.has(s.signer_id)
+    );
+    if (signature) {
+      signers.add(signature.signer_id);
+      signed.push({ party, signature });
+    } else {
+      pending.push(party);
+    }
+  }
+  
+  const required = requiredSignatures(policy, parties.length);
+  
+  return {
+    policy,
+    required,
+    signed,
+    pending,
+    satisfied: parties.length > 0 && signed.length >= required
+  };
+}
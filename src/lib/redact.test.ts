@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createRedactor, redactorFor, PII_KINDS } from './redact';
+import { isLocalEndpoint, isPrivateHost } from './providers';
+
+const ALL = PII_KINDS.map(k => k.kind);
+
+describe('redactor', () => {
+  it('replaces personal data with stable placeholders and restores it', () => {
+    const redactor = createRedactor(ALL);
+    const text = 'CPF 529.982.247-25, e-mail maria@example.com, tel (11) 98765-4321. De novo: 529.982.247-25';
+    const redacted = redactor.redact(text);
+
+    expect(redacted).toBe('CPF [CPF_1], e-mail [EMAIL_1], tel [TELEFONE_1]. De novo: [CPF_1]');
+    expect(redactor.restore(redacted)).toBe(text);
+    expect(redactor.log()).toEqual({ applied: true, counts: { cpf: 1, email: 1, phone: 1 } });
+  });
+
+  it('leaves bare digit runs that are not valid documents alone', () => {
+    const redactor = createRedactor(ALL);
+    expect(redactor.redact('Pedido 12345678901 de R$ 45000')).toBe('Pedido 12345678901 de R$ 45000');
+    expect(redactor.redact('CPF 52998224725')).toBe('CPF [CPF_1]');
+  });
+
+  it.each([
+    ['Entrega na Rua das Flores, 123 amanhã', 'Entrega na [ENDERECO_1] amanhã'],
+    ['Moro na rua Augusta, nº 1500, apto 3', 'Moro na [ENDERECO_1], apto 3'],
+    ['Av. das Nações Unidas 12901', '[ENDERECO_1]'],
+    ['Escritório na R. 25 de Março, 80.', 'Escritório na [ENDERECO_1].'],
+    ['CEP 01310-100', 'CEP [CEP_1]']
+  ])('redacts the address in %s', (text, redacted) => {
+    expect(createRedactor(['address']).redact(text)).toBe(redacted);
+  });
+
+  it.each([
+    'Falei com o senhor. Ele concorda com o prazo, desde que pague',
+    'Assinado por Maria R. Silva e João, testemunhas',
+    'A rua estava alagada, então a entrega atrasou',
+    'Sobre a avenida de oportunidades, vale dizer que não'
+  ])('leaves prose alone: %s', text => {
+    expect(createRedactor(['address']).redact(text)).toBe(text);
+  });
+
+  it('only redacts the chosen kinds', () => {
+    expect(createRedactor(['email']).redact('529.982.247-25 a@b.co')).toBe('529.982.247-25 [EMAIL_1]');
+  });
+
+  it('redacts and restores strings inside values', () => {
+    const redactor = createRedactor(ALL);
+    const value = { parties: [{ name: 'Maria', email: 'maria@example.com' }], amount: 10 };
+    const redacted = redactor.redactValue(value);
+    expect(redacted).toEqual({ parties: [{ name: 'Maria', email: '[EMAIL_1]' }], amount: 10 });
+    expect(redactor.restoreValue(redacted)).toEqual(value);
+  });
+
+  it('restores placeholders split across streamed chunks', () => {
+    const redactor = createRedactor(ALL);
+    redactor.redact('maria@example.com');
+    const stream = redactor.streamRestorer();
+    const out = ['Escreva para [EM', 'AIL_', '1] hoje'].map(chunk => stream.push(chunk)).join('') + stream.flush();
+    expect(out).toBe('Escreva para maria@example.com hoje');
+  });
+});
+
+describe('provider locality', () => {
+  it.each([
+    'localhost', '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.0.10',
+    '169.254.1.1', '[::1]', 'fd00::1', 'fe80::1', 'printer.local', '[::ffff:7f00:1]'
+  ])('treats %s as private', host => {
+    expect(isPrivateHost(host)).toBe(true);
+  });
+
+  it.each(['api.openai.com', '8.8.8.8', '172.32.0.1', '192.169.0.1', 'localhost.example.com', '[2001:db8::1]'])(
+    'treats %s as public',
+    host => {
+      expect(isPrivateHost(host)).toBe(false);
+    }
+  );
+
+  it('decides from the resolved base URL', () => {
+    expect(isLocalEndpoint({ provider: 'ollama', apiKey: '', model: 'llama3' })).toBe(true);
+    expect(isLocalEndpoint({ provider: 'ollama', apiKey: '', model: 'llama3', baseUrl: 'https://ollama.example.com' })).toBe(false);
+    expect(isLocalEndpoint({ provider: 'openai-compatible', apiKey: '', model: 'm', baseUrl: 'http://192.168.0.10:8080/v1' })).toBe(true);
+    expect(isLocalEndpoint({ provider: 'openai', apiKey: 'sk', model: 'gpt' })).toBe(false);
+  });
+
+  it('sends the original text only to local endpoints', () => {
+    const redact = ALL;
+    expect(redactorFor({ provider: 'ollama', apiKey: '', model: 'm', redact }).log().skipped).toBe('local_provider');
+    const hosted = redactorFor({ provider: 'ollama', apiKey: '', model: 'm', baseUrl: 'https://gpu.example.com', redact });
+    expect(hosted.redact('a@b.co')).toBe('[EMAIL_1]');
+    expect(redactorFor({ provider: 'openai', apiKey: 'sk', model: 'm' }).log().skipped).toBe('disabled');
+  });
+});
@@ -0,0 +1,205 @@
+// Personal data is swapped for placeholders ([CPF_1], [EMAIL_2]...) before
+// text goes to a hosted provider, and swapped back in the answer. The same
+// value always gets the same placeholder within a request, and the history
+// is redacted in order, so placeholders stay stable across turns.
+import type { LLMConfig, PIIKind, RedactionSettings } from '../types';
+import { getRedactionSettings, saveRedactionSettings } from './db';
+import { isLocalEndpoint } from './providers';
+
+export const PII_KINDS: { kind: PIIKind; label: string }[] = [
+  { kind: 'cpf', label: 'CPF' },
+  { kind: 'cnpj', label: 'CNPJ' },
+  { kind: 'phone', label: 'Telefones' },
+  { kind: 'email', label: 'E-mails' },
+  { kind: 'address', label: 'Endereços e CEP' },
+  { kind: 'bank', label: 'Dados bancários e chaves PIX' }
+];
+
+// Counts of distinct values replaced in one request, kept with the conversation
+export interface RedactionLog {
+  applied: boolean;
+  skipped?: 'local_provider' | 'disabled';
+  counts: Partial<Record<PIIKind, number>>;
+}
+
+export interface Redactor {
+  redact(text: string): string;
+  restore(text: string): string;
+  redactValue<T>(value: T): T;
+  restoreValue<T>(value: T): T;
+  // Restores streamed text, holding back a placeholder split across chunks
+  streamRestorer(): { push(chunk: string): string; flush(): string };
+  log(): RedactionLog;
+}
+
+interface PIIPattern {
+  kind: PIIKind;
+  tag: string;
+  pattern: RegExp;
+  group?: number;                   // only this group is replaced; the rest is kept
+  accept?(value: string): boolean;
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function checkDigit(numbers: number[], weights: number[]): number {
+  const sum = numbers.reduce((total, n, i) => total + n * weights[i], 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+// Formatted numbers are always redacted; bare digit runs only when the
+// check digits match, so amounts and ids are left alone
+function isCPF(value: string): boolean {
+  if (/[.-]/.test(value)) return true;
+  const n = [...digits(value)].map(Number);
+  if (new Set(n).size === 1) return false;
+  return checkDigit(n.slice(0, 9), [10, 9, 8, 7, 6, 5, 4, 3, 2]) === n[9] &&
+    checkDigit(n.slice(0, 10), [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]) === n[10];
+}
+
+function isCNPJ(value: string): boolean {
+  if (/[./-]/.test(value)) return true;
+  const n = [...digits(value)].map(Number);
+  if (new Set(n).size === 1) return false;
+  return checkDigit(n.slice(0, 12), [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === n[12] &&
+    checkDigit(n.slice(0, 13), [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === n[13];
+}
+
+// A street address: the kind of street, a name whose words start with a
+// capital or a digit ("Rua 25 de Março", "Av. das Nações") and the number.
+// The bare "R." also needs the number, since initials in names look the same.
+const STREET_WORD = String.raw`[A-ZÀ-Þ0-9][\wÀ-ÿ'’-]*`;
+const STREET_NAME = String.raw`(?:d[aeo]s?\s+)?${STREET_WORD}(?:\s+(?:(?:d[aeo]s?|e)\s+)?${STREET_WORD})*`;
+const STREET_NUMBER = String.raw`,?\s*(?:n[º°o]\.?\s*)?\d+[A-Za-z]?\b`;
+const STREET_ADDRESS = new RegExp(
+  String.raw`(?<![\wÀ-ÿ])(?:(?:[Rr]ua|[Aa]venida|[Aa]v\.|[Aa]lameda|[Tt]ravessa|[Rr]odovia|[Ee]strada|[Pp]raça)\s+` +
+    String.raw`${STREET_NAME}(?:${STREET_NUMBER})?|R\.\s*${STREET_NAME}${STREET_NUMBER})`,
+  'g'
+);
+
+// Order matters: e-mails and document numbers go first so their digits are
+// not taken for phones or accounts
+const PATTERNS: PIIPattern[] = [
+  { kind: 'email', tag: 'EMAIL', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { kind: 'cnpj', tag: 'CNPJ', pattern: /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g, accept: isCNPJ },
+  { kind: 'cpf', tag: 'CPF', pattern: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g, accept: isCPF },
+  {
+    kind: 'bank',
+    tag: 'CONTA',
+    pattern: /\b(ag[êe]ncia|ag\.|conta(?:[\s-]corrente|\s+poupan[çc]a)?|c\/c|pix)\s*:?\s*(?:n[º°o]\.?\s*)?([\w.@+-]*\d[\w.@+-]*)/gi,
+    group: 2
+  },
+  { kind: 'phone', tag: 'TELEFONE', pattern: /(?:\+55\s?)?(?:\(\d{2}\)\s?|\b\d{2}[\s-])9?\d{4}[\s-]?\d{4}\b/g },
+  { kind: 'address', tag: 'CEP', pattern: /\b\d{5}-\d{3}\b/g },
+  { kind: 'address', tag: 'ENDERECO', pattern: STREET_ADDRESS }
+];
+
+const PLACEHOLDER = /\[([A-Z]+)_(\d+)\]/g;
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+export function createRedactor(kinds: PIIKind[], skipped?: RedactionLog['skipped']): Redactor {
+  const patterns = PATTERNS.filter(p => kinds.includes(p.kind));
+  const byValue = new Map<string, string>();
+  const byPlaceholder = new Map<string, string>();
+  const counters = new Map<string, number>();
+  const counts: Partial<Record<PIIKind, number>> = {};
+
+  const placeholderFor = (value: string, { kind, tag }: PIIPattern): string => {
+    const existing = byValue.get(value);
+    if (existing) return existing;
+
+    const n = (counters.get(tag) || 0) + 1;
+    counters.set(tag, n);
+    counts[kind] = (counts[kind] || 0) + 1;
+    const placeholder = `[${tag}_${n}]`;
+    byValue.set(value, placeholder);
+    byPlaceholder.set(placeholder, value);
+    return placeholder;
+  };
+
+  const redact = (text: string): string => {
+    let result = text;
+    for (const p of patterns) {
+      result = result.replace(p.pattern, (match, ...groups) => {
+        const value = p.group ? groups[p.group - 1] : match;
+        if (!value || (p.accept && !p.accept(value))) return match;
+        return p.group ? match.replace(value, placeholderFor(value, p)) : placeholderFor(value, p);
+      });
+    }
+    return result;
+  };
+
+  const restore = (text: string): string =>
+    text.replace(PLACEHOLDER, placeholder => byPlaceholder.get(placeholder) ?? placeholder);
+
+  const mapStrings = (value: unknown, fn: (text: string) => string): unknown => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+    }
+    return value;
+  };
+
+  return {
+    redact,
+    restore,
+    redactValue: <T>(value: T) => mapStrings(value, redact) as T,
+    restoreValue: <T>(value: T) => mapStrings(value, restore) as T,
+
+    streamRestorer() {
+      let pending = '';
+      return {
+        push(chunk) {
+          pending += chunk;
+          const open = pending.lastIndexOf('[');
+          const hold = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH;
+          const ready = hold ? pending.slice(0, open) : pending;
+          pending = hold ? pending.slice(open) : '';
+          return restore(ready);
+        },
+        flush() {
+          const rest = restore(pending);
+          pending = '';
+          return rest;
+        }
+      };
+    },
+
+    log: () => ({ applied: patterns.length > 0, ...(skipped && { skipped }), counts: { ...counts } })
+  };
+}
+
+// Providers on a loopback or private address see the text as typed; so does
+// everyone when the user turned redaction off
+export function redactorFor(config: LLMConfig): Redactor {
+  if (isLocalEndpoint(config)) return createRedactor([], 'local_provider');
+  if (!config.redact?.length) return createRedactor([], 'disabled');
+  return createRedactor(config.redact);
+}
+
+export function defaultRedactionSettings(userId: string): RedactionSettings {
+  return {
+    user_id: userId,
+    enabled: true,
+    kinds: PII_KINDS.map(k => k.kind),
+    updated_at: new Date().toISOString()
+  };
+}
+
+export async function loadRedactionSettings(userId: string): Promise<RedactionSettings> {
+  return (await getRedactionSettings(userId)) ?? defaultRedactionSettings(userId);
+}
+
+export async function updateRedactionSettings(userId: string, enabled: boolean, kinds: PIIKind[]): Promise<void> {
+  await saveRedactionSettings({ user_id: userId, enabled, kinds, updated_at: new Date().toISOString() });
+}
+
+// Kinds to put in the LLMConfig; empty when redaction is off
+export async function redactionKinds(userId: string): Promise<PIIKind[]> {
+  const settings = await loadRedactionSettings(userId);
+  return settings.enabled ? settings.kinds : [];
+}
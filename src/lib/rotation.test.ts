@@ -0,0 +1,138 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { LedgerEntry, Span } from '../types';
+import { calculateSpanHash, generateKeyPair, keyFingerprint, signSpan, SPAN_VERSION } from './crypto';
+import {
+  buildKeyTimeline,
+  identityTraceId,
+  onboardingTraceId,
+  KEY_REVOKED_SPAN_TYPE,
+  KEY_ROTATED_SPAN_TYPE
+} from './rotation';
+
+interface Key { pair: CryptoKeyPair; jwk: JsonWebKey; fingerprint: string }
+
+let first: Key;
+let second: Key;
+let registered: Span;
+
+async function newKey(): Promise<Key> {
+  const pair = await generateKeyPair();
+  const { kty, crv, x } = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  const jwk = { kty, crv, x };
+  return { pair, jwk, fingerprint: keyFingerprint(jwk) };
+}
+
+// An identity span of ana, signed with the given key
+async function identitySpan(
+  id: string,
+  type: string,
+  input: Record<string, unknown>,
+  key: Key,
+  at = '2026-02-01T00:00:00.000Z',
+  traceId = identityTraceId('ana')
+): Promise<Span> {
+  const span: Span = {
+    id,
+    trace_id: traceId,
+    type,
+    entity: 'identity',
+    body: { action: type, input: { signer_id: 'ana', ...input } },
+    started_at: at,
+    this: { hash: '', version: SPAN_VERSION }
+  };
+  span.this.hash = await calculateSpanHash(span);
+  span.confirmed_by = {
+    signature: await signSpan(span, key.pair.privateKey),
+    domain: 'minicontratos.local',
+    timestamp: at,
+    signer_id: 'ana'
+  };
+  return span;
+}
+
+const rotation = (key: Key, next: Key, traceId?: string) => identitySpan(
+  'rotated',
+  KEY_ROTATED_SPAN_TYPE,
+  { previous_key: first.fingerprint, new_key: next.jwk },
+  key,
+  undefined,
+  traceId
+);
+
+function chain(spans: Span[]): LedgerEntry[] {
+  return spans.map((span, idx) => ({ seq: idx + 1, span_id: span.id, span_hash: span.this.hash, prev: null, hash: '' }));
+}
+
+// Only the first key is in the directory; the second is reached by rotation
+const directory = async () => [first.jwk];
+
+beforeAll(async () => {
+  first = await newKey();
+  second = await newKey();
+  registered = await identitySpan(
+    'registered',
+    'user.registered',
+    { user_id: 'ana', public_key: first.jwk },
+    first,
+    '2026-01-01T00:00:00.000Z',
+    onboardingTraceId('ana')
+  );
+});
+
+describe('buildKeyTimeline', () => {
+  it('follows a rotation signed with the previous key in the identity trace', async () => {
+    const rotated = await rotation(first, second);
+    const timeline = await buildKeyTimeline([registered, rotated], directory, chain([registered, rotated]));
+    const [a, b] = timeline.get('ana')!;
+
+    expect(a).toMatchObject({
+      fingerprint: first.fingerprint,
+      valid_from: '2026-01-01T00:00:00.000Z',
+      valid_until: '2026-02-01T00:00:00.000Z'
+    });
+    expect(b).toMatchObject({ fingerprint: second.fingerprint, valid_from: '2026-02-01T00:00:00.000Z' });
+  });
+
+  it('ignores a rotation recorded outside the identity trace', async () => {
+    const forged = await rotation(first, second, 'contract-1');
+    const timeline = await buildKeyTimeline([registered, forged], directory);
+    expect(timeline.get('ana')!.map(k => k.fingerprint)).toEqual([first.fingerprint]);
+  });
+
+  it('ignores a rotation signed by a key the signer never had', async () => {
+    const intruder = await newKey();
+    const forged = await rotation(intruder, intruder);
+    const timeline = await buildKeyTimeline([registered, forged], directory);
+    expect(timeline.get('ana')!.map(k => k.fingerprint)).toEqual([first.fingerprint]);
+  });
+
+  it('replays identity spans in ledger order, whatever time they claim', async () => {
+    const rotated = await rotation(first, second);
+    // Appended after the rotation, signed with the retired key and backdated
+    const revoked = await identitySpan(
+      'revoked',
+      KEY_REVOKED_SPAN_TYPE,
+      { fingerprint: second.fingerprint },
+      first,
+      '2026-01-15T00:00:00.000Z'
+    );
+    const timeline = await buildKeyTimeline([revoked, rotated, registered], directory, chain([registered, rotated, revoked]));
+    expect(timeline.get('ana')!.find(k => k.fingerprint === second.fingerprint)?.revoked_at).toBeUndefined();
+  });
+
+  it('accepts a revocation signed with the active key', async () => {
+    const rotated = await rotation(first, second);
+    const revoked = await identitySpan(
+      'revoked',
+      KEY_REVOKED_SPAN_TYPE,
+      { fingerprint: first.fingerprint, reason: 'perdida' },
+      second,
+      '2026-02-02T00:00:00.000Z'
+    );
+    const timeline = await buildKeyTimeline([registered, rotated, revoked], directory, chain([registered, rotated, revoked]));
+    expect(timeline.get('ana')!.find(k => k.fingerprint === first.fingerprint)).toMatchObject({
+      revoked_at: '2026-02-02T00:00:00.000Z',
+      revocation_reason: 'perdida'
+    });
+  });
+});
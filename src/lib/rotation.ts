@@ -0,0 +1,187 @@
+// Key timelines: which public key was valid for each signer, and when.
+// Built from the identity spans of a ledger (registration, rotation and
+// revocation), each of them authenticated against the timeline so far.
+// Rotations and revocations only count in the signer's own identity trace,
+// replayed in ledger order: the timestamps they claim are not trusted to
+// order them.
+import type { LedgerEntry, Span } from '../types';
+import { keyFingerprint, verifySignature } from './crypto';
+
+export const KEY_ROTATED_SPAN_TYPE = 'identity.key_rotated';
+export const KEY_REVOKED_SPAN_TYPE = 'identity.key_revoked';
+
+export interface KeyCandidate {
+  fingerprint: string;
+  public_key: JsonWebKey;
+  valid_from?: string;   // introduced (registration or rotation)
+  valid_until?: string;  // superseded by a rotation
+  revoked_at?: string;
+  revocation_reason?: string;
+}
+
+export type KeyTimeline = Map<string, KeyCandidate[]>;
+
+const IDENTITY_SPAN_TYPES = ['user.registered', KEY_ROTATED_SPAN_TYPE, KEY_REVOKED_SPAN_TYPE];
+
+export function identityTraceId(signerId: string): string {
+  return `identity-${signerId}`;
+}
+
+export function onboardingTraceId(signerId: string): string {
+  return `onboarding-${signerId}`;
+}
+
+// Moment a span was signed, as claimed by its signer
+export function signedAt(span: Span): string {
+  return span.confirmed_by?.timestamp || span.started_at;
+}
+
+// Why a key could not sign at a given moment (undefined when it could)
+export function keyProblemAt(key: KeyCandidate, at: string): string | undefined {
+  if (key.revoked_at && at > key.revoked_at) {
+    return `assinado em ${at} com chave revogada em ${key.revoked_at}`;
+  }
+  if (key.valid_until && at > key.valid_until) {
+    return `assinado em ${at} com chave substituída em ${key.valid_until}`;
+  }
+  if (key.valid_from && at < key.valid_from) {
+    return `assinado em ${at}, antes de a chave existir (${key.valid_from})`;
+  }
+  return undefined;
+}
+
+// Candidate key that produced a signature, if any
+export async function findSigningKey(
+  span: Span,
+  signature: string,
+  candidates: KeyCandidate[]
+): Promise<KeyCandidate | undefined> {
+  for (const candidate of candidates) {
+    if (await verifySignature(span, signature, candidate.public_key)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function addCandidate(candidates: KeyCandidate[], publicKey: JsonWebKey): KeyCandidate {
+  const fingerprint = keyFingerprint(publicKey);
+  let candidate = candidates.find(c => c.fingerprint === fingerprint);
+  if (!candidate) {
+    candidate = { fingerprint, public_key: publicKey };
+    candidates.push(candidate);
+  }
+  return candidate;
+}
+
+// Position of each span in the ledger: its chain seq, or, for spans not
+// chained yet (an incoming bundle), after every chained span in the order of
+// the prev_hash links of its trace
+export function ledgerOrder(spans: Span[], entries: LedgerEntry[] = []): Span[] {
+  const seqs = new Map(entries.map(e => [e.span_id, e.seq]));
+  const byHash = new Map(spans.map(s => [s.this?.hash, s]));
+  const depths = new Map<string, number>();
+  const depth = (span: Span, seen: Set<string> = new Set()): number => {
+    const known = depths.get(span.id);
+    if (known !== undefined) return known;
+    const prev = span.this?.prev_hash ? byHash.get(span.this.prev_hash) : undefined;
+    seen.add(span.id);
+    const value = prev && !seen.has(prev.id) ? depth(prev, seen) + 1 : 0;
+    depths.set(span.id, value);
+    return value;
+  };
+
+  const last = entries.reduce((max, e) => Math.max(max, e.seq), 0);
+  const position = (span: Span) => seqs.get(span.id) ?? last + 1 + depth(span);
+  return [...spans].sort((a, b) => position(a) - position(b));
+}
+
+// Signing key of an identity span, provided it was still in use at that
+// point of the ledger and valid when it signed
+async function authenticate(
+  span: Span,
+  candidates: KeyCandidate[],
+  retired: Set<string>
+): Promise<KeyCandidate | undefined> {
+  if (!span.confirmed_by) return undefined;
+  const active = candidates.filter(c => !retired.has(c.fingerprint));
+  const key = await findSigningKey(span, span.confirmed_by.signature, active);
+  if (!key || keyProblemAt(key, signedAt(span))) return undefined;
+  return key;
+}
+
+// Build the key timeline of every signer that appears in the spans. Keys come
+// from the directory (resolveKeys) and from verified rotation spans; a
+// registration only dates a key the directory already trusts. Pass the
+// ledger chain so identity spans are replayed in ledger order.
+export async function buildKeyTimeline(
+  spans: Span[],
+  resolveKeys: (signerId: string) => Promise<JsonWebKey[]>,
+  entries?: LedgerEntry[]
+): Promise<KeyTimeline> {
+  const timeline: KeyTimeline = new Map();
+
+  const signerIds = new Set(
+    spans.flatMap(s => [
+      ...(s.confirmed_by ? [s.confirmed_by.signer_id] : []),
+      ...(s.signatures || []).map(sig => sig.signer_id)
+    ])
+  );
+  for (const signerId of signerIds) {
+    const candidates: KeyCandidate[] = [];
+    for (const publicKey of await resolveKeys(signerId)) {
+      addCandidate(candidates, publicKey);
+    }
+    timeline.set(signerId, candidates);
+  }
+
+  const identitySpans = ledgerOrder(
+    spans.filter(s => IDENTITY_SPAN_TYPES.includes(s.type) && s.confirmed_by),
+    entries
+  );
+
+  // Keys superseded or revoked so far, per signer
+  const retired = new Map<string, Set<string>>();
+
+  for (const span of identitySpans) {
+    const signerId = span.confirmed_by!.signer_id;
+    const candidates = timeline.get(signerId)!;
+    const input = span.body.input || {};
+    const signerRetired = retired.get(signerId) || new Set<string>();
+    retired.set(signerId, signerRetired);
+
+    if (span.type === 'user.registered' && span.trace_id === onboardingTraceId(signerId) && input.public_key) {
+      const key = candidates.find(c => c.fingerprint === keyFingerprint(input.public_key));
+      if (key && (await authenticate(span, [key], signerRetired))) {
+        key.valid_from = key.valid_from || signedAt(span);
+      }
+      continue;
+    }
+
+    if (span.trace_id !== identityTraceId(signerId) || input.signer_id !== signerId) continue;
+
+    if (span.type === KEY_ROTATED_SPAN_TYPE && input.new_key) {
+      const previous = candidates.find(c => c.fingerprint === input.previous_key);
+      if (previous && (await authenticate(span, [previous], signerRetired))) {
+        previous.valid_until = signedAt(span);
+        signerRetired.add(previous.fingerprint);
+        const next = addCandidate(candidates, input.new_key);
+        next.valid_from = signedAt(span);
+      }
+    }
+
+    if (span.type === KEY_REVOKED_SPAN_TYPE) {
+      const target = candidates.find(c => c.fingerprint === input.fingerprint);
+      if (target && (await authenticate(span, candidates, signerRetired))) {
+        const revokedAt: string = input.effective_at || signedAt(span);
+        if (!target.revoked_at || revokedAt < target.revoked_at) {
+          target.revoked_at = revokedAt;
+          target.revocation_reason = input.reason;
+        }
+        signerRetired.add(target.fingerprint);
+      }
+    }
+  }
+
+  return timeline;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Rule, Span } from '../types';
+import { SPAN_VERSION } from './crypto';
+import { projectContract } from './projection';
+import { buildRuleContext, evaluateRules, PAYMENT_CONFIRMED_SPAN_TYPE, PENALTY_APPLIED_SPAN_TYPE } from './rules';
+import { OBLIGATION_REGISTERED_SPAN_TYPE, PAYMENT_RECORDED_SPAN_TYPE } from './obligations';
+
+const now = new Date('2026-03-10T00:00:00Z');
+
+const lateFee: Rule = {
+  id: 'late-fee',
+  condition: "now() > deadline && payment.status != 'confirmed'",
+  action: 'apply_penalty',
+  parameters: { percent: 10 }
+};
+
+// Rules only read the spans, so they are left unhashed and unsigned
+function created(input: Record<string, unknown> = {}, rules?: Rule[]): Span {
+  return {
+    id: 'c1',
+    trace_id: 'contract-1',
+    type: 'contract.created',
+    entity: 'minicontrato',
+    body: {
+      action: 'create_contract',
+      input: { title: 'Empréstimo', parties: [{ name: 'João', role: 'credor' }, { name: 'Maria', role: 'devedora' }], ...input },
+      rules
+    },
+    started_at: '2026-01-01T00:00:00.000Z',
+    this: { hash: '', version: SPAN_VERSION }
+  };
+}
+
+let counter = 0;
+
+function span(type: string, input: Record<string, unknown>, fields: Partial<Span> = {}): Span {
+  return { ...created(), id: `span-${++counter}`, type, entity: 'pagamento', body: { action: type, input }, ...fields };
+}
+
+function obligation(id: string, cents: number): Span {
+  return span(OBLIGATION_REGISTERED_SPAN_TYPE, { amount_cents: cents, due_date: '2026-02-01T00:00:00Z' }, { id });
+}
+
+function payment(cents: number, type = PAYMENT_RECORDED_SPAN_TYPE, parentId?: string): Span {
+  return span(type, { amount: cents / 100, amount_cents: cents }, parentId ? { parent_id: parentId } : {});
+}
+
+function paymentStatus(spans: Span[]): string {
+  return buildRuleContext(projectContract(spans)!, spans, spans[0], lateFee, now).payment.status;
+}
+
+describe('rule context', () => {
+  it('leaves the contract pending while an installment is outstanding', () => {
+    expect(paymentStatus([created(), obligation('o1', 10000), obligation('o2', 10000), payment(10000)])).toBe('pending');
+    expect(paymentStatus([created(), obligation('o1', 10000), obligation('o2', 10000), payment(20000)])).toBe('confirmed');
+  });
+
+  it('compares payments with the contract amount when there are no obligations', () => {
+    expect(paymentStatus([created({ amount: 1000 }), payment(50000)])).toBe('pending');
+    expect(paymentStatus([created({ amount: 1000 }), payment(100000)])).toBe('confirmed');
+    expect(paymentStatus([created({ amount: 1000 }), payment(0, PAYMENT_CONFIRMED_SPAN_TYPE)])).toBe('confirmed');
+  });
+
+  it('reads the status of the declaring obligation', () => {
+    const spans = [created(), obligation('o1', 10000), obligation('o2', 10000), payment(10000, PAYMENT_RECORDED_SPAN_TYPE, 'o1')];
+    const context = buildRuleContext(projectContract(spans)!, spans, spans[2], lateFee, now);
+    expect(context.payment.status).toBe('pending');
+    expect(context.obligation).toEqual({ status: 'overdue', amount: 100, paid: 0, outstanding: 100 });
+  });
+});
+
+describe('rule evaluation', () => {
+  it('fires a late fee once the deadline passes unpaid', () => {
+    const spans = [created({ amount: 1000, deadline: '2026-03-01T00:00:00Z' }, [lateFee])];
+    const [evaluation] = evaluateRules(projectContract(spans)!, spans, now);
+    expect(evaluation.fired).toBe(true);
+    expect(evaluation.action?.type).toBe(PENALTY_APPLIED_SPAN_TYPE);
+    expect(evaluation.action?.body.input).toMatchObject({ rule_id: 'late-fee', percent: 10, amount: 100 });
+  });
+
+  it('does not apply a rule twice', () => {
+    const spans = [created({ amount: 1000, deadline: '2026-03-01T00:00:00Z' }, [lateFee])];
+    const [first] = evaluateRules(projectContract(spans)!, spans, now);
+    const applied = [...spans, first.action!];
+    const [again] = evaluateRules(projectContract(applied)!, applied, now);
+    expect(again.already_applied).toBe(true);
+    expect(again.action).toBeUndefined();
+  });
+
+  it('takes the penalty base from the declaring obligation', () => {
+    const declaring = obligation('o1', 30000);
+    declaring.body.rules = [lateFee];
+    const spans = [created({ amount: 1000 }), declaring];
+    const [evaluation] = evaluateRules(projectContract(spans)!, spans, now);
+    expect(evaluation.action?.body.input).toMatchObject({ base_amount: 300, amount: 30 });
+  });
+
+  it('does not borrow the amount of another span', () => {
+    const rule = { ...lateFee, condition: 'now() > deadline' };
+    const spans = [created({ deadline: '2026-03-01T00:00:00Z' }, [rule]), obligation('o1', 30000)];
+    const context = buildRuleContext(projectContract(spans)!, spans, spans[0], rule, now);
+    expect(context.amount).toBeNull();
+    expect(evaluateRules(projectContract(spans)!, spans, now)[0].error).toMatch(/não tem valor/);
+  });
+
+  it('reports conditions that fail to evaluate', () => {
+    const spans = [created({}, [{ ...lateFee, condition: 'deadline >' }])];
+    expect(evaluateRules(projectContract(spans)!, spans, now)[0].error).toMatch(/incompleta/);
+  });
+});
@@ -0,0 +1,322 @@
+// Evaluates the rules declared in a contract's spans. Each condition runs
+// against a typed context built from the trace; a rule that fires produces
+// an action span through the handler registered for Rule.action. Action
+// spans point to the span that declared the rule and carry its id, so a
+// rule fires at most once per declaring span.
+import type { Contract, Rule, Span } from '../types';
+import { appendToLedger, getContract, queryLedger } from './db';
+import { generateId, SPAN_VERSION } from './crypto';
+import { evaluateCondition, type ExprValue } from './expression';
+import { getSigningStatus, CONTRACT_CREATED_SPAN_TYPE } from './quorum';
+import { contractStatus } from './lifecycle';
+import {
+  contractBalance,
+  listObligations,
+  outstandingCents,
+  OBLIGATION_REGISTERED_SPAN_TYPE,
+  PAYMENT_RECORDED_SPAN_TYPE,
+  type ObligationStatus
+} from './obligations';
+
+export const PENALTY_APPLIED_SPAN_TYPE = 'penalty.applied';
+export const DELIVERABLE_RELEASED_SPAN_TYPE = 'deliverable.released';
+export const NOTIFICATION_REQUESTED_SPAN_TYPE = 'notification.requested';
+
+// Events the context reads from the trace
+export const PAYMENT_CONFIRMED_SPAN_TYPE = 'payment.confirmed';
+export const DELIVERY_SUBMITTED_SPAN_TYPE = 'delivery.submitted';
+export const DELIVERY_APPROVED_SPAN_TYPE = 'delivery.approved';
+
+export interface RuleContext {
+  contract: {
+    id: string;
+    title: string;
+    status: Contract['status'];
+    created_at: string;
+    parties: { name: string; role: string }[];
+    signed: boolean;
+  };
+  // From the span that declares the rule, or the first one in the trace
+  amount: number | null;
+  currency: string | null;
+  deadline: string | null;
+  // Of the declaring obligation when the rule is on one, else of the contract
+  payment: {
+    status: 'pending' | 'confirmed';
+    confirmed_at: string | null;
+    amount_paid: number;
+  };
+  // The declaring obligation, in reais
+  obligation: {
+    status: ObligationStatus;
+    amount: number | null;
+    paid: number;
+    outstanding: number;
+  } | null;
+  delivery: {
+    status: 'pending' | 'delivered' | 'approved';
+    delivered_at: string | null;
+    approved_at: string | null;
+  };
+  input: Record<string, unknown>;   // body.input of the declaring span
+  params: Record<string, unknown>;  // rule.parameters
+  spans: Record<string, number>;    // spans in the trace, counted by type
+}
+
+export interface ActionResult {
+  type: string;
+  entity: string;
+  input: Record<string, unknown>;
+}
+
+export type ActionHandler = (rule: Rule, context: RuleContext, now: Date) => ActionResult;
+
+export interface RuleEvaluation {
+  rule: Rule;
+  span_id: string;         // span that declares the rule
+  fired: boolean;
+  already_applied: boolean;
+  error?: string;
+  action?: Span;           // unsealed; appendToLedger hashes and signs it
+}
+
+const actionHandlers = new Map<string, ActionHandler>();
+
+export function registerAction(name: string, handler: ActionHandler): void {
+  actionHandlers.set(name, handler);
+}
+
+export function getActionHandler(name: string): ActionHandler | undefined {
+  return actionHandlers.get(name);
+}
+
+export function listActions(): string[] {
+  return [...actionHandlers.keys()];
+}
+
+function numberParam(params: Record<string, unknown>, key: string): number | undefined {
+  const value = params[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function firstString(input: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    if (typeof input[key] === 'string' && input[key]) return input[key] as string;
+  }
+  return null;
+}
+
+// Percent of the amount (or a fixed amount), plus monthly interest for each
+// started month after the deadline
+function penalty(rule: Rule, context: RuleContext, now: Date): ActionResult {
+  const params = context.params;
+  const percent = numberParam(params, 'percent') ?? numberParam(params, 'penalty_percent') ?? 0;
+  const monthlyInterest = numberParam(params, 'monthly_interest') ?? numberParam(params, 'interest_percent') ?? 0;
+  if (context.amount === null && (numberParam(params, 'amount') === undefined || monthlyInterest > 0)) {
+    throw new Error('O span que declara a regra não tem valor para calcular a penalidade.');
+  }
+  const base = context.amount ?? 0;
+  const monthsLate = context.deadline
+    ? Math.max(0, Math.ceil((now.getTime() - new Date(context.deadline).getTime()) / (30 * 86_400_000)))
+    : 0;
+
+  const fee = numberParam(params, 'amount') ?? base * percent / 100;
+  const interest = base * monthlyInterest / 100 * monthsLate;
+  return {
+    type: PENALTY_APPLIED_SPAN_TYPE,
+    entity: 'penalidade',
+    input: {
+      rule_id: rule.id,
+      reason: rule.description || rule.condition,
+      base_amount: base,
+      currency: context.currency ?? 'BRL',
+      percent,
+      monthly_interest: monthlyInterest,
+      months_late: monthsLate,
+      amount: Math.round((fee + interest) * 100) / 100
+    }
+  };
+}
+
+registerAction('apply_penalty', penalty);
+registerAction('apply_fee', penalty);
+
+registerAction('release_deliverable', (rule, context) => ({
+  type: DELIVERABLE_RELEASED_SPAN_TYPE,
+  entity: 'entrega',
+  input: {
+    rule_id: rule.id,
+    deliverable: context.params.deliverable ?? firstString(context.input, ['description', 'title']),
+    reason: rule.description || rule.condition
+  }
+}));
+
+registerAction('notify', (rule, context) => ({
+  type: NOTIFICATION_REQUESTED_SPAN_TYPE,
+  entity: 'notificacao',
+  input: {
+    rule_id: rule.id,
+    to: context.params.to ?? null,
+    message: context.params.message ?? rule.description ?? rule.condition
+  }
+}));
+
+// Whether the contract as a whole is paid. Payments can be partial, so with
+// obligations in reais it is paid only when nothing is outstanding; without
+// them, when the payments reach the contract amount (or, with no amount, when
+// any payment exists). A payment.confirmed span always confirms it.
+function contractPaymentStatus(spans: Span[], payments: Span[], paid: number, amount: number | null, now: Date): 'confirmed' | 'pending' {
+  if (payments.some(s => s.type === PAYMENT_CONFIRMED_SPAN_TYPE)) return 'confirmed';
+  const balance = contractBalance(spans, now);
+  if (balance.total_cents > 0) return balance.outstanding_cents === 0 ? 'confirmed' : 'pending';
+  if (payments.length === 0) return 'pending';
+  return amount === null || paid >= amount ? 'confirmed' : 'pending';
+}
+
+function amountOf(span: Span | undefined): number | null {
+  return typeof span?.body.input?.amount === 'number' ? span.body.input.amount : null;
+}
+
+function latest(spans: Span[], type: string): Span | undefined {
+  return spans.filter(s => s.type === type).sort((a, b) => b.started_at.localeCompare(a.started_at))[0];
+}
+
+export function buildRuleContext(
+  contract: Contract,
+  spans: Span[],
+  declaring: Span,
+  rule: Rule,
+  now: Date = new Date()
+): RuleContext {
+  const created = spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+  const inputs = [declaring, ...spans].map(s => (s.body.input ?? {}) as Record<string, unknown>);
+  const pick = <T>(read: (input: Record<string, unknown>) => T | null): T | null => {
+    for (const input of inputs) {
+      const value = read(input);
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  const obligation = declaring.type === OBLIGATION_REGISTERED_SPAN_TYPE
+    ? listObligations(spans, now).find(o => o.id === declaring.id)
+    : undefined;
+  const payments = spans.filter(s =>
+    (s.type === PAYMENT_CONFIRMED_SPAN_TYPE || s.type === PAYMENT_RECORDED_SPAN_TYPE) &&
+    (!obligation || s.parent_id === obligation.id)
+  );
+  const delivered = latest(spans, DELIVERY_SUBMITTED_SPAN_TYPE);
+  const approved = latest(spans, DELIVERY_APPROVED_SPAN_TYPE);
+  // The base is the declaring span's own value, never another span's
+  const amount = obligation && obligation.amount_cents !== null ? obligation.amount_cents / 100 : amountOf(declaring);
+  const paid = payments.reduce((sum, s) => sum + (typeof s.body.input?.amount === 'number' ? s.body.input.amount : 0), 0);
+
+  return {
+    contract: {
+      id: contract.id,
+      title: contract.title,
+      status: contractStatus(spans),
+      created_at: contract.created_at,
+      parties: contract.parties.map(p => ({ name: p.name, role: p.role })),
+      signed: getSigningStatus(contract, created).satisfied
+    },
+    amount,
+    currency: pick(input => firstString(input, ['currency'])),
+    deadline: pick(input => firstString(input, ['deadline', 'due_date'])),
+    payment: obligation ? {
+      status: obligation.status === 'paid' ? 'confirmed' : 'pending',
+      confirmed_at: payments.map(s => s.started_at).sort().pop() ?? null,
+      amount_paid: obligation.paid_cents / 100
+    } : {
+      status: contractPaymentStatus(spans, payments, paid, amountOf(created), now),
+      confirmed_at: payments.map(s => s.started_at).sort().pop() ?? null,
+      amount_paid: paid
+    },
+    obligation: obligation ? {
+      status: obligation.status,
+      amount: obligation.amount_cents === null ? null : obligation.amount_cents / 100,
+      paid: obligation.paid_cents / 100,
+      outstanding: outstandingCents(obligation) / 100
+    } : null,
+    delivery: {
+      status: approved ? 'approved' : delivered ? 'delivered' : 'pending',
+      delivered_at: delivered?.started_at ?? null,
+      approved_at: approved?.started_at ?? null
+    },
+    input: (declaring.body.input ?? {}) as Record<string, unknown>,
+    params: rule.parameters ?? {},
+    spans: spans.reduce<Record<string, number>>((counts, s) => ({ ...counts, [s.type]: (counts[s.type] || 0) + 1 }), {})
+  };
+}
+
+function actionSpan(contract: Contract, declaring: Span, result: ActionResult, now: Date): Span {
+  return {
+    id: generateId(),
+    trace_id: contract.id,
+    parent_id: declaring.id,
+    type: result.type,
+    entity: result.entity,
+    body: {
+      action: 'apply_rule',
+      input: result.input
+    },
+    started_at: now.toISOString(),
+    completed_at: now.toISOString(),
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  };
+}
+
+// Pure evaluation over a trace; nothing is written
+export function evaluateRules(contract: Contract, spans: Span[], now: Date = new Date()): RuleEvaluation[] {
+  const evaluations: RuleEvaluation[] = [];
+
+  for (const declaring of spans) {
+    for (const rule of declaring.body.rules ?? []) {
+      const evaluation: RuleEvaluation = { rule, span_id: declaring.id, fired: false, already_applied: false };
+      evaluations.push(evaluation);
+
+      evaluation.already_applied = spans.some(s => s.parent_id === declaring.id && s.body.input?.rule_id === rule.id);
+
+      try {
+        const context = buildRuleContext(contract, spans, declaring, rule, now);
+        evaluation.fired = evaluateCondition(rule.condition, context as unknown as Record<string, ExprValue>, { now });
+        if (!evaluation.fired || evaluation.already_applied) continue;
+
+        const handler = actionHandlers.get(rule.action);
+        if (!handler) {
+          evaluation.error = `Ação desconhecida: ${rule.action}`;
+          continue;
+        }
+        evaluation.action = actionSpan(contract, declaring, handler(rule, context, now), now);
+      } catch (err) {
+        evaluation.error = err instanceof Error ? err.message : String(err);
+      }
+    }
+  }
+
+  return evaluations;
+}
+
+export async function evaluateContract(contractId: string, now: Date = new Date()): Promise<RuleEvaluation[]> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error('Contrato não encontrado.');
+  }
+  return evaluateRules(contract, await queryLedger({ trace_id: contractId }), now);
+}
+
+// Evaluate and record the action spans of the rules that fired; the ledger
+// projects them into the contract record
+export async function applyContractRules(contractId: string, now: Date = new Date()): Promise<RuleEvaluation[]> {
+  const evaluations = await evaluateContract(contractId, now);
+  const actions = evaluations.flatMap(e => e.action ? [e.action] : []);
+  if (actions.length === 0) return evaluations;
+
+  for (const span of actions) {
+    await appendToLedger(span);
+  }
+  return evaluations;
+}
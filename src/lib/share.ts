@@ -0,0 +1,156 @@
+// Export a contract as a .minicontrato bundle, and import one received from a
+// counterparty after verifying it against the local ledger.
+import type { Contract, KeyProvenance, SignerKey, Span } from '../types';
+import {
+  getContract,
+  getCurrentUser,
+  getSignerKeys,
+  mergeContractBundle,
+  queryLedger,
+  readLedgerSnapshot
+} from './db';
+import {
+  createBundle,
+  identityTraceIds,
+  parseBundle,
+  spanSigners,
+  verifyBundle,
+  BUNDLE_EXTENSION,
+  type BundleKey,
+  type BundleVerification
+} from './bundle';
+import { normalizePublicKey } from './keys';
+import { buildKeyTimeline } from './rotation';
+import { LifecycleError } from './lifecycle';
+import type { PublicKeyResolver } from './verify';
+
+export interface BundleImportResult extends BundleVerification {
+  merged: boolean;
+  keys_added: SignerKey[];
+  contract?: Contract;
+}
+
+export function bundleFilename(contract: Contract): string {
+  const slug = contract.title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'contrato'}-${contract.id.slice(0, 8)}${BUNDLE_EXTENSION}`;
+}
+
+function byStartTime(a: Span, b: Span): number {
+  return a.started_at.localeCompare(b.started_at);
+}
+
+export async function exportContractBundle(contractId: string): Promise<Blob> {
+  const contract = await getContract(contractId);
+  if (!contract) {
+    throw new Error('Contrato não encontrado.');
+  }
+
+  const contractSpans = await queryLedger({ trace_id: contractId });
+  const signers = spanSigners(contractSpans);
+
+  // Identity spans let the receiver follow key rotations and revocations
+  const identitySpans: Span[] = [];
+  const keys: BundleKey[] = [];
+  for (const signerId of signers) {
+    for (const traceId of identityTraceIds(signerId)) {
+      identitySpans.push(...(await queryLedger({ trace_id: traceId })));
+    }
+    for (const key of await getSignerKeys(signerId)) {
+      keys.push({ signer_id: key.signer_id, fingerprint: key.fingerprint, public_key: key.public_key });
+    }
+  }
+
+  const user = await getCurrentUser();
+  const bundle = createBundle({
+    contract,
+    spans: [...identitySpans, ...contractSpans].sort(byStartTime),
+    keys,
+    exported_by: user?.id
+  });
+
+  return new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+}
+
+// Verify a bundle and, if every span passes, merge it into the local ledger.
+// Signers already in the key directory are checked against their local keys
+// only; the bundle's keys are used just for signers seen for the first time.
+export async function importContractBundle(text: string): Promise<BundleImportResult> {
+  const bundle = parseBundle(text);
+  const snapshot = await readLedgerSnapshot();
+
+  const localKeys = (signerId: string) => snapshot.keys.filter(k => k.signer_id === signerId);
+  const resolver: PublicKeyResolver = async (signerId) => {
+    const local = localKeys(signerId);
+    return local.length > 0
+      ? local.map(k => k.public_key)
+      : bundle.keys.filter(k => k.signer_id === signerId).map(k => k.public_key);
+  };
+
+  const report = await verifyBundle(bundle, resolver, snapshot.spans);
+  const result: BundleImportResult = { ...report, merged: false, keys_added: [] };
+  if (!report.valid) {
+    return result;
+  }
+
+  // Keys to remember: first-seen signers, plus keys reached through verified rotations
+  const timeline = await buildKeyTimeline([...snapshot.spans, ...bundle.spans], resolver, snapshot.chain);
+  const cosigners = new Set(bundle.spans.flatMap(s => (s.signatures || []).map(sig => sig.signer_id)));
+  for (const key of bundle.keys) {
+    if (snapshot.keys.some(k => k.fingerprint === key.fingerprint)) continue;
+    if (!timeline.get(key.signer_id)?.some(c => c.fingerprint === key.fingerprint)) continue;
+
+    if (localKeys(key.signer_id).length === 0) {
+      result.warnings.push(
+        `Chave de ${key.signer_id} recebida pela primeira vez neste pacote. ` +
+        `Confirme a impressão digital ${key.fingerprint} com a outra parte.`
+      );
+    }
+    const provenance: KeyProvenance = cosigners.has(key.signer_id) ? 'countersigned' : 'imported';
+    result.keys_added.push({
+      fingerprint: key.fingerprint,
+      signer_id: key.signer_id,
+      public_key: await normalizePublicKey(key.public_key),
+      provenance,
+      added_at: new Date().toISOString()
+    });
+  }
+
+  const outcome = new Map(report.spans.map(s => [s.span_id, s]));
+  const newSpans = bundle.spans
+    .filter(s => outcome.get(s.id)?.status === 'accepted')
+    .map(s => {
+      const verified = outcome.get(s.id)!.new_signatures;
+      return { ...s, signatures: verified.length > 0 ? verified : undefined };
+    })
+    .sort(byStartTime);
+  const signatures = report.spans
+    .filter(s => s.status === 'updated')
+    .map(s => ({ span_id: s.span_id, signatures: s.new_signatures }));
+
+  // Party bindings come from the signatures on contract.created and the
+  // status from the transitions in the merged trace, not from the
+  // exporter's record. A transition the local guards refuse rejects the bundle.
+  let contracts: Contract[];
+  try {
+    contracts = await mergeContractBundle({
+      spans: newSpans,
+      signatures,
+      keys: result.keys_added
+    });
+  } catch (err) {
+    if (!(err instanceof LifecycleError)) throw err;
+    result.errors.push(`Transição ${err.transition} recusada: ${err.message}`);
+    result.valid = false;
+    result.keys_added = [];
+    return result;
+  }
+  result.contract = contracts.find(c => c.id === bundle.contract.id);
+
+  result.merged = true;
+  return result;
+}
@@ -0,0 +1,96 @@
+import type { Contract, Span, SpanSignature } from '../types';
+import { addSpanSignature, appendToLedger, getContract, getIdentity, queryLedger } from './db';
+import { generateId, signSpan, SPAN_VERSION } from './crypto';
+import { getSigningStatus, CONTRACT_CREATED_SPAN_TYPE, type SigningStatus } from './quorum';
+import { contractStatus, getTransition, LifecycleError, CONTRACT_ACTIVATED_SPAN_TYPE } from './lifecycle';
+
+export async function getContractSpan(contractId: string): Promise<Span | undefined> {
+  const spans = await queryLedger({ trace_id: contractId });
+  return spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE);
+}
+
+// Sign the contract as one of its parties with the local identity. The party
+// becomes bound to this signer, and the contract leaves the draft once its
+// signing policy is satisfied: the last required signature activates it.
+export async function signContract(contractId: string, partyName: string): Promise<SigningStatus> {
+  const [contract, identity, span] = await Promise.all([
+    getContract(contractId),
+    getIdentity(),
+    getContractSpan(contractId)
+  ]);
+  
+  if (!contract || !span) {
+    throw new Error('Contrato não encontrado.');
+  }
+  if (!identity) {
+    throw new Error('Identidade local não encontrada.');
+  }
+  
+  const party = contract.parties.find(p => p.name === partyName);
+  if (!party) {
+    throw new Error(`${partyName} não é parte deste contrato.`);
+  }
+  if (party.id && party.id !== identity.user_id) {
+    throw new Error(`${partyName} está vinculado a outro assinante.`);
+  }
+  const bound = contract.parties.find(p => p.id === identity.user_id && p.name !== party.name);
+  if (bound) {
+    throw new Error(`Você já assina este contrato como ${bound.name}.`);
+  }
+  
+  const signature: SpanSignature = {
+    signature: await signSpan(span, identity.private_key_handle),
+    domain: 'minicontratos.local',
+    timestamp: new Date().toISOString(),
+    signer_id: identity.user_id,
+    party: party.name
+  };
+  const signedSpan = await addSpanSignature(span.id, signature);
+  
+  // The ledger has bound the party to this signer in the contract record
+  const updated = (await getContract(contractId))!;
+  const status = getSigningStatus(updated, signedSpan);
+  if (status.satisfied && updated.status === 'draft') {
+    await transitionContract(contractId, CONTRACT_ACTIVATED_SPAN_TYPE);
+  }
+  
+  return status;
+}
+
+// Record a lifecycle transition. The ledger refuses it when its guard fails,
+// and projects the new status into the contract record.
+export async function transitionContract(contractId: string, type: string, reason?: string): Promise<Contract> {
+  const transition = getTransition(type);
+  if (!transition) {
+    throw new LifecycleError(type, `Transição desconhecida: ${type}`);
+  }
+  
+  const [contract, spans] = await Promise.all([
+    getContract(contractId),
+    queryLedger({ trace_id: contractId })
+  ]);
+  if (!contract) {
+    throw new Error('Contrato não encontrado.');
+  }
+  
+  const now = new Date().toISOString();
+  await appendToLedger({
+    id: generateId(),
+    trace_id: contractId,
+    parent_id: spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE)?.id,
+    type: transition.type,
+    entity: 'minicontrato',
+    body: {
+      action: transition.action,
+      input: { from: contractStatus(spans), to: transition.to, ...(reason && { reason }) }
+    },
+    started_at: now,
+    completed_at: now,
+    this: {
+      hash: '',
+      version: SPAN_VERSION
+    }
+  });
+  
+  return (await getContract(contractId))!;
+}
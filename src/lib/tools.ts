@@ -0,0 +1,190 @@
+// Tools the assistant can call during a conversation. Read tools answer from
+// the local ledger; propose tools never write: their input goes back to the
+// user, who confirms it before anything is appended.
+import type { Contract, Span } from '../types';
+import { getAllContracts, getContract, queryLedger } from './db';
+import { extractSpansFromValue } from './extract';
+
+export type ToolKind = 'read' | 'propose';
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  kind: ToolKind;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  run(input: Record<string, unknown>): Promise<unknown>;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  kind: ToolKind;
+  input: Record<string, unknown>;
+  result: unknown;
+}
+
+const MAX_SPANS = 50;
+const DEFAULT_SPANS = 20;
+
+function summarizeContract(contract: Contract) {
+  return {
+    id: contract.id,
+    title: contract.title,
+    status: contract.status,
+    parties: contract.parties.map(p => ({ name: p.name, role: p.role })),
+    signing_policy: contract.signing_policy,
+    created_at: contract.created_at,
+    last_updated: contract.last_updated,
+    span_count: contract.spans.length
+  };
+}
+
+// Hashes and signatures are left out: the model cannot check them and they
+// only cost tokens
+function summarizeSpan(span: Span) {
+  return {
+    id: span.id,
+    trace_id: span.trace_id,
+    parent_id: span.parent_id,
+    type: span.type,
+    entity: span.entity,
+    body: span.body,
+    started_at: span.started_at,
+    signed_by: [
+      ...(span.confirmed_by ? [span.confirmed_by.signer_id] : []),
+      ...(span.signatures || []).map(s => `${s.party} (${s.signer_id})`)
+    ]
+  };
+}
+
+function stringInput(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export const LEDGER_TOOLS: LLMTool[] = [
+  {
+    name: 'list_contracts',
+    description: 'Lista os contratos do usuário com status, partes e datas.',
+    kind: 'read',
+    input_schema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['draft', 'active', 'completed', 'cancelled'],
+          description: 'Filtra por status'
+        }
+      }
+    },
+    async run(input) {
+      const status = stringInput(input, 'status');
+      const contracts = await getAllContracts();
+      return contracts
+        .filter(c => !status || c.status === status)
+        .map(summarizeContract);
+    }
+  },
+  {
+    name: 'get_contract',
+    description: 'Retorna um contrato e todos os spans do seu trace no ledger.',
+    kind: 'read',
+    input_schema: {
+      type: 'object',
+      properties: {
+        contract_id: { type: 'string', description: 'id do contrato (igual ao trace_id)' }
+      },
+      required: ['contract_id']
+    },
+    async run(input) {
+      const id = stringInput(input, 'contract_id');
+      const contract = id ? await getContract(id) : undefined;
+      if (!contract) {
+        return { error: `Contrato não encontrado: ${id}` };
+      }
+      const spans = await queryLedger({ trace_id: contract.id });
+      return { contract: summarizeContract(contract), spans: spans.map(summarizeSpan) };
+    }
+  },
+  {
+    name: 'query_ledger',
+    description: 'Busca spans no ledger local por tipo, trace ou intervalo de datas (ISO 8601).',
+    kind: 'read',
+    input_schema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'ex: contract.created, obligation.registered' },
+        trace_id: { type: 'string' },
+        from: { type: 'string', description: 'started_at mínimo' },
+        to: { type: 'string', description: 'started_at máximo' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_SPANS }
+      }
+    },
+    async run(input) {
+      const type = stringInput(input, 'type');
+      const limit = typeof input.limit === 'number'
+        ? Math.min(Math.max(1, Math.floor(input.limit)), MAX_SPANS)
+        : DEFAULT_SPANS;
+
+      const spans = await queryLedger({
+        trace_id: stringInput(input, 'trace_id'),
+        type,
+        from: stringInput(input, 'from'),
+        to: stringInput(input, 'to')
+      });
+      // queryLedger ignores type once trace_id picks the index
+      return spans
+        .filter(s => !type || s.type === type)
+        .slice(0, limit)
+        .map(summarizeSpan);
+    }
+  },
+  {
+    name: 'propose_spans',
+    description:
+      'Propõe os Spans de um novo contrato. Nada é gravado: o usuário revisa a prévia e confirma. ' +
+      'Corrija e chame de novo se o resultado trouxer erros.',
+    kind: 'propose',
+    input_schema: {
+      type: 'object',
+      properties: {
+        spans: {
+          type: 'array',
+          description: 'Spans com type, entity e body (action, input, rules); exatamente um contract.created',
+          items: { type: 'object' }
+        }
+      },
+      required: ['spans']
+    },
+    async run(input) {
+      const extraction = extractSpansFromValue(input);
+      return {
+        status: extraction.valid ? 'aguardando confirmação do usuário' : 'inválido',
+        errors: extraction.errors.map(e => `${e.path}: ${e.message}`),
+        warnings: extraction.warnings.map(w => `${w.path}: ${w.message}`)
+      };
+    }
+  }
+];
+
+// Failures go back to the model as a result instead of ending the turn
+export async function runTool(
+  tools: LLMTool[],
+  name: string,
+  input: Record<string, unknown>
+): Promise<ToolCallRecord> {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) {
+    return { name, kind: 'read', input, result: { error: `Ferramenta desconhecida: ${name}` } };
+  }
+
+  try {
+    return { name, kind: tool.kind, input, result: await tool.run(input) };
+  } catch (err) {
+    console.error(`Tool ${name} failed:`, err);
+    return { name, kind: tool.kind, input, result: { error: err instanceof Error ? err.message : String(err) } };
+  }
+}
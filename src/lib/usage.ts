@@ -0,0 +1,193 @@
+// Token usage and estimated cost. Usage is stored on the llm.responded span
+// of each turn, so totals per contract and per month come from the ledger;
+// prices and the monthly budget are settings.
+import type { LLMConfig, ModelPrice, Span, TokenUsage, UsageSettings } from '../types';
+import { getUsageSettings, queryLedger, saveUsageSettings } from './db';
+import { getProvider } from './providers';
+import { LLM_RESPONDED_SPAN_TYPE } from './conversation';
+
+// One conversation turn: the sum of its provider calls (tool rounds included)
+export interface CallUsage extends TokenUsage {
+  calls: number;
+  cost?: number; // USD; absent when the model has no price
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number;
+  unpriced: number; // turns whose cost is unknown
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  by_month: Record<string, UsageTotals>; // YYYY-MM
+  by_trace: Record<string, UsageTotals & { last_used: string }>;
+}
+
+export interface BudgetCheck {
+  budget: number;
+  spent: number;
+  estimated: number;
+  exceeded: boolean;
+}
+
+// USD per million tokens, matched by the longest prefix of the model name
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+// Rough count for budget checks before the provider has answered
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export async function loadUsageSettings(userId: string): Promise<UsageSettings> {
+  const settings = await getUsageSettings(userId);
+  return {
+    user_id: userId,
+    prices: settings?.prices ?? DEFAULT_PRICES,
+    monthly_budget: settings?.monthly_budget,
+    updated_at: settings?.updated_at ?? new Date().toISOString()
+  };
+}
+
+export async function updateUsageSettings(
+  userId: string,
+  update: { prices: Record<string, ModelPrice>; monthly_budget?: number }
+): Promise<void> {
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries(update.prices)) {
+    if (!model.trim()) {
+      throw new Error('Informe o modelo de cada preço.');
+    }
+    if (!(price.input >= 0) || !(price.output >= 0)) {
+      throw new Error(`Preço inválido para ${model}.`);
+    }
+    prices[model.trim()] = price;
+  }
+  if (update.monthly_budget !== undefined && !(update.monthly_budget > 0)) {
+    throw new Error('O orçamento mensal precisa ser maior que zero.');
+  }
+
+  await saveUsageSettings({
+    user_id: userId,
+    prices,
+    ...(update.monthly_budget !== undefined && { monthly_budget: update.monthly_budget }),
+    updated_at: new Date().toISOString()
+  });
+}
+
+export function findPrice(prices: Record<string, ModelPrice>, model: string): ModelPrice | undefined {
+  const match = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match !== undefined ? prices[match] : undefined;
+}
+
+// Models run without an api key (Ollama) cost nothing
+export function estimateCost(
+  config: LLMConfig,
+  usage: TokenUsage,
+  prices: Record<string, ModelPrice>
+): number | undefined {
+  if (getProvider(config.provider).apiKey === 'none') return 0;
+  const price = findPrice(prices, config.model);
+  if (!price) return undefined;
+  return (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000;
+}
+
+export async function priceUsage(userId: string, config: LLMConfig, rounds: TokenUsage[]): Promise<CallUsage> {
+  const usage: TokenUsage = {
+    input_tokens: rounds.reduce((sum, r) => sum + r.input_tokens, 0),
+    output_tokens: rounds.reduce((sum, r) => sum + r.output_tokens, 0)
+  };
+  const { prices } = await loadUsageSettings(userId);
+  const cost = estimateCost(config, usage, prices);
+  return { ...usage, calls: rounds.length, ...(cost !== undefined && { cost }) };
+}
+
+export function monthKey(date: string): string {
+  return date.slice(0, 7);
+}
+
+function emptyTotals(): UsageTotals {
+  return { input_tokens: 0, output_tokens: 0, calls: 0, cost: 0, unpriced: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: CallUsage): void {
+  totals.input_tokens += usage.input_tokens;
+  totals.output_tokens += usage.output_tokens;
+  totals.calls += usage.calls;
+  if (usage.cost !== undefined) {
+    totals.cost += usage.cost;
+  } else {
+    totals.unpriced++;
+  }
+}
+
+export function summarizeUsage(spans: Span[]): UsageSummary {
+  const summary: UsageSummary = { total: emptyTotals(), by_month: {}, by_trace: {} };
+
+  for (const span of spans) {
+    const usage: CallUsage | undefined = span.body.metadata?.usage;
+    if (span.type !== LLM_RESPONDED_SPAN_TYPE || !usage) continue;
+
+    const when = span.completed_at || span.started_at;
+    const month = monthKey(when);
+    summary.by_month[month] ??= emptyTotals();
+    summary.by_trace[span.trace_id] ??= { ...emptyTotals(), last_used: when };
+
+    addUsage(summary.total, usage);
+    addUsage(summary.by_month[month], usage);
+    addUsage(summary.by_trace[span.trace_id], usage);
+    if (when > summary.by_trace[span.trace_id].last_used) {
+      summary.by_trace[span.trace_id].last_used = when;
+    }
+  }
+
+  return summary;
+}
+
+export async function getUsageSummary(): Promise<UsageSummary> {
+  return summarizeUsage(await queryLedger({ type: LLM_RESPONDED_SPAN_TYPE }));
+}
+
+// Null without a budget. The estimate assumes the whole answer uses
+// max_tokens, so the warning comes before the limit, never after it.
+export async function checkBudget(userId: string, config: LLMConfig, estimate: TokenUsage): Promise<BudgetCheck | null> {
+  const settings = await loadUsageSettings(userId);
+  if (settings.monthly_budget === undefined) return null;
+
+  const { by_month } = await getUsageSummary();
+  const spent = by_month[monthKey(new Date().toISOString())]?.cost ?? 0;
+  const estimated = estimateCost(config, estimate, settings.prices) ?? 0;
+  return {
+    budget: settings.monthly_budget,
+    spent,
+    estimated,
+    exceeded: spent + estimated > settings.monthly_budget
+  };
+}
+
+export function formatUSD(value: number): string {
+  return value.toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 0.01 ? 4 : 2
+  });
+}
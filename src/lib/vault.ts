@@ -0,0 +1,214 @@
+// Credentials vault: API keys are encrypted with a key derived from the unlock
+// passphrase. The derived key lives only in memory, so the app starts locked
+// and locks again after Session.last_activity is older than the auto-lock time.
+import type { Credential, Session, VaultConfig } from '../types';
+import {
+  getAllCredentials,
+  getCurrentSession,
+  getVaultConfig,
+  saveCredential,
+  saveSession,
+  saveVaultConfig
+} from './db';
+import {
+  decryptApiKey,
+  decryptWithKey,
+  derivePassphraseKey,
+  encryptWithKey
+} from './crypto';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const VAULT_ITERATIONS = 600000;
+const VAULT_CHECK = 'minicontratos-vault';
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('O app está bloqueado. Desbloqueie para continuar.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+let vaultKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+export function isVaultUnlocked(): boolean {
+  return vaultKey !== null;
+}
+
+// Subscribe to lock/unlock; returns the unsubscribe function
+export function onVaultChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function setVaultKey(key: CryptoKey | null): void {
+  vaultKey = key;
+  listeners.forEach(listener => listener());
+}
+
+export function checkPassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`A senha precisa ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+  }
+}
+
+async function deriveVaultKey(passphrase: string, config: VaultConfig): Promise<CryptoKey> {
+  return await derivePassphraseKey(
+    passphrase,
+    new Uint8Array(hexToBytes(config.kdf.salt)),
+    config.kdf.iterations
+  );
+}
+
+async function newVaultConfig(
+  passphrase: string,
+  autoLockMinutes: number
+): Promise<{ config: VaultConfig; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePassphraseKey(passphrase, salt, VAULT_ITERATIONS);
+
+  const config: VaultConfig = {
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: VAULT_ITERATIONS, salt: bytesToHex(salt) },
+    check: await encryptWithKey(VAULT_CHECK, key),
+    auto_lock_minutes: autoLockMinutes,
+    created_at: new Date().toISOString()
+  };
+
+  return { config, key };
+}
+
+// Decrypt a stored API key. Credentials saved before the vault existed are
+// still readable with the legacy user-id key until they are migrated.
+export async function readApiKey(credential: Credential): Promise<string> {
+  if (credential.encryption !== 'vault') {
+    return await decryptApiKey(credential.encrypted_key, credential.user_id);
+  }
+  if (!vaultKey) {
+    throw new VaultLockedError();
+  }
+  return await decryptWithKey(credential.encrypted_key, vaultKey);
+}
+
+export async function sealApiKey(apiKey: string): Promise<Pick<Credential, 'encrypted_key' | 'encryption'>> {
+  if (!vaultKey) {
+    throw new VaultLockedError();
+  }
+  return { encrypted_key: await encryptWithKey(apiKey, vaultKey), encryption: 'vault' };
+}
+
+// Create the vault and move every credential into it. Used on registration
+// and to protect credentials created before the vault existed.
+export async function createVault(passphrase: string): Promise<void> {
+  checkPassphrase(passphrase);
+  if (await getVaultConfig()) {
+    throw new Error('O cofre já foi configurado.');
+  }
+
+  const { config, key } = await newVaultConfig(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+
+  const credentials = await getAllCredentials();
+  const migrated: Credential[] = [];
+  for (const credential of credentials) {
+    const apiKey = await readApiKey(credential);
+    migrated.push({ ...credential, encrypted_key: await encryptWithKey(apiKey, key), encryption: 'vault' });
+  }
+
+  await saveVaultConfig(config);
+  for (const credential of migrated) {
+    await saveCredential(credential);
+  }
+
+  await touchSession();
+  setVaultKey(key);
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const config = await getVaultConfig();
+  if (!config) {
+    throw new Error('Nenhum cofre configurado.');
+  }
+
+  const key = await deriveVaultKey(passphrase, config);
+  try {
+    await decryptWithKey(config.check, key);
+  } catch {
+    throw new Error('Senha incorreta.');
+  }
+
+  await touchSession();
+  setVaultKey(key);
+}
+
+export function lockVault(): void {
+  setVaultKey(null);
+}
+
+// Re-encrypt every credential under a key derived from the new passphrase
+export async function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  checkPassphrase(next);
+  const config = await getVaultConfig();
+  if (!config) {
+    throw new Error('Nenhum cofre configurado.');
+  }
+
+  const currentKey = await deriveVaultKey(current, config);
+  try {
+    await decryptWithKey(config.check, currentKey);
+  } catch {
+    throw new Error('Senha atual incorreta.');
+  }
+
+  const { config: updated, key } = await newVaultConfig(next, config.auto_lock_minutes);
+
+  const credentials: Credential[] = [];
+  for (const credential of await getAllCredentials()) {
+    const apiKey = credential.encryption === 'vault'
+      ? await decryptWithKey(credential.encrypted_key, currentKey)
+      : await decryptApiKey(credential.encrypted_key, credential.user_id);
+    credentials.push({ ...credential, encrypted_key: await encryptWithKey(apiKey, key), encryption: 'vault' });
+  }
+
+  await saveVaultConfig({ ...updated, created_at: config.created_at });
+  for (const credential of credentials) {
+    await saveCredential(credential);
+  }
+
+  setVaultKey(key);
+}
+
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  const config = await getVaultConfig();
+  if (!config) {
+    throw new Error('Nenhum cofre configurado.');
+  }
+  await saveVaultConfig({ ...config, auto_lock_minutes: minutes });
+}
+
+// Record user activity on the current session
+export async function touchSession(): Promise<void> {
+  const session = await getCurrentSession();
+  if (session) {
+    await saveSession({ ...session, last_activity: new Date().toISOString() });
+  }
+}
+
+export function isSessionIdle(session: Session, config: VaultConfig, now: number = Date.now()): boolean {
+  return now - new Date(session.last_activity).getTime() > config.auto_lock_minutes * 60 * 1000;
+}
+
+// Lock the vault if the session has been idle for longer than allowed
+export async function lockIfIdle(): Promise<boolean> {
+  if (!vaultKey) return false;
+
+  const [session, config] = await Promise.all([getCurrentSession(), getVaultConfig()]);
+  if (session && config && isSessionIdle(session, config)) {
+    lockVault();
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,153 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { LedgerEntry, Span } from '../types';
+import { calculateEntryHash, calculateSpanHash, generateKeyPair, signSpan, SPAN_VERSION } from './crypto';
+import { entryShapeError, spanShapeError, verifySpans, type PublicKeyResolver } from './verify';
+
+let keys: CryptoKeyPair;
+let publicKey: JsonWebKey;
+const resolver: PublicKeyResolver = async (signerId) => signerId === 'joao' ? [publicKey] : [];
+
+// Sealed like appendToLedger seals: linked to prev, hashed, signed by joao
+async function appended(id: string, type: string, prev?: Span): Promise<Span> {
+  const span: Span = {
+    id,
+    trace_id: 'contract-1',
+    ...(prev && { parent_id: prev.id }),
+    type,
+    entity: 'minicontrato',
+    body: { action: type, input: { title: 'Venda' } },
+    started_at: '2026-01-01T00:00:00.000Z',
+    this: { hash: '', version: SPAN_VERSION, ...(prev && { prev_hash: prev.this.hash }) }
+  };
+  span.this.hash = await calculateSpanHash(span);
+  span.confirmed_by = {
+    signature: await signSpan(span, keys.privateKey),
+    domain: 'minicontratos.local',
+    timestamp: span.started_at,
+    signer_id: 'joao'
+  };
+  return span;
+}
+
+function chainOf(spans: Span[]): LedgerEntry[] {
+  let prev: string | null = null;
+  return spans.map((span, idx) => {
+    const entry = { seq: idx + 1, span_id: span.id, span_hash: span.this.hash, prev };
+    prev = calculateEntryHash(entry);
+    return { ...entry, hash: prev };
+  });
+}
+
+async function trace(): Promise<Span[]> {
+  const created = await appended('s1', 'contract.created');
+  return [created, await appended('s2', 'obligation.registered', created)];
+}
+
+beforeAll(async () => {
+  keys = await generateKeyPair();
+  const { kty, crv, x } = await crypto.subtle.exportKey('jwk', keys.publicKey);
+  publicKey = { kty, crv, x };
+});
+
+describe('verifySpans', () => {
+  it('accepts a signed, chained trace', async () => {
+    const spans = await trace();
+    const report = await verifySpans(spans, resolver, chainOf(spans));
+    expect(report.valid).toBe(true);
+    expect(report.chain).toMatchObject({ valid: true, length: 2 });
+    expect(report.spans[1]).toMatchObject({ hash: 'valid', signature: 'valid', parent: 'valid', link: 'valid' });
+  });
+
+  it('detects a span altered after it was signed', async () => {
+    const spans = await trace();
+    spans[1].body.input = { title: 'Outro' };
+    const report = await verifySpans(spans, resolver, chainOf(spans));
+    expect(report.valid).toBe(false);
+    expect(report.spans[1].hash).toBe('invalid');
+  });
+
+  it('detects a signature from another key', async () => {
+    const spans = await trace();
+    const other = await generateKeyPair();
+    spans[0].confirmed_by!.signature = await signSpan(spans[0], other.privateKey);
+    const report = await verifySpans(spans, resolver);
+    expect(report.spans[0].signature).toBe('invalid');
+  });
+
+  it('detects a signature stripped from a span', async () => {
+    const spans = await trace();
+    delete spans[1].confirmed_by;
+    const report = await verifySpans(spans, resolver, chainOf(spans));
+    expect(report.valid).toBe(false);
+    expect(report.spans[1]).toMatchObject({ hash: 'valid', signature: 'unsigned', errors: ['Span sem assinatura'] });
+  });
+
+  it('reports signers without a known key', async () => {
+    const spans = await trace();
+    spans[0].confirmed_by!.signer_id = 'stranger';
+    const report = await verifySpans(spans, resolver);
+    expect(report.spans[0].signature).toBe('unknown_signer');
+    expect(report.unknown_signers).toEqual(['stranger']);
+  });
+
+  it('detects a removed span through the trace links and the chain', async () => {
+    const spans = await trace();
+    const report = await verifySpans(spans.slice(1), resolver, chainOf(spans));
+    expect(report.spans[0].link).toBe('broken');
+    expect(report.chain?.errors).toContain('Span s1 (posição 1) removido do ledger');
+  });
+
+  it('detects a chain cut short', async () => {
+    const spans = await trace();
+    const report = await verifySpans(spans, resolver, chainOf(spans).slice(0, 1));
+    expect(report.valid).toBe(false);
+    expect(report.chain?.errors).toContain('Span s2 não faz parte da cadeia do ledger');
+  });
+});
+
+describe('signing quorum', () => {
+  async function contract(parties: object[]): Promise<Span> {
+    const span = await appended('c1', 'contract.created');
+    span.body.input = { title: 'Venda', parties };
+    span.this.hash = await calculateSpanHash(span);
+    span.confirmed_by!.signature = await signSpan(span, keys.privateKey);
+    span.signatures = [{
+      signature: await signSpan(span, keys.privateKey),
+      domain: 'minicontratos.local',
+      timestamp: span.started_at,
+      signer_id: 'joao',
+      party: 'João'
+    }];
+    return span;
+  }
+
+  it('counts valid party signatures', async () => {
+    const [result] = (await verifySpans([await contract([{ name: 'João', role: 'vendedor' }])], resolver)).spans;
+    expect(result.quorum).toEqual({ required: 1, signed: ['João'], pending: [], satisfied: true });
+  });
+
+  it('does not count a signer for a party bound to someone else', async () => {
+    const [result] = (await verifySpans([await contract([{ name: 'João', role: 'vendedor', id: 'maria' }])], resolver)).spans;
+    expect(result.cosignatures[0].status).toBe('valid');
+    expect(result.quorum).toMatchObject({ signed: [], pending: ['João'], satisfied: false });
+  });
+});
+
+describe('input shape', () => {
+  it('describes what is wrong with a span read from a file', async () => {
+    const [span] = await trace();
+    expect(spanShapeError(span)).toBeUndefined();
+    expect(spanShapeError([])).toBe('não é um objeto');
+    expect(spanShapeError({ ...span, id: 1 })).toBe('campo "id" ausente ou não é texto');
+    expect(spanShapeError({ ...span, this: {} })).toBe('campo "this.hash" ausente');
+    expect(spanShapeError({ ...span, confirmed_by: 'x' })).toBe('campo "confirmed_by" malformado');
+    expect(spanShapeError({ ...span, signatures: [{ signer_id: 'joao' }] })).toBe('campo "signatures" malformado');
+  });
+
+  it('describes what is wrong with a chain entry', async () => {
+    const [entry] = chainOf(await trace());
+    expect(entryShapeError(entry)).toBeUndefined();
+    expect(entryShapeError({ ...entry, seq: '1' })).toBe('campo "seq" ausente ou não é número');
+    expect(entryShapeError({ ...entry, prev: 3 })).toBe('campo "prev" malformado');
+  });
+});
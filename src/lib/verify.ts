@@ -0,0 +1,388 @@
+import type { Span, LedgerEntry, Party, SignerKey } from '../types';
+import { calculateSpanHash, calculateEntryHash } from './crypto';
+import { merkleRoot, verifyInclusionProof, type InclusionProof } from './merkle';
+import {
+  buildKeyTimeline,
+  findSigningKey,
+  keyProblemAt,
+  KEY_REVOKED_SPAN_TYPE,
+  type KeyTimeline
+} from './rotation';
+import { DEFAULT_SIGNING_POLICY, tallySignatures } from './quorum';
+
+export const CHECKPOINT_SPAN_TYPE = 'ledger.checkpoint';
+
+export const LEDGER_EXPORT_FORMAT = 'minicontratos-ledger';
+export const LEDGER_EXPORT_VERSION = 1;
+
+// Full ledger export: the spans with the chain that orders them, so links,
+// checkpoints and truncation can be checked offline. The keys are the
+// exporter's directory; a verifier cannot take them as trusted.
+export interface LedgerExport {
+  format: typeof LEDGER_EXPORT_FORMAT;
+  version: typeof LEDGER_EXPORT_VERSION;
+  exported_at: string;
+  spans: Span[];
+  chain: LedgerEntry[];
+  keys: SignerKey[];
+}
+
+export type CheckStatus = 'valid' | 'invalid';
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'unknown_signer';
+export type ParentStatus = 'valid' | 'missing' | 'none';
+export type LinkStatus = 'valid' | 'broken' | 'none';
+
+export interface SpanVerification {
+  span_id: string;
+  trace_id: string;
+  type: string;
+  hash: CheckStatus;
+  signature: SignatureStatus;
+  parent: ParentStatus;
+  link: LinkStatus;
+  cosignatures: CosignatureVerification[];
+  quorum?: QuorumVerification;
+  errors: string[];
+  warnings: string[];
+  valid: boolean;
+}
+
+export interface CosignatureVerification {
+  signer_id: string;
+  party: string;
+  status: SignatureStatus;
+}
+
+// Signing policy of a span that declares its parties (contract.created)
+export interface QuorumVerification {
+  required: number;
+  signed: string[];
+  pending: string[];
+  satisfied: boolean;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  checkpoints: number;
+  errors: string[];
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  total: number;
+  verified_at: string;
+  spans: SpanVerification[];
+  chain?: ChainVerification;
+  unknown_signers: string[];
+  errors: Array<{ span_id: string; error: string }>;
+}
+
+// Resolves the public keys known for a signer (empty when it is unknown)
+export type PublicKeyResolver = (signerId: string) => Promise<JsonWebKey[]>;
+
+// What a span is checked against: the rest of the ledger and the signers'
+// key timelines
+export interface VerificationContext {
+  ids: Set<string>;
+  traceHashes: Map<string, Set<string>>;
+  keys: KeyTimeline;
+}
+
+export async function createVerificationContext(
+  spans: Span[],
+  resolvePublicKey: PublicKeyResolver,
+  entries?: LedgerEntry[]
+): Promise<VerificationContext> {
+  const traceHashes = new Map<string, Set<string>>();
+  for (const span of spans) {
+    const hashes = traceHashes.get(span.trace_id) || new Set<string>();
+    if (span.this?.hash) hashes.add(span.this.hash);
+    traceHashes.set(span.trace_id, hashes);
+  }
+  return {
+    ids: new Set(spans.map(s => s.id)),
+    traceHashes,
+    keys: await buildKeyTimeline(spans, resolvePublicKey, entries)
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// What is wrong with a value read from a file as a span, before verifying
+// it (undefined when it has every field verification reads)
+export function spanShapeError(value: unknown): string | undefined {
+  if (!isRecord(value)) return 'não é um objeto';
+  for (const field of ['id', 'trace_id', 'type', 'started_at']) {
+    if (typeof value[field] !== 'string') return `campo "${field}" ausente ou não é texto`;
+  }
+  if (!isRecord(value.body)) return 'campo "body" ausente ou não é objeto';
+  if (!isRecord(value.this) || typeof value.this.hash !== 'string') return 'campo "this.hash" ausente';
+  const { confirmed_by, signatures } = value;
+  if (confirmed_by !== undefined && (
+    !isRecord(confirmed_by) ||
+    typeof confirmed_by.signature !== 'string' ||
+    typeof confirmed_by.signer_id !== 'string'
+  )) {
+    return 'campo "confirmed_by" malformado';
+  }
+  if (signatures !== undefined && (
+    !Array.isArray(signatures) ||
+    signatures.some(s => !isRecord(s) || typeof s.signature !== 'string' || typeof s.signer_id !== 'string')
+  )) {
+    return 'campo "signatures" malformado';
+  }
+  return undefined;
+}
+
+export function entryShapeError(value: unknown): string | undefined {
+  if (!isRecord(value)) return 'não é um objeto';
+  if (typeof value.seq !== 'number') return 'campo "seq" ausente ou não é número';
+  for (const field of ['span_id', 'span_hash', 'hash']) {
+    if (typeof value[field] !== 'string') return `campo "${field}" ausente ou não é texto`;
+  }
+  if (value.prev !== null && typeof value.prev !== 'string') return 'campo "prev" malformado';
+  return undefined;
+}
+
+// Verify a single span against the rest of the ledger
+export async function verifySpan(
+  span: Span,
+  context: VerificationContext
+): Promise<SpanVerification> {
+  const result: SpanVerification = {
+    span_id: span.id,
+    trace_id: span.trace_id,
+    type: span.type,
+    hash: 'invalid',
+    signature: 'unsigned',
+    parent: 'none',
+    link: 'none',
+    cosignatures: [],
+    errors: [],
+    warnings: [],
+    valid: false
+  };
+
+  // 1. Hash
+  try {
+    const calculatedHash = await calculateSpanHash(span);
+    if (span.this?.hash === calculatedHash) {
+      result.hash = 'valid';
+    } else {
+      result.errors.push(`Hash divergente: registrado ${span.this?.hash || '(vazio)'}, calculado ${calculatedHash}`);
+    }
+  } catch (error) {
+    result.errors.push(`Não foi possível calcular o hash: ${String(error)}`);
+  }
+
+  // 2. Signature. Every span is signed on append and the hash leaves the
+  // signatures out, so a missing one was stripped. An unknown signer is not a
+  // failure: the signature simply cannot be checked until their key is imported.
+  if (!span.confirmed_by?.signature) {
+    result.errors.push('Span sem assinatura');
+  } else {
+    const { signer_id, signature, timestamp } = span.confirmed_by;
+    const check = await checkSignature(span, signer_id, signature, timestamp || span.started_at, context);
+    result.signature = check.status;
+    if (check.status === 'unknown_signer') result.warnings.push(check.message);
+    if (check.status === 'invalid') result.errors.push(check.message);
+  }
+
+  // 2b. Party signatures over the same payload
+  for (const cosignature of span.signatures || []) {
+    const check = await checkSignature(
+      span,
+      cosignature.signer_id,
+      cosignature.signature,
+      cosignature.timestamp,
+      context
+    );
+    result.cosignatures.push({ signer_id: cosignature.signer_id, party: cosignature.party, status: check.status });
+    if (check.status === 'unknown_signer') result.warnings.push(`${cosignature.party}: ${check.message}`);
+    if (check.status === 'invalid') result.errors.push(`${cosignature.party}: ${check.message}`);
+  }
+
+  // 2c. Quorum: only valid signatures count, matched to parties as the
+  // lifecycle guards match them
+  const parties: Party[] | undefined = span.body.input?.parties;
+  if (Array.isArray(parties) && parties.length > 0) {
+    const valid = (span.signatures || []).filter((_, idx) => result.cosignatures[idx].status === 'valid');
+    const status = tallySignatures(parties, span.body.input?.signing_policy || DEFAULT_SIGNING_POLICY, valid);
+    const signed = status.signed.map(s => s.party.name);
+    const pending = status.pending.map(party => party.name);
+    result.quorum = { required: status.required, signed, pending, satisfied: status.satisfied };
+    if (!result.quorum.satisfied) {
+      result.warnings.push(
+        `Quórum não atingido: ${signed.length} de ${status.required} assinaturas (pendentes: ${pending.join(', ')})`
+      );
+    }
+  }
+
+  // 3. References (parent_id exists?)
+  if (span.parent_id) {
+    if (context.ids.has(span.parent_id)) {
+      result.parent = 'valid';
+    } else {
+      result.parent = 'missing';
+      result.errors.push(`Span pai ${span.parent_id} não encontrado`);
+    }
+  }
+
+  // 4. Trace chain (previous span of the same trace still there?)
+  if (span.this?.prev_hash) {
+    if (context.traceHashes.get(span.trace_id)?.has(span.this.prev_hash)) {
+      result.link = 'valid';
+    } else {
+      result.link = 'broken';
+      result.errors.push(`Span anterior do trace (${span.this.prev_hash}) ausente ou alterado`);
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+async function checkSignature(
+  span: Span,
+  signerId: string,
+  signature: string,
+  at: string,
+  context: VerificationContext
+): Promise<{ status: SignatureStatus; message: string }> {
+  const candidates = context.keys.get(signerId) || [];
+  if (candidates.length === 0) {
+    return {
+      status: 'unknown_signer',
+      message: `Assinante ${signerId} desconhecido: importe a chave pública para verificar`
+    };
+  }
+
+  const key = await findSigningKey(span, signature, candidates);
+  if (!key) {
+    return { status: 'invalid', message: `Assinatura inválida de ${signerId}` };
+  }
+
+  // A key may always sign its own revocation, even when backdated
+  const ownRevocation = span.type === KEY_REVOKED_SPAN_TYPE && span.body.input?.fingerprint === key.fingerprint;
+  const problem = ownRevocation ? undefined : keyProblemAt(key, at);
+  if (problem) {
+    return { status: 'invalid', message: `Assinatura de ${signerId} rejeitada: ${problem}` };
+  }
+
+  return { status: 'valid', message: '' };
+}
+
+// Verify the ledger chain and every checkpoint published over it
+export function verifyChain(entries: LedgerEntry[], spans: Span[]): ChainVerification {
+  const errors: string[] = [];
+  const byId = new Map(spans.map(s => [s.id, s]));
+  const chained = new Set<string>();
+  const sorted = [...entries].sort((a, b) => a.seq - b.seq);
+
+  let prev: string | null = null;
+  sorted.forEach((entry, idx) => {
+    if (entry.seq !== idx + 1) {
+      errors.push(`Posição ${idx + 1} da cadeia ausente (encontrada ${entry.seq})`);
+    }
+    if (entry.prev !== prev) {
+      errors.push(`Entrada ${entry.seq} não aponta para a entrada anterior`);
+    }
+    if (calculateEntryHash(entry) !== entry.hash) {
+      errors.push(`Entrada ${entry.seq} foi alterada`);
+    }
+
+    const span = byId.get(entry.span_id);
+    if (!span) {
+      errors.push(`Span ${entry.span_id} (posição ${entry.seq}) removido do ledger`);
+    } else if (span.this?.hash !== entry.span_hash) {
+      errors.push(`Span ${entry.span_id} diverge do hash registrado na cadeia`);
+    }
+
+    chained.add(entry.span_id);
+    prev = entry.hash;
+  });
+
+  for (const span of spans) {
+    if (!chained.has(span.id)) {
+      errors.push(`Span ${span.id} não faz parte da cadeia do ledger`);
+    }
+  }
+
+  const checkpoints = spans.filter(s => s.type === CHECKPOINT_SPAN_TYPE);
+  for (const checkpoint of checkpoints) {
+    const size: number = checkpoint.body.input?.size;
+    const head = sorted[size - 1];
+    if (!head || head.hash !== checkpoint.body.input?.head) {
+      errors.push(`Checkpoint ${checkpoint.id} não confere com a cadeia (tamanho ${size})`);
+      continue;
+    }
+    const root = merkleRoot(sorted.slice(0, size).map(e => e.span_hash));
+    if (root !== checkpoint.body.output?.merkle_root) {
+      errors.push(`Raiz Merkle do checkpoint ${checkpoint.id} não confere`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    length: sorted.length,
+    checkpoints: checkpoints.length,
+    errors
+  };
+}
+
+// Check that a span belongs to the tree committed by a checkpoint
+export function verifySpanInclusion(span: Span, checkpoint: Span, proof: InclusionProof): boolean {
+  return (
+    checkpoint.type === CHECKPOINT_SPAN_TYPE &&
+    proof.leaf === span.this.hash &&
+    proof.tree_size === checkpoint.body.input?.size &&
+    verifyInclusionProof(proof, checkpoint.body.output?.merkle_root)
+  );
+}
+
+// Verify a whole set of spans (a ledger or an export of it). The ledger
+// chain is only checked when its entries are available.
+export async function verifySpans(
+  spans: Span[],
+  resolvePublicKey: PublicKeyResolver,
+  entries?: LedgerEntry[]
+): Promise<LedgerVerification> {
+  const context = await createVerificationContext(spans, resolvePublicKey, entries);
+  const results: SpanVerification[] = [];
+
+  for (const span of spans) {
+    results.push(await verifySpan(span, context));
+  }
+
+  const errors = results.flatMap(r => r.errors.map(error => ({ span_id: r.span_id, error })));
+  const chain = entries ? verifyChain(entries, spans) : undefined;
+  const unknownSigners = new Set(
+    spans
+      .filter((_span, idx) => results[idx].signature === 'unknown_signer')
+      .map(span => span.confirmed_by!.signer_id)
+  );
+
+  return {
+    valid: errors.length === 0 && (chain?.valid ?? true),
+    total: spans.length,
+    verified_at: new Date().toISOString(),
+    spans: results,
+    chain,
+    unknown_signers: Array.from(unknownSigners),
+    errors
+  };
+}
+
+// Group span results by trace (one trace per contract)
+export function groupByTrace(report: LedgerVerification): Map<string, SpanVerification[]> {
+  const traces = new Map<string, SpanVerification[]>();
+  for (const result of report.spans) {
+    const list = traces.get(result.trace_id) || [];
+    list.push(result);
+    traces.set(result.trace_id, list);
+  }
+  return traces;
+}
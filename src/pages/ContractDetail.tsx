@@ -0,0 +1,558 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { getContract, getCurrentUser, queryLedger, verifyTrace } from '../lib/db';
+import { signContract, transitionContract } from '../lib/signing';
+import { bundleFilename, exportContractBundle } from '../lib/share';
+import { downloadBlob } from '../lib/download';
+import { getSigningStatus, describePolicy, CONTRACT_CREATED_SPAN_TYPE, type SigningStatus } from '../lib/quorum';
+import { applyContractRules, evaluateRules, type RuleEvaluation } from '../lib/rules';
+import { summarizeContract, type ContractDraft } from '../lib/extract';
+import {
+  availableTransitions,
+  STATUS_LABELS,
+  CONTRACT_CANCELLED_SPAN_TYPE,
+  type Transition,
+  type TransitionOption
+} from '../lib/lifecycle';
+import {
+  contractBalance,
+  formatCents,
+  isOpen,
+  listObligations,
+  outstandingCents,
+  OBLIGATION_STATUS_LABELS,
+  type Balance,
+  type Obligation
+} from '../lib/obligations';
+import { recordPayment, settleObligation, waiveObligation } from '../lib/payments';
+import type { SpanVerification } from '../lib/verify';
+import type { Contract, MoneyAmount, Span } from '../types';
+
+interface TimelineNode {
+  span: Span;
+  children: TimelineNode[];
+}
+
+// Spans in the order they started, each under its parent when the parent is
+// in the trace
+function buildTimeline(spans: Span[]): TimelineNode[] {
+  const sorted = [...spans].sort((a, b) => a.started_at.localeCompare(b.started_at));
+  const nodes = new Map(sorted.map(span => [span.id, { span, children: [] as TimelineNode[] }]));
+  const roots: TimelineNode[] = [];
+  for (const span of sorted) {
+    const parent = span.parent_id && span.parent_id !== span.id ? nodes.get(span.parent_id) : undefined;
+    (parent ? parent.children : roots).push(nodes.get(span.id)!);
+  }
+  return roots;
+}
+
+function formatAmount({ amount, currency }: MoneyAmount): string {
+  try {
+    return amount.toLocaleString('pt-BR', { style: 'currency', currency });
+  } catch {
+    return `${currency} ${amount.toLocaleString('pt-BR')}`;
+  }
+}
+
+// "1.234,56", "R$ 450" or "450.5" in cents; null when it is not an amount
+function parseReais(text: string): number | null {
+  let value = text.replace(/R\$|\s/g, '');
+  if (value.includes(',')) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  }
+  const amount = Number(value);
+  return value && Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) : null;
+}
+
+// One line about what the span says: the message, the description or the amount
+function describeSpan(span: Span): string | undefined {
+  const input = span.body.input ?? {};
+  const output = span.body.output ?? {};
+  const text = [input.content, output.content, input.description, input.title, input.reason, input.message]
+    .find(value => typeof value === 'string' && value.trim());
+  if (text) {
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+  }
+  if (typeof input.amount === 'number') {
+    return formatAmount({ label: '', amount: input.amount, currency: input.currency || 'BRL' });
+  }
+  return undefined;
+}
+
+export const ContractDetail: React.FC = () => {
+  const navigate = useNavigate();
+  const { id = '' } = useParams();
+  const [contract, setContract] = useState<Contract | null>(null);
+  const [spans, setSpans] = useState<Span[]>([]);
+  const [verification, setVerification] = useState<Record<string, SpanVerification>>({});
+  const [signing, setSigning] = useState<SigningStatus | null>(null);
+  const [transitions, setTransitions] = useState<TransitionOption[]>([]);
+  const [terms, setTerms] = useState<ContractDraft | null>(null);
+  const [rules, setRules] = useState<RuleEvaluation[]>([]);
+  const [obligations, setObligations] = useState<Obligation[]>([]);
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const [userId, setUserId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadContract = useCallback(async () => {
+    try {
+      const [found, trace, results, user] = await Promise.all([
+        getContract(id),
+        queryLedger({ trace_id: id }),
+        verifyTrace(id),
+        getCurrentUser()
+      ]);
+      if (!found) {
+        setError('Contrato não encontrado.');
+        return;
+      }
+
+      setContract(found);
+      setSpans(trace);
+      setVerification(Object.fromEntries(results.map(r => [r.span_id, r])));
+      setSigning(getSigningStatus(found, trace.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE)));
+      setTransitions(availableTransitions(found, trace));
+      // Terms come from the contract's spans, not from the conversation
+      setTerms(summarizeContract(trace.filter(s => s.entity !== 'conversation')) ?? null);
+      setRules(evaluateRules(found, trace));
+      setObligations(listObligations(trace));
+      setBalance(contractBalance(trace));
+      setUserId(user?.id || '');
+    } catch (err) {
+      console.error('Error loading contract:', err);
+      setError('Erro ao carregar contrato.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadContract();
+  }, [loadContract]);
+
+  const handleSign = async (partyName: string) => {
+    try {
+      await signContract(id, partyName);
+      await loadContract();
+    } catch (err) {
+      console.error('Error signing contract:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao assinar contrato.');
+    }
+  };
+
+  const handleTransition = async (transition: Transition) => {
+    let reason: string | undefined;
+    if (transition.type === CONTRACT_CANCELLED_SPAN_TYPE) {
+      const answer = prompt(`Cancelar "${contract?.title}"? Informe o motivo:`);
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    }
+
+    try {
+      await transitionContract(id, transition.type, reason);
+      await loadContract();
+    } catch (err) {
+      console.error('Error changing contract status:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao mudar o estado do contrato.');
+    }
+  };
+
+  const handlePayment = async (obligation?: Obligation) => {
+    const suggested = obligation ? formatCents(outstandingCents(obligation)) : '';
+    const answer = prompt(
+      obligation ? `Valor pago em "${obligation.description}":` : 'Valor pago (vai para as parcelas que vencem primeiro):',
+      suggested
+    );
+    if (answer === null) return;
+    const cents = parseReais(answer);
+    if (cents === null) {
+      alert('Informe um valor em reais, por exemplo 450,00.');
+      return;
+    }
+
+    try {
+      await recordPayment(id, { obligation_id: obligation?.id, amount_cents: cents });
+      await loadContract();
+    } catch (err) {
+      console.error('Error recording payment:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao registrar pagamento.');
+    }
+  };
+
+  const handleWaive = async (obligation: Obligation) => {
+    const answer = prompt(`Dispensar "${obligation.description}"? Informe o motivo:`);
+    if (answer === null) return;
+
+    try {
+      await waiveObligation(id, obligation.id, answer.trim() || undefined);
+      await loadContract();
+    } catch (err) {
+      console.error('Error waiving obligation:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao dispensar obrigação.');
+    }
+  };
+
+  const handleSettle = async (obligation: Obligation) => {
+    try {
+      await settleObligation(id, obligation.id);
+      await loadContract();
+    } catch (err) {
+      console.error('Error settling obligation:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao registrar cumprimento.');
+    }
+  };
+
+  const handleApplyRules = async () => {
+    try {
+      const evaluations = await applyContractRules(id);
+      const applied = evaluations.filter(e => e.action);
+      await loadContract();
+      alert(applied.length === 0
+        ? 'Nenhuma regra disparou.'
+        : `Ações registradas:\n${applied.map(e => `• ${e.rule.id}: ${e.action!.type}`).join('\n')}`);
+    } catch (err) {
+      console.error('Error applying rules:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao avaliar regras.');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!contract) return;
+    try {
+      downloadBlob(await exportContractBundle(id), bundleFilename(contract));
+    } catch (err) {
+      console.error('Error exporting contract:', err);
+      alert(err instanceof Error ? err.message : 'Erro ao exportar contrato.');
+    }
+  };
+
+  const timeline = buildTimeline(spans);
+  const failing = Object.values(verification).filter(r => !r.valid).length;
+  const amounts = contract?.amounts ?? terms?.amounts ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-4 py-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/dashboard')}>
+            ← Voltar
+          </Button>
+          <h1 className="text-xl font-bold">Contrato</h1>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-4">Carregando contrato...</p>
+          </div>
+        ) : error || !contract ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <p className="text-red-600 mb-6">{error || 'Contrato não encontrado.'}</p>
+              <Button onClick={() => navigate('/dashboard')}>Voltar ao painel</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <CardTitle>{contract.title}</CardTitle>
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${
+                    contract.status === 'active' ? 'bg-green-100 text-green-800' :
+                    contract.status === 'completed' ? 'bg-blue-100 text-blue-800' :
+                    contract.status === 'draft' ? 'bg-gray-100 text-gray-800' :
+                    'bg-red-100 text-red-800'
+                  }`}>
+                    {STATUS_LABELS[contract.status]}
+                  </span>
+                </div>
+                <CardDescription>
+                  Criado em {new Date(contract.created_at).toLocaleString('pt-BR')} ·
+                  atualizado em {new Date(contract.last_updated).toLocaleString('pt-BR')} ·
+                  {' '}{spans.length} spans
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {transitions.map(({ transition, blocked }) => (
+                    <Button
+                      key={transition.type}
+                      size="sm"
+                      variant="outline"
+                      disabled={!!blocked}
+                      title={blocked}
+                      onClick={() => handleTransition(transition)}
+                    >
+                      {transition.label}
+                    </Button>
+                  ))}
+                  {contract.status === 'active' && rules.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={handleApplyRules}>
+                      ⚖️ Avaliar regras
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={handleExport}>
+                    📦 Exportar
+                  </Button>
+                </div>
+                {transitions.some(t => t.blocked) && (
+                  <ul className="mt-3 text-sm text-gray-500">
+                    {transitions.filter(t => t.blocked).map(({ transition, blocked }) => (
+                      <li key={transition.type}>{transition.label}: {blocked}</li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>👥 Partes</CardTitle>
+                {signing && (
+                  <CardDescription>
+                    Assinaturas: {describePolicy(signing.policy, contract.parties.length)} ·
+                    {' '}{signing.signed.length}/{signing.required}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {contract.parties.map(party => {
+                  const signed = signing?.signed.find(s => s.party.name === party.name);
+                  const canSign = contract.status === 'draft' && !party.id && !contract.parties.some(p => p.id === userId);
+                  return (
+                    <div key={party.name} className="flex items-center justify-between gap-2 border rounded-lg p-3">
+                      <div>
+                        <p className="font-medium">{party.name} <span className="text-gray-400">({party.role})</span></p>
+                        <p className="text-xs text-gray-500">
+                          {signed
+                            ? `✓ assinou em ${new Date(signed.signature.timestamp).toLocaleString('pt-BR')} · ${signed.signature.signer_id}`
+                            : '… aguardando assinatura'}
+                        </p>
+                      </div>
+                      {canSign && (
+                        <Button size="sm" variant="outline" onClick={() => handleSign(party.name)}>
+                          ✍️ Assinar como {party.name}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>📋 Termos</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="font-medium mb-1">Valores</p>
+                  {amounts.length === 0 ? (
+                    <p className="text-gray-500">Nenhum valor</p>
+                  ) : amounts.map((a, idx) => (
+                    <p key={idx}>
+                      {formatAmount(a)} <span className="text-gray-400 text-xs">{a.label}</span>
+                    </p>
+                  ))}
+                </div>
+                <div>
+                  <p className="font-medium mb-1">Prazos</p>
+                  {!terms || terms.deadlines.length === 0 ? (
+                    <p className="text-gray-500">Nenhum prazo</p>
+                  ) : terms.deadlines.map((d, idx) => (
+                    <p key={idx}>
+                      {d.date ? new Date(d.date).toLocaleDateString('pt-BR') : d.value}
+                      {' '}<span className="text-gray-400 text-xs">{d.label}</span>
+                    </p>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {obligations.length > 0 && balance && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle>💰 Obrigações</CardTitle>
+                    {contract.status === 'active' && balance.outstanding_cents > 0 && (
+                      <Button size="sm" variant="outline" onClick={() => handlePayment()}>
+                        💵 Registrar pagamento
+                      </Button>
+                    )}
+                  </div>
+                  <CardDescription>
+                    Total {formatCents(balance.total_cents)} · pago {formatCents(balance.paid_cents)} ·
+                    {' '}<strong>em aberto {formatCents(balance.outstanding_cents)}</strong>
+                    {balance.overdue_cents > 0 && (
+                      <span className="text-red-600"> · vencido {formatCents(balance.overdue_cents)}</span>
+                    )}
+                    {balance.credit_cents > 0 && ` · crédito ${formatCents(balance.credit_cents)}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {obligations.map(obligation => (
+                    <div key={obligation.id} className="flex items-center justify-between gap-2 border rounded-lg p-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{obligation.description}</p>
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${
+                            obligation.status === 'paid' ? 'bg-green-100 text-green-800' :
+                            obligation.status === 'overdue' ? 'bg-red-100 text-red-800' :
+                            obligation.status === 'waived' ? 'bg-gray-100 text-gray-600' :
+                            'bg-yellow-100 text-yellow-800'
+                          }`}>
+                            {OBLIGATION_STATUS_LABELS[obligation.status]}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {obligation.debtor && obligation.creditor && `${obligation.debtor} → ${obligation.creditor} · `}
+                          {obligation.due_date ? `vence em ${new Date(obligation.due_date).toLocaleDateString('pt-BR')}` : 'sem vencimento'}
+                          {obligation.amount_cents !== null && (
+                            ` · ${formatCents(obligation.paid_cents)} de ${formatCents(obligation.amount_cents)}`
+                          )}
+                        </p>
+                      </div>
+                      {contract.status === 'active' && isOpen(obligation) && (
+                        <div className="flex gap-2 shrink-0">
+                          {obligation.amount_cents !== null ? (
+                            <Button size="sm" variant="outline" onClick={() => handlePayment(obligation)}>
+                              Pagar
+                            </Button>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => handleSettle(obligation)}>
+                              Cumprida
+                            </Button>
+                          )}
+                          <Button size="sm" variant="ghost" onClick={() => handleWaive(obligation)}>
+                            Dispensar
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>⚖️ Regras</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {rules.length === 0 ? (
+                  <p className="text-sm text-gray-500">Este contrato não tem regras.</p>
+                ) : rules.map(evaluation => (
+                  <div key={`${evaluation.span_id}-${evaluation.rule.id}`} className="border rounded-lg p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium">{evaluation.rule.description || evaluation.rule.id}</p>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${
+                        evaluation.error ? 'bg-red-100 text-red-800' :
+                        evaluation.already_applied ? 'bg-blue-100 text-blue-800' :
+                        evaluation.fired ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-gray-100 text-gray-600'
+                      }`}>
+                        {evaluation.error ? 'erro' :
+                          evaluation.already_applied ? 'aplicada' :
+                          evaluation.fired ? 'dispara agora' :
+                          'aguardando'}
+                      </span>
+                    </div>
+                    <p className="mt-1">
+                      <code className="text-xs bg-gray-100 px-1 rounded">{evaluation.rule.condition}</code>
+                      {' → '}<code className="text-xs">{evaluation.rule.action}</code>
+                    </p>
+                    {evaluation.error && <p className="text-red-700 mt-1">{evaluation.error}</p>}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>🔗 Linha do tempo</CardTitle>
+                <CardDescription>
+                  {failing === 0
+                    ? `✅ ${spans.length} spans verificados`
+                    : `❌ ${failing} de ${spans.length} spans com falha na verificação`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {timeline.map(node => (
+                  <TimelineItem key={node.span.id} node={node} verification={verification} />
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+function TimelineItem({ node, verification }: { node: TimelineNode; verification: Record<string, SpanVerification> }) {
+  const { span } = node;
+  const result = verification[span.id];
+  const summary = describeSpan(span);
+
+  return (
+    <div>
+      <div className={`border rounded-lg p-3 ${result && !result.valid ? 'bg-red-50 border-red-200' : 'bg-gray-50'}`}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <code className="text-sm font-mono">{span.type}</code>
+            <span className="text-xs text-gray-500 ml-2">
+              {new Date(span.started_at).toLocaleString('pt-BR')}
+            </span>
+          </div>
+          {result && (
+            <div className="flex flex-wrap justify-end gap-1 text-xs">
+              <Badge ok={result.hash === 'valid'} label="hash" />
+              {result.signature === 'unknown_signer' ? (
+                <span className="px-2 py-1 rounded font-medium bg-yellow-100 text-yellow-800">
+                  ? assinante desconhecido
+                </span>
+              ) : result.signature === 'unsigned' ? (
+                <span className="px-2 py-1 rounded font-medium bg-gray-100 text-gray-600">sem assinatura</span>
+              ) : (
+                <Badge ok={result.signature === 'valid'} label="assinatura" />
+              )}
+              {result.cosignatures.map((cosignature, idx) => (
+                <Badge key={idx} ok={cosignature.status === 'valid'} label={cosignature.party} />
+              ))}
+            </div>
+          )}
+        </div>
+        {summary && <p className="text-sm text-gray-700 mt-1 break-words">{summary}</p>}
+        {result && result.errors.length > 0 && (
+          <ul className="list-disc list-inside mt-2 text-sm text-red-700">
+            {result.errors.map((error, idx) => (
+              <li key={idx} className="break-all">{error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <div className="ml-4 pl-3 mt-2 border-l-2 border-gray-200 space-y-2">
+          {node.children.map(child => (
+            <TimelineItem key={child.span.id} node={child} verification={verification} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Badge({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <span className={`px-2 py-1 rounded font-medium ${ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+      {ok ? '✓' : '✗'} {label}
+    </span>
+  );
+}
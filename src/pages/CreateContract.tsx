@@ -1,12 +1,33 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
-import { Textarea } from '../components/ui/Input';
-import { callLLM } from '../lib/llm';
-import { getCredential, getCurrentUser, appendToLedger, saveContract } from '../lib/db';
-import { decryptApiKey, generateId, calculateSpanHash } from '../lib/crypto';
-import type { Message, Span, Contract } from '../types';
+import { Input, Textarea, Label } from '../components/ui/Input';
+import { estimateRequest, streamLLM } from '../lib/llm';
+import { credentialConfig, modelLabel } from '../lib/models';
+import { getCredential, getCurrentUser, appendSpansToLedger } from '../lib/db';
+import { generateId } from '../lib/crypto';
+import { readApiKey } from '../lib/vault';
+import { describePolicy } from '../lib/quorum';
+import {
+  buildContractSpans,
+  extractSpans,
+  extractSpansFromValue,
+  type SpanExtraction
+} from '../lib/extract';
+import { LEDGER_TOOLS, type ToolCallRecord } from '../lib/tools';
+import { describeLLMError, isAbortError } from '../lib/errors';
+import { loadConversation, recordTurn } from '../lib/conversation';
+import { checkBudget, formatUSD, priceUsage } from '../lib/usage';
+import type { RedactionLog } from '../lib/redact';
+import type { Message, MoneyAmount, Party, SigningPolicy, TokenUsage } from '../types';
+
+const TOOL_LABELS: Record<string, string> = {
+  list_contracts: 'Consultou seus contratos',
+  get_contract: 'Abriu um contrato',
+  query_ledger: 'Consultou o ledger',
+  propose_spans: 'Propôs spans para revisão'
+};
 
 const TEMPLATES = {
   freelance: `Contrato de prestação de serviços:
@@ -32,15 +53,80 @@ const TEMPLATES = {
 - Garantia: 30 dias`,
 };
 
+function formatAmount({ amount, currency }: MoneyAmount): string {
+  try {
+    return amount.toLocaleString('pt-BR', { style: 'currency', currency });
+  } catch {
+    return `${currency} ${amount.toLocaleString('pt-BR')}`;
+  }
+}
+
 export const CreateContract: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The conversation's trace; the contract is saved under the same id
+  const draftId = searchParams.get('draft');
   const [description, setDescription] = useState('');
   const [generating, setGenerating] = useState(false);
   const [conversation, setConversation] = useState<Message[]>([]);
   const [error, setError] = useState('');
+  const [parties, setParties] = useState<Party[]>([
+    { name: '', role: '' },
+    { name: '', role: '' }
+  ]);
+  const [threshold, setThreshold] = useState(0); // 0 = todas as partes
+  const [extraction, setExtraction] = useState<SpanExtraction | null>(null);
+  const [title, setTitle] = useState('');
+  const [streamingText, setStreamingText] = useState('');
+  const [toolCalls, setToolCalls] = useState<ToolCallRecord[]>([]);
+  const [retrying, setRetrying] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const traceRef = useRef<string | null>(null);
+
+  const namedParties = parties
+    .map(p => ({ name: p.name.trim(), role: p.role.trim() }))
+    .filter(p => p.name);
+  const signingPolicy: SigningPolicy = threshold > 0
+    ? { type: 'threshold', threshold }
+    : { type: 'all' };
+
+  const updateParty = (index: number, field: keyof Party, value: string) => {
+    setParties(parties.map((p, i) => i === index ? { ...p, [field]: value } : p));
+  };
+
+  // Show a proposal in the preview and prefill the parties editor
+  const applyExtraction = useCallback((result: SpanExtraction) => {
+    setExtraction(result);
+    if (result.contract) {
+      setTitle(result.contract.title);
+      if (result.contract.parties.length > 0) {
+        setParties([
+          ...result.contract.parties,
+          ...Array(Math.max(0, 2 - result.contract.parties.length)).fill({ name: '', role: '' })
+        ]);
+        setThreshold(0);
+      }
+    }
+  }, []);
+
+  // Resume a draft conversation from the ledger. Drafts this page started
+  // itself are already on screen.
+  useEffect(() => {
+    if (!draftId || draftId === traceRef.current) return;
+    traceRef.current = draftId;
+    loadConversation(draftId)
+      .then(({ messages, extraction: proposal }) => {
+        setConversation(messages);
+        if (proposal) applyExtraction(proposal);
+      })
+      .catch(err => {
+        console.error('Error loading conversation:', err);
+        setError('Erro ao carregar a conversa.');
+      });
+  }, [draftId, applyExtraction]);
 
   const handleSubmit = async () => {
-    if (!description.trim()) return;
+    if (!description.trim() || generating) return;
     
     setGenerating(true);
     setError('');
@@ -62,7 +148,17 @@ export const CreateContract: React.FC = () => {
       }
       
       // Decrypt API key
-      const apiKey = await decryptApiKey(credential.encrypted_key, user.id);
+      const apiKey = await readApiKey(credential);
+      const config = await credentialConfig(credential, apiKey);
+      
+      // Warn before a call that could take the month over budget
+      const budget = await checkBudget(user.id, config, estimateRequest(description, config, conversation));
+      if (budget?.exceeded && !confirm(
+        `Esta mensagem pode custar até ${formatUSD(budget.estimated)} e o mês já usou ` +
+        `${formatUSD(budget.spent)} de ${formatUSD(budget.budget)}. Enviar mesmo assim?`
+      )) {
+        return;
+      }
       
       // Add user message to conversation
       const userMessage: Message = {
@@ -72,83 +168,118 @@ export const CreateContract: React.FC = () => {
       const newConversation = [...conversation, userMessage];
       setConversation(newConversation);
       
-      // Call LLM
-      const response = await callLLM(
-        description,
+      const traceId = draftId || generateId();
+      const startedAt = new Date().toISOString();
+      const calls: ToolCallRecord[] = [];
+      const rounds: TokenUsage[] = [];
+      let redaction: RedactionLog | undefined;
+      
+      // Stream the reply into the chat as it arrives
+      const controller = new AbortController();
+      abortRef.current = controller;
+      let response = '';
+      let proposed = false;
+      setDescription('');
+      setToolCalls([]);
+      
+      for await (const text of streamLLM(
+        userMessage.content,
+        config,
+        conversation,
         {
-          provider: credential.provider,
-          apiKey,
-          model: credential.provider === 'anthropic' ? 'claude-sonnet-4-20250514' : 
-                 credential.provider === 'openai' ? 'gpt-4-turbo-preview' : 'llama2'
-        },
-        conversation
-      );
+          signal: controller.signal,
+          onRetry: (retryError, _attempt, delayMs) => {
+            setRetrying(`${retryError.message} Nova tentativa em ${Math.ceil(delayMs / 1000)}s...`);
+          },
+          onUsage: (usage) => rounds.push(usage),
+          onRedact: (log) => { redaction = log; },
+          tools: LEDGER_TOOLS,
+          onToolCall: (call) => {
+            calls.push(call);
+            setToolCalls([...calls]);
+            if (call.kind === 'propose') {
+              proposed = true;
+              applyExtraction(extractSpansFromValue(call.input));
+            }
+          }
+        }
+      )) {
+        response += text;
+        setRetrying('');
+        setStreamingText(response);
+      }
       
       // Add assistant response
       const assistantMessage: Message = {
         role: 'assistant',
-        content: response
+        content: response || (proposed ? 'Proposta enviada para a prévia do contrato.' : ''),
+        model: modelLabel(config)
       };
       setConversation([...newConversation, assistantMessage]);
       
-      setDescription('');
+      await recordTurn(traceId, {
+        prompt: userMessage.content,
+        response: assistantMessage.content,
+        config,
+        started_at: startedAt,
+        completed_at: new Date().toISOString(),
+        tool_calls: calls,
+        redaction,
+        ...(rounds.length > 0 && { usage: await priceUsage(user.id, config, rounds) })
+      });
+      if (!draftId) {
+        traceRef.current = traceId;
+        setSearchParams({ draft: traceId }, { replace: true });
+      }
+      
+      // Replies without spans (questions, explanations) keep the last proposal
+      const result = extractSpans(response);
+      if (result.spans.length > 0 || result.errors.length > 0) {
+        applyExtraction(result);
+      }
       
     } catch (err) {
+      if (isAbortError(err)) {
+        // Cancelled: drop the partial reply and give the message back for editing
+        setConversation(conversation);
+        setDescription(description);
+        return;
+      }
       console.error('Error generating contract:', err);
-      setError('Erro ao processar. Tente novamente.');
+      setError(describeLLMError(err, 'Erro ao processar. Tente novamente.'));
     } finally {
+      abortRef.current = null;
+      setStreamingText('');
+      setRetrying('');
       setGenerating(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSaveContract = async () => {
+    if (!extraction?.valid) return;
+    
     try {
-      // Create a simple contract for demo
-      const traceId = generateId();
-      
-      const span: Partial<Span> = {
-        id: generateId(),
-        trace_id: traceId,
-        type: 'contract.created',
-        entity: 'minicontrato',
-        body: {
-          action: 'create_contract',
-          input: {
-            description: conversation[0]?.content || 'Novo contrato',
-          },
-          output: {
-            success: true,
-          }
-        },
-        started_at: new Date().toISOString(),
-        completed_at: new Date().toISOString(),
-        this: {
-          hash: '',
-          version: '1.0.0'
-        }
-      };
+      const traceId = draftId || generateId();
+      const contractTitle = title.trim() || extraction.contract!.title;
+      const spans = buildContractSpans(extraction.spans, traceId, {
+        title: contractTitle,
+        parties: namedParties,
+        signing_policy: signingPolicy
+      });
       
-      span.this!.hash = await calculateSpanHash(span);
-      
-      await appendToLedger(span as Span);
-      
-      const contract: Contract = {
-        id: traceId,
-        title: 'Novo Contrato',
-        parties: [],
-        status: 'draft',
-        created_at: new Date().toISOString(),
-        spans: [span.id!],
-        last_updated: new Date().toISOString()
-      };
-      
-      await saveContract(contract);
+      // The ledger projects the contract record from these spans, together
+      // with the conversation already in the trace
+      await appendSpansToLedger(spans);
       
       navigate('/dashboard');
       
     } catch (err) {
       console.error('Error saving contract:', err);
-      setError('Erro ao salvar contrato.');
+      setError(err instanceof Error ? err.message : 'Erro ao salvar contrato.');
     }
   };
 
@@ -216,6 +347,9 @@ export const CreateContract: React.FC = () => {
                         : 'bg-white text-gray-900 border'
                     }`}>
                       <p className="whitespace-pre-wrap">{msg.content}</p>
+                      {msg.model && (
+                        <p className="text-xs text-gray-400 mt-2">🤖 {msg.model}</p>
+                      )}
                     </div>
                   </div>
                 ))
@@ -223,8 +357,24 @@ export const CreateContract: React.FC = () => {
               
               {generating && (
                 <div className="flex justify-start">
-                  <div className="bg-white border rounded-lg p-3">
-                    <div className="animate-pulse">Gerando resposta...</div>
+                  <div className="max-w-[80%] bg-white text-gray-900 border rounded-lg p-3">
+                    {toolCalls.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {toolCalls.map((call, idx) => (
+                          <span key={idx} className="text-xs bg-gray-100 text-gray-600 rounded px-2 py-0.5">
+                            🔧 {TOOL_LABELS[call.name] || call.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {retrying && (
+                      <p className="text-xs text-yellow-700 mb-2">⏳ {retrying}</p>
+                    )}
+                    {streamingText ? (
+                      <p className="whitespace-pre-wrap">{streamingText}<span className="animate-pulse">▍</span></p>
+                    ) : (
+                      <div className="animate-pulse">Gerando resposta...</div>
+                    )}
                   </div>
                 </div>
               )}
@@ -251,26 +401,154 @@ export const CreateContract: React.FC = () => {
                 rows={3}
                 className="flex-1"
               />
-              <Button 
-                onClick={handleSubmit}
-                disabled={!description.trim() || generating}
-                size="lg"
-              >
-                {generating ? '⏳' : '📤'}
-              </Button>
+              {generating ? (
+                <Button 
+                  variant="outline"
+                  onClick={handleCancel}
+                  size="lg"
+                  title="Parar geração"
+                >
+                  ⏹
+                </Button>
+              ) : (
+                <Button 
+                  onClick={handleSubmit}
+                  disabled={!description.trim()}
+                  size="lg"
+                >
+                  📤
+                </Button>
+              )}
             </div>
             
+            {extraction && (
+              <div className="space-y-3 pt-4 border-t">
+                <Label>Prévia do contrato</Label>
+                {extraction.contract && (
+                  <>
+                    <Input
+                      placeholder="Título do contrato"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <p className="font-medium mb-1">💰 Valores</p>
+                        {extraction.contract.amounts.length === 0 ? (
+                          <p className="text-gray-400">Nenhum valor encontrado</p>
+                        ) : extraction.contract.amounts.map((a, idx) => (
+                          <p key={idx}>
+                            {formatAmount(a)} <span className="text-gray-400 text-xs">{a.label}</span>
+                          </p>
+                        ))}
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <p className="font-medium mb-1">📅 Prazos</p>
+                        {extraction.contract.deadlines.length === 0 ? (
+                          <p className="text-gray-400">Nenhum prazo encontrado</p>
+                        ) : extraction.contract.deadlines.map((d, idx) => (
+                          <p key={idx}>
+                            {d.date ? new Date(d.date).toLocaleDateString('pt-BR') : d.value}{' '}
+                            <span className="text-gray-400 text-xs">{d.label}</span>
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                      <p className="font-medium mb-1">⚖️ Regras</p>
+                      {extraction.contract.rules.length === 0 ? (
+                        <p className="text-gray-400">Nenhuma regra definida</p>
+                      ) : extraction.contract.rules.map(rule => (
+                        <p key={rule.id}>
+                          <span className="font-mono text-xs">{rule.id}</span>{' '}
+                          {rule.description || `${rule.condition} → ${rule.action}`}
+                        </p>
+                      ))}
+                    </div>
+                  </>
+                )}
+                <p className="text-xs text-gray-500">
+                  {extraction.spans.length} span(s): {extraction.spans.map(s => s.type).join(', ')}
+                </p>
+                {extraction.errors.length > 0 && (
+                  <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm space-y-1">
+                    {extraction.errors.map((issue, idx) => (
+                      <p key={idx}>✗ {issue.path && <span className="font-mono text-xs">{issue.path}: </span>}{issue.message}</p>
+                    ))}
+                    <p>Peça ao assistente para corrigir a proposta.</p>
+                  </div>
+                )}
+                {extraction.warnings.length > 0 && (
+                  <div className="bg-yellow-50 text-yellow-700 p-3 rounded-lg text-sm space-y-1">
+                    {extraction.warnings.map((issue, idx) => (
+                      <p key={idx}>⚠ {issue.path && <span className="font-mono text-xs">{issue.path}: </span>}{issue.message}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {extraction?.contract && (
+              <div className="space-y-3 pt-4 border-t">
+                <Label>Partes que assinam</Label>
+                {parties.map((party, idx) => (
+                  <div key={idx} className="flex gap-2">
+                    <Input
+                      placeholder="Nome"
+                      value={party.name}
+                      onChange={(e) => updateParty(idx, 'name', e.target.value)}
+                    />
+                    <Input
+                      placeholder="Papel (ex: credor)"
+                      value={party.role}
+                      onChange={(e) => updateParty(idx, 'role', e.target.value)}
+                    />
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setParties([...parties, { name: '', role: '' }])}
+                >
+                  + Adicionar parte
+                </Button>
+                <div>
+                  <Label>Assinaturas necessárias</Label>
+                  <select
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white"
+                    value={threshold}
+                    onChange={(e) => setThreshold(Number(e.target.value))}
+                  >
+                    <option value={0}>Todas as partes</option>
+                    {namedParties.slice(1).map((_party, idx) => (
+                      <option key={idx} value={idx + 1}>
+                        {describePolicy({ type: 'threshold', threshold: idx + 1 }, namedParties.length)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             {conversation.length > 0 && (
               <div className="flex gap-2 pt-4 border-t">
                 <Button 
                   variant="outline" 
-                  onClick={() => setConversation([])}
+                  onClick={() => {
+                    // The old conversation stays in the ledger as a draft
+                    setConversation([]);
+                    setExtraction(null);
+                    setTitle('');
+                    traceRef.current = null;
+                    setSearchParams({});
+                  }}
                   className="flex-1"
                 >
                   Refazer
                 </Button>
                 <Button 
                   onClick={handleSaveContract}
+                  disabled={!extraction?.valid || namedParties.length < 2 || threshold > namedParties.length}
                   className="flex-1"
                 >
                   ✓ Salvar Contrato
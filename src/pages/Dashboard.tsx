@@ -2,12 +2,32 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
-import { getAllContracts } from '../lib/db';
+import { getAllContracts, getCurrentUser, queryLedger } from '../lib/db';
+import { signContract, transitionContract } from '../lib/signing';
+import { bundleFilename, exportContractBundle } from '../lib/share';
+import { downloadBlob } from '../lib/download';
+import { lockVault } from '../lib/vault';
+import { getSigningStatus, describePolicy, CONTRACT_CREATED_SPAN_TYPE, type SigningStatus } from '../lib/quorum';
+import { listDraftConversations, type DraftConversation } from '../lib/conversation';
+import { applyContractRules } from '../lib/rules';
+import {
+  availableTransitions,
+  STATUS_LABELS,
+  CONTRACT_CANCELLED_SPAN_TYPE,
+  type Transition,
+  type TransitionOption
+} from '../lib/lifecycle';
+import { contractBalance, formatCents, type Balance } from '../lib/obligations';
 import type { Contract } from '../types';
 
 export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const [contracts, setContracts] = useState<Contract[]>([]);
+  const [signing, setSigning] = useState<Record<string, SigningStatus>>({});
+  const [transitions, setTransitions] = useState<Record<string, TransitionOption[]>>({});
+  const [balances, setBalances] = useState<Record<string, Balance>>({});
+  const [userId, setUserId] = useState('');
+  const [drafts, setDrafts] = useState<DraftConversation[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -16,8 +36,26 @@ export const Dashboard: React.FC = () => {
 
   async function loadContracts() {
     try {
-      const allContracts = await getAllContracts();
+      const [allContracts, user, conversations] = await Promise.all([
+        getAllContracts(),
+        getCurrentUser(),
+        listDraftConversations()
+      ]);
+      const statuses: Record<string, SigningStatus> = {};
+      const options: Record<string, TransitionOption[]> = {};
+      const owed: Record<string, Balance> = {};
+      for (const contract of allContracts) {
+        const spans = await queryLedger({ trace_id: contract.id });
+        statuses[contract.id] = getSigningStatus(contract, spans.find(s => s.type === CONTRACT_CREATED_SPAN_TYPE));
+        options[contract.id] = availableTransitions(contract, spans);
+        owed[contract.id] = contractBalance(spans);
+      }
       setContracts(allContracts);
+      setSigning(statuses);
+      setTransitions(options);
+      setBalances(owed);
+      setUserId(user?.id || '');
+      setDrafts(conversations);
     } catch (error) {
       console.error('Error loading contracts:', error);
     } finally {
@@ -25,6 +63,60 @@ export const Dashboard: React.FC = () => {
     }
   }
 
+  const handleSign = async (contractId: string, partyName: string) => {
+    try {
+      await signContract(contractId, partyName);
+      await loadContracts();
+    } catch (error) {
+      console.error('Error signing contract:', error);
+      alert(error instanceof Error ? error.message : 'Erro ao assinar contrato.');
+    }
+  };
+
+  const handleTransition = async (contract: Contract, transition: Transition) => {
+    let reason: string | undefined;
+    if (transition.type === CONTRACT_CANCELLED_SPAN_TYPE) {
+      const answer = prompt(`Cancelar "${contract.title}"? Informe o motivo:`);
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    }
+    
+    try {
+      await transitionContract(contract.id, transition.type, reason);
+      await loadContracts();
+    } catch (error) {
+      console.error('Error changing contract status:', error);
+      alert(error instanceof Error ? error.message : 'Erro ao mudar o estado do contrato.');
+    }
+  };
+
+  const handleApplyRules = async (contract: Contract) => {
+    try {
+      const evaluations = await applyContractRules(contract.id);
+      const applied = evaluations.filter(e => e.action);
+      const failed = evaluations.filter(e => e.error);
+      await loadContracts();
+      alert([
+        evaluations.length === 0 ? 'Este contrato não tem regras.' :
+        applied.length === 0 ? 'Nenhuma regra disparou.' :
+        `Ações registradas:\n${applied.map(e => `• ${e.rule.id}: ${e.action!.type}`).join('\n')}`,
+        ...failed.map(e => `⚠ ${e.rule.id}: ${e.error}`)
+      ].join('\n\n'));
+    } catch (error) {
+      console.error('Error applying rules:', error);
+      alert(error instanceof Error ? error.message : 'Erro ao avaliar regras.');
+    }
+  };
+
+  const handleExport = async (contract: Contract) => {
+    try {
+      downloadBlob(await exportContractBundle(contract.id), bundleFilename(contract));
+    } catch (error) {
+      console.error('Error exporting contract:', error);
+      alert(error instanceof Error ? error.message : 'Erro ao exportar contrato.');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -38,9 +130,21 @@ export const Dashboard: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => navigate('/import')}>
+              📥 Importar contrato
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/verify')}>
+              🔍 Verificar ledger
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/usage')}>
+              📊 Uso
+            </Button>
             <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
               ⚙️ Configurações
             </Button>
+            <Button variant="ghost" size="sm" onClick={lockVault} title="Bloquear">
+              🔒
+            </Button>
           </div>
         </div>
       </header>
@@ -125,6 +229,32 @@ export const Dashboard: React.FC = () => {
           </Card>
         </div>
         
+        {/* Conversas que ainda não viraram contrato */}
+        {drafts.length > 0 && (
+          <div className="space-y-4 mb-8">
+            <h2 className="text-2xl font-bold">💬 Conversas em andamento</h2>
+            {drafts.map(draft => (
+              <Card key={draft.trace_id}>
+                <CardContent className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="truncate">{draft.first_prompt}</p>
+                    <p className="text-sm text-gray-500">
+                      {draft.turns} mensagem(ns) · última em {new Date(draft.last_activity).toLocaleString('pt-BR')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/create?draft=${draft.trace_id}`)}
+                  >
+                    Continuar
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+        
         {/* Contracts List */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
@@ -167,7 +297,7 @@ export const Dashboard: React.FC = () => {
                             contract.status === 'draft' ? 'bg-gray-100 text-gray-800' :
                             'bg-red-100 text-red-800'
                           }`}>
-                            {contract.status}
+                            {STATUS_LABELS[contract.status]}
                           </span>
                         </div>
                         
@@ -175,15 +305,31 @@ export const Dashboard: React.FC = () => {
                           <span>👥 {contract.parties.length} partes</span>
                           <span>📅 {new Date(contract.created_at).toLocaleDateString('pt-BR')}</span>
                           <span>🔗 {contract.spans.length} spans</span>
+                          {signing[contract.id] && contract.parties.length > 0 && (
+                            <span title={describePolicy(signing[contract.id].policy, contract.parties.length)}>
+                              ✍️ {signing[contract.id].signed.length}/{signing[contract.id].required} assinaturas
+                            </span>
+                          )}
+                          {balances[contract.id]?.total_cents > 0 && (
+                            <span className={balances[contract.id].overdue_cents > 0 ? 'text-red-600' : ''}>
+                              💰 {formatCents(balances[contract.id].outstanding_cents)} em aberto
+                              {balances[contract.id].overdue_cents > 0 && ` · ${formatCents(balances[contract.id].overdue_cents)} vencido`}
+                            </span>
+                          )}
                         </div>
                         
                         <div className="flex flex-wrap gap-2">
-                          {contract.parties.map((party, idx) => (
-                            <div key={idx} className="flex items-center gap-1 text-sm bg-gray-100 px-2 py-1 rounded">
-                              <span>{party.name}</span>
-                              <span className="text-gray-400">({party.role})</span>
-                            </div>
-                          ))}
+                          {contract.parties.map((party, idx) => {
+                            const signed = signing[contract.id]?.signed.some(s => s.party.name === party.name);
+                            return (
+                              <div key={idx} className={`flex items-center gap-1 text-sm px-2 py-1 rounded ${
+                                signed ? 'bg-green-100' : 'bg-gray-100'
+                              }`}>
+                                <span>{signed ? '✓' : '…'} {party.name}</span>
+                                <span className="text-gray-400">({party.role})</span>
+                              </div>
+                            );
+                          })}
                         </div>
                       </div>
                       
@@ -195,6 +341,46 @@ export const Dashboard: React.FC = () => {
                         >
                           👁️ Ver
                         </Button>
+                        <Button 
+                          size="sm" 
+                          variant="ghost"
+                          onClick={() => handleExport(contract)}
+                        >
+                          📦 Exportar
+                        </Button>
+                        {contract.status === 'active' && (
+                          <Button 
+                            size="sm" 
+                            variant="ghost"
+                            onClick={() => handleApplyRules(contract)}
+                          >
+                            ⚖️ Avaliar regras
+                          </Button>
+                        )}
+                        {transitions[contract.id]?.map(({ transition, blocked }) => (
+                          <Button
+                            key={transition.type}
+                            size="sm"
+                            variant="outline"
+                            disabled={!!blocked}
+                            title={blocked}
+                            onClick={() => handleTransition(contract, transition)}
+                          >
+                            {transition.label}
+                          </Button>
+                        ))}
+                        {!contract.parties.some(p => p.id === userId) && signing[contract.id]?.pending
+                          .filter(party => !party.id)
+                          .map(party => (
+                            <Button
+                              key={party.name}
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleSign(contract.id, party.name)}
+                            >
+                              ✍️ Assinar como {party.name}
+                            </Button>
+                          ))}
                       </div>
                     </div>
                   </CardContent>
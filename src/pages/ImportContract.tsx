@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input, Label } from '../components/ui/Input';
+import { importContractBundle, type BundleImportResult } from '../lib/share';
+import { BUNDLE_EXTENSION, type BundleSpanStatus } from '../lib/bundle';
+
+const STATUS_LABELS: Record<BundleSpanStatus, string> = {
+  accepted: 'novo',
+  duplicate: 'já existente',
+  updated: 'novas assinaturas',
+  rejected: 'rejeitado'
+};
+
+const STATUS_STYLES: Record<BundleSpanStatus, string> = {
+  accepted: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-800',
+  updated: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+export const ImportContract: React.FC = () => {
+  const navigate = useNavigate();
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<BundleImportResult | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setImporting(true);
+    setError('');
+    setResult(null);
+
+    try {
+      setResult(await importContractBundle(await file.text()));
+    } catch (err) {
+      console.error('Error importing bundle:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao importar contrato.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-4 py-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/dashboard')}>
+            ← Voltar
+          </Button>
+          <h1 className="text-xl font-bold">Importar Contrato</h1>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>📥 Arquivo {BUNDLE_EXTENSION}</CardTitle>
+            <CardDescription>
+              Cada span é verificado (hash, assinaturas, encadeamento) antes de entrar no seu ledger.
+              Se algum for rejeitado, nada é importado.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Arquivo do contrato</Label>
+              <Input
+                type="file"
+                accept={`${BUNDLE_EXTENSION},application/json`}
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <Button onClick={handleImport} disabled={!file || importing} className="w-full">
+              {importing ? 'Verificando...' : 'Verificar e importar'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Card className={result.merged ? 'border-green-300' : 'border-red-300'}>
+            <CardHeader>
+              <CardTitle>
+                {result.merged ? '✅ Contrato importado' : '❌ Contrato não importado'}
+              </CardTitle>
+              <CardDescription className="font-mono break-all">
+                Manifesto {result.manifest_hash}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {result.errors.length > 0 && (
+                <ul className="list-disc list-inside text-sm text-red-700">
+                  {result.errors.map((err, idx) => (
+                    <li key={idx} className="break-all">{err}</li>
+                  ))}
+                </ul>
+              )}
+              {result.warnings.length > 0 && (
+                <ul className="list-disc list-inside text-sm text-yellow-700">
+                  {result.warnings.map((warning, idx) => (
+                    <li key={idx} className="break-all">{warning}</li>
+                  ))}
+                </ul>
+              )}
+
+              {result.spans.map(span => (
+                <div key={span.span_id} className="border rounded-lg p-3 bg-gray-50">
+                  <div className="flex items-center justify-between gap-2">
+                    <code className="text-sm font-mono">{span.type}</code>
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[span.status]}`}>
+                      {STATUS_LABELS[span.status]}
+                      {span.new_signatures.length > 0 && ` · +${span.new_signatures.length} assinatura(s)`}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono mt-1">{span.span_id}</p>
+                  {span.reasons.length > 0 && (
+                    <ul className="list-disc list-inside mt-2 text-sm text-red-700">
+                      {span.reasons.map((reason, idx) => (
+                        <li key={idx} className="break-all">{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+
+              {result.keys_added.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  🔑 {result.keys_added.length} chave(s) adicionada(s) ao diretório.
+                </p>
+              )}
+
+              {result.merged && (
+                <Button onClick={() => navigate('/dashboard')} className="w-full">
+                  Ver contratos
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
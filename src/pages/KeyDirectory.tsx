@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input, Textarea, Label } from '../components/ui/Input';
+import { getAllSignerKeys, deleteSignerKey } from '../lib/db';
+import { importSignerKey } from '../lib/keys';
+import type { KeyProvenance, SignerKey } from '../types';
+
+const PROVENANCE_LABELS: Record<KeyProvenance, string> = {
+  self: 'esta identidade',
+  imported: 'importada',
+  countersigned: 'co-assinante'
+};
+
+export const KeyDirectory: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [keys, setKeys] = useState<SignerKey[]>([]);
+  const [signerId, setSignerId] = useState(searchParams.get('signer') || '');
+  const [publicKey, setPublicKey] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  async function loadKeys() {
+    try {
+      setKeys(await getAllSignerKeys());
+    } catch (err) {
+      console.error('Error loading keys:', err);
+    }
+  }
+
+  const handleImport = async () => {
+    setError('');
+    setMessage('');
+
+    try {
+      const jwk = JSON.parse(publicKey) as JsonWebKey;
+      const key = await importSignerKey(signerId.trim(), jwk, 'imported');
+      setMessage(`Chave de ${key.signer_id} adicionada.`);
+      setPublicKey('');
+      await loadKeys();
+    } catch (err) {
+      console.error('Error importing key:', err);
+      setError(err instanceof SyntaxError
+        ? 'A chave precisa estar em formato JWK (JSON).'
+        : err instanceof Error ? err.message : 'Erro ao importar chave.');
+    }
+  };
+
+  const handleDelete = async (fingerprint: string) => {
+    await deleteSignerKey(fingerprint);
+    await loadKeys();
+  };
+
+  const handleCopy = async (key: SignerKey) => {
+    await navigator.clipboard.writeText(JSON.stringify(key.public_key));
+    setMessage('Chave pública copiada.');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-4 py-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/verify')}>
+            ← Voltar
+          </Button>
+          <h1 className="text-xl font-bold">Chaves de Assinantes</h1>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>🔑 Chaves conhecidas</CardTitle>
+            <CardDescription>
+              Spans assinados por estes assinantes são verificados automaticamente.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {keys.length === 0 ? (
+              <p className="text-gray-400 text-center">Nenhuma chave cadastrada.</p>
+            ) : (
+              keys.map(key => (
+                <div key={key.fingerprint} className="border rounded-lg p-3 bg-gray-50">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{key.signer_id}</span>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${
+                        key.provenance === 'self' ? 'bg-blue-100 text-blue-800' :
+                        key.provenance === 'countersigned' ? 'bg-green-100 text-green-800' :
+                        'bg-gray-100 text-gray-800'
+                      }`}>
+                        {PROVENANCE_LABELS[key.provenance]}
+                      </span>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => handleCopy(key)}>
+                        📋 Copiar
+                      </Button>
+                      {key.provenance !== 'self' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(key.fingerprint)}>
+                          🗑️ Remover
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono mt-1 break-all">{key.fingerprint}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Adicionada em {new Date(key.added_at).toLocaleString('pt-BR')}
+                  </p>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Importar chave pública</CardTitle>
+            <CardDescription>
+              Peça à outra parte que copie a própria chave pública e cole aqui.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>ID do assinante</Label>
+              <Input
+                placeholder="user-maria-abc12"
+                value={signerId}
+                onChange={(e) => setSignerId(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Chave pública (JWK)</Label>
+              <Textarea
+                placeholder='{"kty":"OKP","crv":"Ed25519","x":"..."}'
+                value={publicKey}
+                onChange={(e) => setPublicKey(e.target.value)}
+                rows={3}
+                className="font-mono text-sm"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            {message && (
+              <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">
+                {message}
+              </div>
+            )}
+
+            <Button
+              onClick={handleImport}
+              disabled={!signerId.trim() || !publicKey.trim()}
+              className="w-full"
+            >
+              Importar chave
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
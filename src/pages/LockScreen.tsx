@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input, Label } from '../components/ui/Input';
+import { createVault, unlockVault, MIN_PASSPHRASE_LENGTH } from '../lib/vault';
+
+interface LockScreenProps {
+  // setup: credentials saved before the vault existed still need a passphrase
+  mode: 'unlock' | 'setup';
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ mode }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const canSubmit = mode === 'unlock'
+    ? passphrase.length > 0
+    : passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      if (mode === 'unlock') {
+        await unlockVault(passphrase);
+      } else {
+        await createVault(passphrase);
+      }
+    } catch (err) {
+      console.error('Vault error:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao desbloquear.');
+      setPassphrase('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader>
+          <CardTitle>{mode === 'unlock' ? '🔒 minicontratos bloqueado' : '🔒 Proteja suas credenciais'}</CardTitle>
+          <CardDescription>
+            {mode === 'unlock'
+              ? 'Digite sua senha de desbloqueio para continuar.'
+              : 'Crie uma senha de desbloqueio. Sua chave de API passa a ser cifrada com ela e o app bloqueia sozinho quando fica parado.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label>Senha de desbloqueio</Label>
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleSubmit()}
+              autoFocus
+            />
+          </div>
+          {mode === 'setup' && (
+            <div>
+              <Label>Confirme a senha</Label>
+              <Input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleSubmit()}
+              />
+              {confirmation && passphrase !== confirmation && (
+                <p className="text-sm text-red-600 mt-1">As senhas não conferem.</p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <Button onClick={handleSubmit} disabled={!canSubmit || loading} className="w-full">
+            {loading ? 'Verificando...' : mode === 'unlock' ? 'Desbloquear' : 'Criar senha'}
+          </Button>
+          {mode === 'setup' && (
+            <p className="text-xs text-gray-500">
+              Use pelo menos {MIN_PASSPHRASE_LENGTH} caracteres. Não há como recuperar a senha.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,22 +1,45 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { Input, Label } from '../components/ui/Input';
 import { registerUser, createSession } from '../lib/auth';
-import { detectProvider } from '../lib/crypto';
 import { testApiKey } from '../lib/llm';
+import { getProvider, listProviders } from '../lib/providers';
+import { buildLLMConfig } from '../lib/models';
+import { describeLLMError } from '../lib/errors';
+import { restoreIdentityBackup, BACKUP_EXTENSION } from '../lib/backup';
+import { MIN_PASSPHRASE_LENGTH } from '../lib/vault';
 
-type Step = 'welcome' | 'name' | 'apikey' | 'complete';
+type Step = 'welcome' | 'name' | 'apikey' | 'restore' | 'complete';
 
-export const Onboarding: React.FC = () => {
-  const navigate = useNavigate();
+interface OnboardingProps {
+  onComplete: () => void;
+}
+
+export const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
   const [step, setStep] = useState<Step>('welcome');
   const [name, setName] = useState('');
   const [apiKey, setApiKey] = useState('');
-  const [provider, setProvider] = useState<'anthropic' | 'openai' | 'ollama'>('anthropic');
+  const [provider, setProvider] = useState('anthropic');
+  const [baseUrl, setBaseUrl] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultConfirmation, setVaultConfirmation] = useState('');
+
+  const adapter = getProvider(provider);
+  const keyReady = adapter.apiKey !== 'required' || apiKey.trim() !== '';
+
+  // Keys pasted under the wrong hosted provider switch to the right one
+  const handleApiKeyChange = (value: string) => {
+    setApiKey(value);
+    const match = listProviders().find(p => p.matchesKey?.(value.trim()));
+    if (match && adapter.matchesKey) {
+      setProvider(match.id);
+    }
+  };
 
   const handleNameSubmit = () => {
     if (name.trim()) {
@@ -25,35 +48,34 @@ export const Onboarding: React.FC = () => {
   };
 
   const handleApiKeySubmit = async () => {
-    if (!apiKey.trim()) return;
+    if (!keyReady || vaultPassphrase.length < MIN_PASSPHRASE_LENGTH || vaultPassphrase !== vaultConfirmation) return;
     
     setLoading(true);
     setError('');
     
     try {
-      const detectedProvider = detectProvider(apiKey);
+      const key = adapter.apiKey === 'none' ? '' : apiKey.trim();
+      const url = adapter.baseUrl?.editable ? baseUrl.trim() || adapter.baseUrl.default : undefined;
       
       // Test API key
-      const isValid = await testApiKey(apiKey, detectedProvider);
-      
-      if (!isValid) {
-        setError('Chave API inválida. Verifique e tente novamente.');
-        setLoading(false);
+      try {
+        await testApiKey(buildLLMConfig(provider, key, undefined, url));
+      } catch (err) {
+        console.error('API key test failed:', err);
+        setError(describeLLMError(err, 'Chave API inválida. Verifique e tente novamente.'));
         return;
       }
       
       // Register user
-      const { user } = await registerUser(name, apiKey);
+      const { user } = await registerUser(name, key, vaultPassphrase, provider, url);
       
       // Create session with the registered user ID
       await createSession(user.id);
       
       setStep('complete');
       
-      // Redirect to dashboard after 2 seconds
-      setTimeout(() => {
-        navigate('/dashboard');
-      }, 2000);
+      // Enter the app after 2 seconds
+      setTimeout(onComplete, 2000);
       
     } catch (err) {
       console.error('Onboarding error:', err);
@@ -63,6 +85,30 @@ export const Onboarding: React.FC = () => {
     }
   };
 
+  const handleRestore = async () => {
+    if (!backupFile || !passphrase) return;
+    
+    setLoading(true);
+    setError('');
+    
+    try {
+      const user = await restoreIdentityBackup(await backupFile.text(), passphrase);
+      
+      await createSession(user.id);
+      
+      setStep('complete');
+      
+      // Backups of a protected identity open on the lock screen
+      setTimeout(onComplete, 2000);
+      
+    } catch (err) {
+      console.error('Restore error:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao restaurar backup.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <Card className="max-w-md w-full">
@@ -90,6 +136,57 @@ export const Onboarding: React.FC = () => {
               <Button onClick={() => setStep('name')} className="w-full" size="lg">
                 Começar 🚀
               </Button>
+              <Button onClick={() => setStep('restore')} variant="ghost" className="w-full">
+                Já tenho um backup da minha identidade
+              </Button>
+            </CardContent>
+          </>
+        )}
+        
+        {step === 'restore' && (
+          <>
+            <CardHeader>
+              <CardTitle>Restaurar identidade</CardTitle>
+              <CardDescription>
+                Escolha o arquivo de backup e digite a senha usada ao criá-lo.
+                Sua chave de assinatura, seus contratos e seu ledger voltam para este dispositivo.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Arquivo de backup</Label>
+                <Input
+                  type="file"
+                  accept={`${BACKUP_EXTENSION},application/json`}
+                  onChange={(e) => setBackupFile(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div>
+                <Label>Senha do backup</Label>
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && handleRestore()}
+                />
+              </div>
+              
+              {error && (
+                <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+              
+              <Button 
+                onClick={handleRestore}
+                disabled={!backupFile || !passphrase || loading}
+                className="w-full"
+              >
+                {loading ? 'Restaurando...' : 'Restaurar →'}
+              </Button>
+              <Button variant="ghost" onClick={() => { setError(''); setStep('welcome'); }} className="w-full">
+                ← Voltar
+              </Button>
             </CardContent>
           </>
         )}
@@ -134,95 +231,70 @@ export const Onboarding: React.FC = () => {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label>Escolha um provedor:</Label>
-                <div className="flex gap-2">
-                  <Button
-                    variant={provider === 'anthropic' ? 'default' : 'outline'}
-                    onClick={() => setProvider('anthropic')}
-                    size="sm"
-                  >
-                    Anthropic
-                  </Button>
-                  <Button
-                    variant={provider === 'openai' ? 'default' : 'outline'}
-                    onClick={() => setProvider('openai')}
-                    size="sm"
-                  >
-                    OpenAI
-                  </Button>
-                  <Button
-                    variant={provider === 'ollama' ? 'default' : 'outline'}
-                    onClick={() => setProvider('ollama')}
-                    size="sm"
-                  >
-                    Ollama
-                  </Button>
+                <div className="flex flex-wrap gap-2">
+                  {listProviders().map(p => (
+                    <Button
+                      key={p.id}
+                      variant={provider === p.id ? 'default' : 'outline'}
+                      onClick={() => setProvider(p.id)}
+                      size="sm"
+                    >
+                      {p.label}
+                    </Button>
+                  ))}
                 </div>
               </div>
               
               <div className="space-y-2">
-                {provider === 'anthropic' && (
-                  <>
-                    <p className="text-sm text-gray-600">
-                      Recomendado! Claude é excelente para contratos.
-                    </p>
-                    <Input
-                      type="password"
-                      placeholder="sk-ant-api03-..."
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                    />
-                    <a 
-                      href="https://console.anthropic.com/settings/keys"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline block"
-                    >
-                      Não tem uma chave? Crie grátis (5 min) →
-                    </a>
-                  </>
+                <p className="text-sm text-gray-600">
+                  {adapter.hint}
+                </p>
+                {adapter.baseUrl?.editable && (
+                  <Input
+                    placeholder={adapter.baseUrl.default}
+                    value={baseUrl}
+                    onChange={(e) => setBaseUrl(e.target.value)}
+                  />
                 )}
-                
-                {provider === 'openai' && (
-                  <>
-                    <p className="text-sm text-gray-600">
-                      GPT-4 também funciona bem!
-                    </p>
-                    <Input
-                      type="password"
-                      placeholder="sk-proj-..."
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                    />
-                    <a 
-                      href="https://platform.openai.com/api-keys"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline block"
-                    >
-                      Criar chave OpenAI →
-                    </a>
-                  </>
+                {adapter.apiKey !== 'none' && (
+                  <Input
+                    type="password"
+                    placeholder={adapter.keyPlaceholder}
+                    value={apiKey}
+                    onChange={(e) => handleApiKeyChange(e.target.value)}
+                  />
                 )}
-                
-                {provider === 'ollama' && (
-                  <>
-                    <p className="text-sm text-gray-600">
-                      Para rodar modelos localmente (grátis!)
-                    </p>
-                    <Input
-                      placeholder="http://localhost:11434"
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
-                    />
-                    <a 
-                      href="https://ollama.ai"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline block"
-                    >
-                      Instalar Ollama →
-                    </a>
-                  </>
+                {adapter.signupUrl && (
+                  <a 
+                    href={adapter.signupUrl.href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-blue-600 hover:underline block"
+                  >
+                    {adapter.signupUrl.label}
+                  </a>
+                )}
+              </div>
+              
+              <div className="space-y-2">
+                <Label>Senha de desbloqueio</Label>
+                <p className="text-sm text-gray-600">
+                  Sua chave de API é cifrada com esta senha, pedida sempre que o app abrir ou bloquear.
+                </p>
+                <Input
+                  type="password"
+                  placeholder={`Pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`}
+                  value={vaultPassphrase}
+                  onChange={(e) => setVaultPassphrase(e.target.value)}
+                />
+                <Input
+                  type="password"
+                  placeholder="Confirme a senha"
+                  value={vaultConfirmation}
+                  onChange={(e) => setVaultConfirmation(e.target.value)}
+                />
+                {vaultConfirmation && vaultPassphrase !== vaultConfirmation && (
+                  <p className="text-sm text-red-600">As senhas não conferem.</p>
                 )}
               </div>
               
@@ -234,7 +306,12 @@ export const Onboarding: React.FC = () => {
               
               <Button 
                 onClick={handleApiKeySubmit}
-                disabled={!apiKey.trim() || loading}
+                disabled={
+                  !keyReady ||
+                  vaultPassphrase.length < MIN_PASSPHRASE_LENGTH ||
+                  vaultPassphrase !== vaultConfirmation ||
+                  loading
+                }
                 className="w-full"
               >
                 {loading ? 'Validando...' : 'Validar e Continuar →'}
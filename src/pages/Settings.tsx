@@ -0,0 +1,664 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input, Label } from '../components/ui/Input';
+import { getCredential, getCurrentUser, getIdentity, getVaultConfig } from '../lib/db';
+import { keyFingerprint } from '../lib/crypto';
+import { getIdentityKeyTimeline, revokeIdentityKey, rotateIdentityKey } from '../lib/keys';
+import { createIdentityBackup, BACKUP_EXTENSION } from '../lib/backup';
+import { downloadBlob } from '../lib/download';
+import {
+  changeVaultPassphrase,
+  lockVault,
+  readApiKey,
+  setAutoLockMinutes,
+  MIN_PASSPHRASE_LENGTH
+} from '../lib/vault';
+import { credentialConfig, getModelSettings, listModels, saveModelSettings } from '../lib/models';
+import { getProvider, isLocalEndpoint, listProviders } from '../lib/providers';
+import {
+  clearFixtures,
+  exportFixtures,
+  importFixtures,
+  isRecording,
+  listFixtures,
+  setRecording,
+  MOCK_PROVIDER_ID
+} from '../lib/mock';
+import type { KeyCandidate } from '../lib/rotation';
+import { PII_KINDS, loadRedactionSettings, updateRedactionSettings } from '../lib/redact';
+import type { Credential, ModelSettings, PIIKind, RedactionSettings, User } from '../types';
+
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+// Registered in development builds only
+const MOCK_AVAILABLE = listProviders().some(p => p.id === MOCK_PROVIDER_ID);
+
+export const Settings: React.FC = () => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<User | null>(null);
+  const [currentKey, setCurrentKey] = useState('');
+  const [keys, setKeys] = useState<KeyCandidate[]>([]);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [compromisedSince, setCompromisedSince] = useState('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupConfirm, setBackupConfirm] = useState('');
+  const [backupEnabled, setBackupEnabled] = useState(false);
+  const [autoLock, setAutoLock] = useState(0);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [newConfirm, setNewConfirm] = useState('');
+  const [credential, setCredential] = useState<Credential | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings | null>(null);
+  const [models, setModels] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [redaction, setRedaction] = useState<RedactionSettings | null>(null);
+  const [recording, setRecordingState] = useState(false);
+  const [fixtureCount, setFixtureCount] = useState(0);
+
+  useEffect(() => {
+    loadIdentity();
+  }, []);
+
+  async function loadIdentity() {
+    try {
+      const [currentUser, identity, timeline, vault] = await Promise.all([
+        getCurrentUser(),
+        getIdentity(),
+        getIdentityKeyTimeline(),
+        getVaultConfig()
+      ]);
+      setUser(currentUser || null);
+      setAutoLock(vault?.auto_lock_minutes || 0);
+      setCurrentKey(identity ? keyFingerprint(identity.public_key) : '');
+      setBackupEnabled(!!identity?.private_key_handle.extractable);
+      setKeys(timeline);
+
+      const stored = currentUser ? await getCredential(currentUser.id) : undefined;
+      setCredential(stored || null);
+      setModelSettings(stored ? await getModelSettings(stored.user_id, stored.provider) : null);
+      setRedaction(currentUser ? await loadRedactionSettings(currentUser.id) : null);
+      if (MOCK_AVAILABLE) {
+        setRecordingState(await isRecording());
+        setFixtureCount((await listFixtures()).length);
+      }
+    } catch (err) {
+      console.error('Error loading identity:', err);
+    }
+  }
+
+  const handleRotate = async () => {
+    if (!confirm('Gerar uma nova chave de assinatura? A chave atual deixará de assinar novos spans.')) return;
+
+    setBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await rotateIdentityKey();
+      setMessage('Nova chave gerada. A rotação foi registrada no ledger.');
+      await loadIdentity();
+    } catch (err) {
+      console.error('Error rotating key:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao rotacionar chave.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (fingerprint: string) => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const effectiveAt = compromisedSince ? new Date(compromisedSince).toISOString() : undefined;
+      await revokeIdentityKey(fingerprint, reason.trim() || 'não informado', effectiveAt);
+      setMessage('Chave revogada. A revogação foi registrada no ledger.');
+      setRevoking(null);
+      setReason('');
+      setCompromisedSince('');
+      await loadIdentity();
+    } catch (err) {
+      console.error('Error revoking key:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao revogar chave.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnableBackup = async () => {
+    if (!confirm('Gerar uma nova chave de assinatura exportável? Ela poderá ser copiada para arquivos de backup.')) return;
+
+    setBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await rotateIdentityKey(true);
+      setMessage('Backup habilitado. A nova chave foi registrada no ledger.');
+      await loadIdentity();
+    } catch (err) {
+      console.error('Error enabling backup:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao habilitar backup.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const blob = await createIdentityBackup(backupPassphrase);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `minicontratos-${user?.id}-${date}${BACKUP_EXTENSION}`);
+      setMessage('Backup gerado. Guarde o arquivo e a senha em lugares diferentes.');
+      setBackupPassphrase('');
+      setBackupConfirm('');
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao gerar backup.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRedaction = async (enabled: boolean, kinds: PIIKind[]) => {
+    if (!redaction) return;
+    setError('');
+    setMessage('');
+
+    try {
+      await updateRedactionSettings(redaction.user_id, enabled, kinds);
+      setRedaction({ ...redaction, enabled, kinds });
+    } catch (err) {
+      console.error('Error saving redaction settings:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao salvar.');
+    }
+  };
+
+  const handleRecording = async (enabled: boolean) => {
+    setError('');
+    setMessage('');
+
+    try {
+      await setRecording(enabled);
+      setRecordingState(enabled);
+      setMessage(enabled
+        ? 'Gravando: as próximas respostas do provedor viram gravações para o modo simulado.'
+        : 'Gravação desligada.');
+    } catch (err) {
+      console.error('Error toggling recording:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao salvar.');
+    }
+  };
+
+  const handleExportFixtures = async () => {
+    try {
+      downloadBlob(await exportFixtures(), `minicontratos-fixtures-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (err) {
+      console.error('Error exporting fixtures:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao exportar gravações.');
+    }
+  };
+
+  const handleImportFixtures = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    setMessage('');
+
+    try {
+      const count = await importFixtures(await file.text());
+      setFixtureCount((await listFixtures()).length);
+      setMessage(`${count} gravação(ões) importada(s).`);
+    } catch (err) {
+      console.error('Error importing fixtures:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao importar gravações.');
+    }
+  };
+
+  const handleClearFixtures = async () => {
+    if (!confirm('Apagar todas as gravações do provedor simulado?')) return;
+
+    try {
+      await clearFixtures();
+      setFixtureCount(0);
+      setMessage('Gravações apagadas.');
+    } catch (err) {
+      console.error('Error clearing fixtures:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao apagar gravações.');
+    }
+  };
+
+  const handleAutoLock = async (minutes: number) => {
+    setError('');
+    setMessage('');
+
+    try {
+      await setAutoLockMinutes(minutes);
+      setAutoLock(minutes);
+      setMessage(`O app bloqueia após ${minutes} minutos sem uso.`);
+    } catch (err) {
+      console.error('Error saving auto-lock:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao salvar.');
+    }
+  };
+
+  const handleListModels = async () => {
+    if (!credential) return;
+
+    setBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const config = await credentialConfig(credential, await readApiKey(credential));
+      const available = await listModels(config);
+      setModels(available);
+      setMessage(`${available.length} modelos disponíveis em ${getProvider(credential.provider).label}.`);
+    } catch (err) {
+      console.error('Error listing models:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao listar modelos.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveModel = async () => {
+    if (!credential || !modelSettings) return;
+
+    setError('');
+    setMessage('');
+
+    try {
+      await saveModelSettings(credential.user_id, credential.provider, modelSettings);
+      setMessage(`Novas respostas usam ${modelSettings.model.trim()}.`);
+    } catch (err) {
+      console.error('Error saving model settings:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao salvar.');
+    }
+  };
+
+  const handleChangePassphrase = async () => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await changeVaultPassphrase(currentPassphrase, newPassphrase);
+      setMessage('Senha de desbloqueio alterada.');
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setNewConfirm('');
+    } catch (err) {
+      console.error('Error changing passphrase:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao alterar senha.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-4 py-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/dashboard')}>
+            ← Voltar
+          </Button>
+          <h1 className="text-xl font-bold">Configurações</h1>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">
+            {message}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>🔐 Identidade</CardTitle>
+            <CardDescription>
+              {user ? `${user.name} · ${user.id}` : 'Carregando...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              {keys.map(key => {
+                const isCurrent = key.fingerprint === currentKey;
+                return (
+                  <div key={key.fingerprint} className="border rounded-lg p-3 bg-gray-50">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${
+                        key.revoked_at ? 'bg-red-100 text-red-800' :
+                        isCurrent ? 'bg-green-100 text-green-800' :
+                        'bg-gray-100 text-gray-800'
+                      }`}>
+                        {key.revoked_at ? 'revogada' : isCurrent ? 'em uso' : 'substituída'}
+                      </span>
+                      {!isCurrent && !key.revoked_at && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setRevoking(revoking === key.fingerprint ? null : key.fingerprint)}
+                        >
+                          Revogar
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 font-mono mt-1 break-all">{key.fingerprint}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {key.valid_from && `Desde ${new Date(key.valid_from).toLocaleString('pt-BR')}`}
+                      {key.valid_until && ` · até ${new Date(key.valid_until).toLocaleString('pt-BR')}`}
+                      {key.revoked_at && ` · revogada em ${new Date(key.revoked_at).toLocaleString('pt-BR')} (${key.revocation_reason})`}
+                    </p>
+
+                    {revoking === key.fingerprint && (
+                      <div className="mt-3 space-y-2">
+                        <div>
+                          <Label>Motivo</Label>
+                          <Input
+                            placeholder="Ex: dispositivo perdido"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label>Comprometida desde (opcional)</Label>
+                          <Input
+                            type="datetime-local"
+                            value={compromisedSince}
+                            onChange={(e) => setCompromisedSince(e.target.value)}
+                          />
+                        </div>
+                        <Button onClick={() => handleRevoke(key.fingerprint)} disabled={busy} size="sm">
+                          Confirmar revogação
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <Button onClick={handleRotate} disabled={busy} variant="outline" className="w-full">
+              🔄 Rotacionar chave de assinatura
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>🔒 Bloqueio</CardTitle>
+            <CardDescription>
+              Sua chave de API é cifrada com a senha de desbloqueio, que nunca é gravada no dispositivo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Bloquear após</Label>
+              <select
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white"
+                value={autoLock}
+                onChange={(e) => handleAutoLock(Number(e.target.value))}
+              >
+                {AUTO_LOCK_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutos sem uso</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Alterar senha de desbloqueio</Label>
+              <Input
+                type="password"
+                placeholder="Senha atual"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                placeholder="Nova senha"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                placeholder="Confirme a nova senha"
+                value={newConfirm}
+                onChange={(e) => setNewConfirm(e.target.value)}
+              />
+              {newConfirm && newPassphrase !== newConfirm && (
+                <p className="text-sm text-red-600">As senhas não conferem.</p>
+              )}
+              <Button
+                onClick={handleChangePassphrase}
+                disabled={
+                  busy ||
+                  !currentPassphrase ||
+                  newPassphrase.length < MIN_PASSPHRASE_LENGTH ||
+                  newPassphrase !== newConfirm
+                }
+                variant="outline"
+                className="w-full"
+              >
+                Alterar senha
+              </Button>
+            </div>
+
+            <Button onClick={lockVault} variant="outline" className="w-full">
+              🔒 Bloquear agora
+            </Button>
+          </CardContent>
+        </Card>
+
+        {credential && modelSettings && (
+          <Card>
+            <CardHeader>
+              <CardTitle>🤖 Modelo</CardTitle>
+              <CardDescription>
+                {getProvider(credential.provider).label}
+                {credential.base_url && ` · ${credential.base_url}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Modelo</Label>
+                <div className="flex gap-2">
+                  <Input
+                    list="available-models"
+                    value={modelSettings.model}
+                    onChange={(e) => setModelSettings({ ...modelSettings, model: e.target.value })}
+                  />
+                  {getProvider(credential.provider).listModels && (
+                    <Button onClick={handleListModels} disabled={busy} variant="outline">
+                      Buscar modelos
+                    </Button>
+                  )}
+                </div>
+                <datalist id="available-models">
+                  {models.map(model => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Máximo de tokens na resposta</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={modelSettings.max_tokens}
+                    onChange={(e) => setModelSettings({ ...modelSettings, max_tokens: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Temperatura (0 a 2)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={modelSettings.temperature}
+                    onChange={(e) => setModelSettings({ ...modelSettings, temperature: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <Button onClick={handleSaveModel} variant="outline" className="w-full">
+                Salvar modelo
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {redaction && (
+          <Card>
+            <CardHeader>
+              <CardTitle>🛡️ Dados pessoais</CardTitle>
+              <CardDescription>
+                Antes de enviar a conversa a um provedor na nuvem, os dados marcados são trocados
+                por marcadores como [CPF_1] e recolocados na resposta. Provedores locais
+                {credential && isLocalEndpoint({ provider: credential.provider, apiKey: '', model: '', baseUrl: credential.base_url }) && ' (como o seu)'} recebem o texto como foi digitado.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={redaction.enabled}
+                  onChange={(e) => handleRedaction(e.target.checked, redaction.kinds)}
+                />
+                Ocultar dados pessoais do provedor
+              </label>
+              <div className="grid grid-cols-2 gap-2 pl-6">
+                {PII_KINDS.map(({ kind, label }) => (
+                  <label key={kind} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      disabled={!redaction.enabled}
+                      checked={redaction.kinds.includes(kind)}
+                      onChange={(e) => handleRedaction(
+                        redaction.enabled,
+                        e.target.checked
+                          ? [...redaction.kinds, kind]
+                          : redaction.kinds.filter(k => k !== kind)
+                      )}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {MOCK_AVAILABLE && (
+          <Card>
+            <CardHeader>
+              <CardTitle>🧪 Provedor simulado</CardTitle>
+              <CardDescription>
+                Com a gravação ligada, cada resposta do provedor real é guardada. O provedor
+                "Simulado", no modelo "replay", repete essas respostas sem rede; no modelo
+                "scripted", responde com regras fixas.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={recording}
+                  onChange={(e) => handleRecording(e.target.checked)}
+                />
+                Gravar respostas do provedor
+              </label>
+              <p className="text-sm text-gray-600">{fixtureCount} gravação(ões) guardada(s).</p>
+              <div>
+                <Label>Importar gravações</Label>
+                <Input
+                  type="file"
+                  accept="application/json"
+                  onChange={(e) => handleImportFixtures(e.target.files?.[0])}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleExportFixtures} variant="outline" className="flex-1" disabled={fixtureCount === 0}>
+                  Exportar gravações
+                </Button>
+                <Button onClick={handleClearFixtures} variant="outline" className="flex-1" disabled={fixtureCount === 0}>
+                  Apagar gravações
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>💾 Backup da identidade</CardTitle>
+            <CardDescription>
+              Gera um arquivo criptografado com sua chave de assinatura, credenciais e ledger.
+              Sem ele, limpar os dados do navegador apaga sua identidade.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {backupEnabled ? (
+              <>
+                <div>
+                  <Label>Senha do backup</Label>
+                  <Input
+                    type="password"
+                    value={backupPassphrase}
+                    onChange={(e) => setBackupPassphrase(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>Confirme a senha</Label>
+                  <Input
+                    type="password"
+                    value={backupConfirm}
+                    onChange={(e) => setBackupConfirm(e.target.value)}
+                  />
+                </div>
+                {backupConfirm && backupPassphrase !== backupConfirm && (
+                  <p className="text-sm text-red-600">As senhas não conferem.</p>
+                )}
+                <Button
+                  onClick={handleBackup}
+                  disabled={busy || backupPassphrase.length < 8 || backupPassphrase !== backupConfirm}
+                  className="w-full"
+                >
+                  Baixar backup
+                </Button>
+                <p className="text-xs text-gray-500">Use pelo menos 8 caracteres. Não há como recuperar a senha.</p>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  Sua chave de assinatura não pode ser copiada para fora do navegador. Para fazer backup,
+                  gere uma nova chave exportável; a troca é registrada no ledger como uma rotação.
+                </p>
+                <Button onClick={handleEnableBackup} disabled={busy} variant="outline" className="w-full">
+                  Habilitar backup
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
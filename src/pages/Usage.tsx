@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input, Label } from '../components/ui/Input';
+import { getAllContracts, getCurrentUser } from '../lib/db';
+import {
+  DEFAULT_PRICES,
+  formatUSD,
+  getUsageSummary,
+  loadUsageSettings,
+  monthKey,
+  updateUsageSettings,
+  type UsageSummary,
+  type UsageTotals
+} from '../lib/usage';
+import type { Contract } from '../types';
+
+interface PriceRow {
+  model: string;
+  input: number;
+  output: number;
+}
+
+function toRows(prices: Record<string, { input: number; output: number }>): PriceRow[] {
+  return Object.entries(prices).map(([model, price]) => ({ model, ...price }));
+}
+
+function formatTokens(totals: UsageTotals): string {
+  return `${totals.input_tokens.toLocaleString('pt-BR')} entrada · ${totals.output_tokens.toLocaleString('pt-BR')} saída`;
+}
+
+function formatCost(totals: UsageTotals): string {
+  return totals.unpriced > 0 ? `${formatUSD(totals.cost)} + ${totals.unpriced} sem preço` : formatUSD(totals.cost);
+}
+
+export const Usage: React.FC = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState('');
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [contracts, setContracts] = useState<Record<string, Contract>>({});
+  const [prices, setPrices] = useState<PriceRow[]>([]);
+  const [budget, setBudget] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  async function loadUsage() {
+    try {
+      const [user, usage, allContracts] = await Promise.all([
+        getCurrentUser(),
+        getUsageSummary(),
+        getAllContracts()
+      ]);
+      setSummary(usage);
+      setContracts(Object.fromEntries(allContracts.map(c => [c.id, c])));
+      if (user) {
+        const settings = await loadUsageSettings(user.id);
+        setUserId(user.id);
+        setPrices(toRows(settings.prices));
+        setBudget(settings.monthly_budget !== undefined ? String(settings.monthly_budget) : '');
+      }
+    } catch (err) {
+      console.error('Error loading usage:', err);
+    }
+  }
+
+  const updatePrice = (index: number, field: keyof PriceRow, value: string) => {
+    setPrices(prices.map((p, i) => i === index
+      ? { ...p, [field]: field === 'model' ? value : Number(value) }
+      : p));
+  };
+
+  const handleSave = async () => {
+    setError('');
+    setMessage('');
+
+    try {
+      await updateUsageSettings(userId, {
+        prices: Object.fromEntries(prices.map(p => [p.model, { input: p.input, output: p.output }])),
+        monthly_budget: budget.trim() ? Number(budget.replace(',', '.')) : undefined
+      });
+      setMessage('Preços e orçamento salvos.');
+    } catch (err) {
+      console.error('Error saving usage settings:', err);
+      setError(err instanceof Error ? err.message : 'Erro ao salvar.');
+    }
+  };
+
+  const currentMonth = summary?.by_month[monthKey(new Date().toISOString())];
+  const monthlyBudget = Number(budget.replace(',', '.'));
+  const spent = currentMonth?.cost ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-4 py-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/dashboard')}>
+            ← Voltar
+          </Button>
+          <h1 className="text-xl font-bold">Uso e custos</h1>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 text-green-700 p-3 rounded-lg text-sm">
+            {message}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>📊 Este mês</CardTitle>
+            <CardDescription>
+              Custo estimado a partir dos tokens informados pelo provedor e da tabela de preços abaixo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">Custo</p>
+                <p className="text-2xl font-bold">{currentMonth ? formatCost(currentMonth) : formatUSD(0)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Tokens</p>
+                <p className="text-sm">{currentMonth ? formatTokens(currentMonth) : '—'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Chamadas</p>
+                <p className="text-2xl font-bold">{currentMonth?.calls ?? 0}</p>
+              </div>
+            </div>
+            {monthlyBudget > 0 && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Orçamento</span>
+                  <span>{formatUSD(spent)} de {formatUSD(monthlyBudget)}</span>
+                </div>
+                <div className="h-2 bg-gray-200 rounded">
+                  <div
+                    className={`h-2 rounded ${spent >= monthlyBudget ? 'bg-red-500' : spent >= monthlyBudget * 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                    style={{ width: `${Math.min(100, (spent / monthlyBudget) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>📅 Por mês</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!summary || Object.keys(summary.by_month).length === 0 ? (
+              <p className="text-gray-400 text-sm">Nenhuma chamada registrada ainda.</p>
+            ) : (
+              <div className="space-y-2 text-sm">
+                {Object.entries(summary.by_month)
+                  .sort(([a], [b]) => b.localeCompare(a))
+                  .map(([month, totals]) => (
+                    <div key={month} className="flex items-center justify-between border-b pb-2">
+                      <span className="font-mono">{month}</span>
+                      <span className="text-gray-500">{formatTokens(totals)}</span>
+                      <span className="font-medium">{formatCost(totals)}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>📄 Por contrato</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!summary || Object.keys(summary.by_trace).length === 0 ? (
+              <p className="text-gray-400 text-sm">Nenhuma conversa registrada ainda.</p>
+            ) : (
+              <div className="space-y-2 text-sm">
+                {Object.entries(summary.by_trace)
+                  .sort(([, a], [, b]) => b.last_used.localeCompare(a.last_used))
+                  .map(([traceId, totals]) => (
+                    <div key={traceId} className="flex items-center justify-between gap-4 border-b pb-2">
+                      {contracts[traceId] ? (
+                        <span className="truncate">{contracts[traceId].title}</span>
+                      ) : (
+                        <button
+                          className="truncate text-blue-600 hover:underline text-left"
+                          onClick={() => navigate(`/create?draft=${traceId}`)}
+                        >
+                          Conversa em andamento
+                        </button>
+                      )}
+                      <span className="text-gray-500 whitespace-nowrap">{totals.calls} chamada(s)</span>
+                      <span className="font-medium whitespace-nowrap">{formatCost(totals)}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>💵 Preços e orçamento</CardTitle>
+            <CardDescription>
+              Preços em dólares por milhão de tokens. O modelo é comparado pelo início do nome:
+              "gpt-4o" vale para "gpt-4o-2024-08-06". Modelos locais (Ollama) não têm custo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Orçamento mensal (US$)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="Sem limite"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Antes de enviar uma mensagem que possa ultrapassar o orçamento, o assistente pede confirmação.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2 text-xs text-gray-500">
+                <span>Modelo</span>
+                <span>Entrada</span>
+                <span>Saída</span>
+                <span />
+              </div>
+              {prices.map((price, idx) => (
+                <div key={idx} className="grid grid-cols-[1fr_6rem_6rem_2rem] gap-2">
+                  <Input
+                    value={price.model}
+                    onChange={(e) => updatePrice(idx, 'model', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.input}
+                    onChange={(e) => updatePrice(idx, 'input', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.output}
+                    onChange={(e) => updatePrice(idx, 'output', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPrices(prices.filter((_p, i) => i !== idx))}
+                    title="Remover"
+                  >
+                    ✕
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPrices([...prices, { model: '', input: 0, output: 0 }])}
+                >
+                  + Adicionar modelo
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPrices(toRows(DEFAULT_PRICES))}
+                >
+                  Restaurar preços padrão
+                </Button>
+              </div>
+            </div>
+            <Button onClick={handleSave} variant="outline" className="w-full" disabled={!userId}>
+              Salvar preços e orçamento
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { verifyLedger, getAllContracts, createCheckpoint, rebuildProjections } from '../lib/db';
+import { groupByTrace, type LedgerVerification, type SpanVerification } from '../lib/verify';
+import type { ProjectionDiscrepancy, ProjectionRebuild } from '../lib/projection';
+import type { Contract } from '../types';
+
+export const VerifyLedger: React.FC = () => {
+  const navigate = useNavigate();
+  const [report, setReport] = useState<LedgerVerification | null>(null);
+  const [contracts, setContracts] = useState<Record<string, Contract>>({});
+  const [verifying, setVerifying] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [error, setError] = useState('');
+  const [rebuild, setRebuild] = useState<ProjectionRebuild | null>(null);
+  const [rebuilding, setRebuilding] = useState(false);
+
+  useEffect(() => {
+    runVerification();
+  }, []);
+
+  async function runVerification() {
+    setVerifying(true);
+    setError('');
+
+    try {
+      const [result, allContracts] = await Promise.all([verifyLedger(), getAllContracts()]);
+      setReport(result);
+      setContracts(Object.fromEntries(allContracts.map(c => [c.id, c])));
+    } catch (err) {
+      console.error('Error verifying ledger:', err);
+      setError('Erro ao verificar o ledger.');
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  async function handleCheckpoint() {
+    try {
+      await createCheckpoint();
+      await runVerification();
+    } catch (err) {
+      console.error('Error creating checkpoint:', err);
+      setError('Erro ao criar checkpoint.');
+    }
+  }
+
+  async function handleRebuild() {
+    setRebuilding(true);
+    try {
+      setRebuild(await rebuildProjections());
+      await runVerification();
+    } catch (err) {
+      console.error('Error rebuilding projections:', err);
+      setError('Erro ao reconstruir as projeções.');
+    } finally {
+      setRebuilding(false);
+    }
+  }
+
+  const traces = report ? Array.from(groupByTrace(report).entries()) : [];
+  const failingTraces = traces.filter(([, spans]) => spans.some(s => !s.valid || s.warnings.length > 0));
+  const visibleTraces = showAll ? traces : failingTraces;
+  const failingSpans = report ? report.spans.filter(s => !s.valid).length : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b px-4 py-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/dashboard')}>
+            ← Voltar
+          </Button>
+          <h1 className="text-xl font-bold">Verificar Ledger</h1>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>🔍 Integridade do ledger</CardTitle>
+            <CardDescription>
+              Recalcula o hash de cada span, confere as assinaturas e verifica se todo span pai existe.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {verifying ? (
+              <div className="text-center py-6">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="text-gray-600 mt-4">Verificando spans...</p>
+              </div>
+            ) : report && (
+              <div className={`p-4 rounded-lg ${report.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                <p className="font-semibold">
+                  {report.valid ? '✅ Ledger íntegro' : '❌ Ledger com problemas'}
+                </p>
+                <p className="text-sm mt-1">
+                  {report.total} spans verificados · {failingSpans} com falha · {failingTraces.length} de {traces.length} contratos afetados
+                </p>
+                {report.chain && (
+                  <p className="text-sm mt-1">
+                    Cadeia do ledger: {report.chain.length} entradas · {report.chain.checkpoints} checkpoints · {report.chain.valid ? '✓ encadeada' : '✗ quebrada'}
+                  </p>
+                )}
+                <p className="text-xs mt-1 opacity-75">
+                  Verificado em {new Date(report.verified_at).toLocaleString('pt-BR')}
+                </p>
+              </div>
+            )}
+
+            {!verifying && report && report.unknown_signers.length > 0 && (
+              <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-3">
+                <p className="font-semibold text-sm text-yellow-800">
+                  Assinantes desconhecidos: as assinaturas abaixo não puderam ser verificadas
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {report.unknown_signers.map(signerId => (
+                    <Button
+                      key={signerId}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => navigate(`/keys?signer=${encodeURIComponent(signerId)}`)}
+                    >
+                      🔑 Importar chave de {signerId}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!verifying && report?.chain && report.chain.errors.length > 0 && (
+              <div className="border border-red-200 bg-red-50 rounded-lg p-3">
+                <p className="font-semibold text-sm text-red-800">Problemas na cadeia do ledger</p>
+                <ul className="list-disc list-inside mt-2 text-sm text-red-700">
+                  {report.chain.errors.map((chainError, idx) => (
+                    <li key={idx} className="break-all">{chainError}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={runVerification} disabled={verifying} className="flex-1">
+                {verifying ? 'Verificando...' : 'Verificar novamente'}
+              </Button>
+              <Button variant="outline" onClick={() => setShowAll(!showAll)} className="flex-1">
+                {showAll ? 'Mostrar só falhas' : 'Mostrar tudo'}
+              </Button>
+              <Button variant="outline" onClick={handleCheckpoint} disabled={verifying} className="flex-1">
+                Criar checkpoint
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/keys')} className="flex-1">
+                🔑 Chaves
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>🧮 Projeção dos contratos</CardTitle>
+            <CardDescription>
+              Os contratos são montados a partir dos spans de cada trace. Reconstruir refaz todos a partir do ledger e mostra o que estava diferente.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rebuild && (
+              <div className={`p-4 rounded-lg ${rebuild.discrepancies.length === 0 ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'}`}>
+                <p className="font-semibold">
+                  {rebuild.discrepancies.length === 0
+                    ? `✅ ${rebuild.contracts} contrato(s) conferem com o ledger`
+                    : `⚠️ ${rebuild.discrepancies.length} contrato(s) estavam diferentes do ledger e foram corrigidos`}
+                </p>
+                {rebuild.discrepancies.length > 0 && (
+                  <ul className="list-disc list-inside mt-2 text-sm">
+                    {rebuild.discrepancies.map(d => (
+                      <li key={d.contract_id} className="break-all">{describeDiscrepancy(d)}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <Button variant="outline" onClick={handleRebuild} disabled={rebuilding} className="w-full">
+              {rebuilding ? 'Reconstruindo...' : 'Reconstruir projeções'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {!verifying && visibleTraces.map(([traceId, spans]) => (
+          <Card key={traceId}>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {contracts[traceId]?.title || traceId}
+              </CardTitle>
+              <CardDescription>
+                <code className="text-xs">{traceId}</code>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {spans
+                .filter(s => showAll || !s.valid || s.warnings.length > 0)
+                .map(result => (
+                  <SpanResult key={result.span_id} result={result} />
+                ))}
+            </CardContent>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+};
+
+function describeDiscrepancy(d: ProjectionDiscrepancy): string {
+  switch (d.kind) {
+    case 'missing':
+      return `${d.title}: estava no ledger, mas não na lista de contratos`;
+    case 'orphaned':
+      return `${d.title}: não tem contract.created no ledger e foi removido`;
+    default:
+      return `${d.title}: diferia em ${d.fields.join(', ')}`;
+  }
+}
+
+function SpanResult({ result }: { result: SpanVerification }) {
+  return (
+    <div className={`border rounded-lg p-3 ${result.valid ? 'bg-gray-50' : 'bg-red-50 border-red-200'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <code className="text-sm font-mono">{result.type}</code>
+        <div className="flex gap-1 text-xs">
+          <Badge ok={result.hash === 'valid'} label="hash" />
+          {result.signature === 'unknown_signer' ? (
+            <span className="px-2 py-1 rounded font-medium bg-yellow-100 text-yellow-800">
+              ? assinante desconhecido
+            </span>
+          ) : result.signature !== 'unsigned' && (
+            <Badge ok={result.signature === 'valid'} label="assinatura" />
+          )}
+          {result.parent !== 'none' && (
+            <Badge ok={result.parent === 'valid'} label="pai" />
+          )}
+          {result.link !== 'none' && (
+            <Badge ok={result.link === 'valid'} label="cadeia" />
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 font-mono mt-1">{result.span_id}</p>
+      {(result.cosignatures.length > 0 || result.quorum) && (
+        <div className="flex flex-wrap gap-1 mt-2 text-xs">
+          {result.cosignatures.map((cosignature, idx) => (
+            cosignature.status === 'unknown_signer' ? (
+              <span key={idx} className="px-2 py-1 rounded font-medium bg-yellow-100 text-yellow-800">
+                ? {cosignature.party}
+              </span>
+            ) : (
+              <Badge key={idx} ok={cosignature.status === 'valid'} label={cosignature.party} />
+            )
+          ))}
+          {result.quorum?.pending.map(name => (
+            <span key={name} className="px-2 py-1 rounded font-medium bg-gray-100 text-gray-600">
+              … {name}
+            </span>
+          ))}
+          {result.quorum && (
+            <span className={`px-2 py-1 rounded font-medium ${
+              result.quorum.satisfied ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}>
+              quórum {result.quorum.signed.length}/{result.quorum.required}
+            </span>
+          )}
+        </div>
+      )}
+      {result.errors.length > 0 && (
+        <ul className="list-disc list-inside mt-2 text-sm text-red-700">
+          {result.errors.map((error, idx) => (
+            <li key={idx} className="break-all">{error}</li>
+          ))}
+        </ul>
+      )}
+      {result.warnings.length > 0 && (
+        <ul className="list-disc list-inside mt-2 text-sm text-yellow-700">
+          {result.warnings.map((warning, idx) => (
+            <li key={idx} className="break-all">{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function Badge({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <span className={`px-2 py-1 rounded font-medium ${ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+      {ok ? '✓' : '✗'} {label}
+    </span>
+  );
+}
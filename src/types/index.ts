@@ -36,6 +36,7 @@ export interface Span {
   this: {
     hash: string;
     version: string;
+    prev_hash?: string; // hash do span anterior no mesmo trace
   };
   
   // Assinatura
@@ -45,6 +46,32 @@ export interface Span {
     timestamp: string;
     signer_id: string;
   };
+  
+  // Assinaturas das partes, todas sobre o mesmo payload canônico
+  signatures?: SpanSignature[];
+}
+
+export interface SpanSignature {
+  signature: string;
+  domain: string;
+  timestamp: string;
+  signer_id: string;
+  party: string; // nome da parte (Party.name) que assina
+}
+
+// Quantas partes precisam assinar para o contrato sair do rascunho
+export type SigningPolicy =
+  | { type: 'all' }
+  | { type: 'threshold'; threshold: number };
+
+// Entrada da cadeia do ledger: cada span anexado ao ledger local
+// compromete-se com o hash da entrada anterior
+export interface LedgerEntry {
+  seq: number;
+  span_id: string;
+  span_hash: string;
+  prev: string | null;
+  hash: string;
 }
 
 export interface Party {
@@ -53,11 +80,23 @@ export interface Party {
   id?: string;
 }
 
+// Valor encontrado no input de um span; label é o caminho até ele
+// (ex: obligation.registered.amount)
+export interface MoneyAmount {
+  label: string;
+  amount: number;
+  currency: string;
+}
+
+// Projeção dos spans de um trace: gravada pelo ledger a cada span anexado,
+// nunca editada à mão
 export interface Contract {
   id: string;
   title: string;
   parties: Party[];
   status: 'draft' | 'active' | 'completed' | 'cancelled';
+  signing_policy?: SigningPolicy;
+  amounts?: MoneyAmount[]; // ausente em registros anteriores à projeção
   created_at: string;
   spans: string[];
   last_updated: string;
@@ -73,7 +112,18 @@ export interface User {
 export interface Credential {
   user_id: string;
   encrypted_key: string;
-  provider: 'anthropic' | 'openai' | 'ollama';
+  provider: LLMProviderId;
+  base_url?: string; // servidor do provedor, quando configurável (Ollama, compatível com OpenAI)
+  encryption?: 'vault'; // ausente: chave legada, derivada do user_id
+  created_at: string;
+}
+
+// Cofre das credenciais: a chave AES é derivada da senha de desbloqueio e só
+// existe em memória enquanto o app está desbloqueado
+export interface VaultConfig {
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  check: string; // texto conhecido cifrado com a chave do cofre, confirma a senha
+  auto_lock_minutes: number;
   created_at: string;
 }
 
@@ -85,19 +135,107 @@ export interface Identity {
   created_at: string;
 }
 
+// Como a chave pública de um assinante chegou ao diretório:
+// - self: chave da identidade local
+// - imported: adicionada manualmente ou vinda de um pacote de contrato
+// - countersigned: de um assinante que co-assinou um span com a identidade local
+export type KeyProvenance = 'self' | 'imported' | 'countersigned';
+
+export interface SignerKey {
+  fingerprint: string;
+  signer_id: string;
+  public_key: JsonWebKey;
+  provenance: KeyProvenance;
+  added_at: string;
+}
+
 export interface Session {
   user_id: string;
   started_at: string;
   last_activity: string;
 }
 
+// id de um adaptador registrado em lib/providers
+export type LLMProviderId = string;
+
 export interface LLMConfig {
-  provider: 'anthropic' | 'openai' | 'ollama';
+  provider: LLMProviderId;
   apiKey: string;
   model: string;
+  baseUrl?: string;
+  maxTokens?: number;
+  temperature?: number;
+  redact?: PIIKind[];   // dados pessoais ocultados antes de enviar ao provedor
+}
+
+// Modelo e geração escolhidos pelo usuário para um provedor
+export interface ModelSettings {
+  model: string;
+  max_tokens: number;
+  temperature: number;
+}
+
+// Guardado em settings com a chave `llm-${user_id}`
+export interface LLMSettings {
+  user_id: string;
+  providers: Record<LLMProviderId, ModelSettings>;
+  updated_at: string;
+}
+
+// Dados pessoais que podem ser trocados por marcadores antes do envio
+export type PIIKind = 'cpf' | 'cnpj' | 'phone' | 'email' | 'address' | 'bank';
+
+// Guardado em settings com a chave `redaction-${user_id}`
+export interface RedactionSettings {
+  user_id: string;
+  enabled: boolean;
+  kinds: PIIKind[];
+  updated_at: string;
+}
+
+// Tokens informados pelo provedor em uma chamada
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+// Preço em USD por milhão de tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Guardado em settings com a chave `usage-${user_id}`
+export interface UsageSettings {
+  user_id: string;
+  prices: Record<string, ModelPrice>; // nome do modelo ou prefixo (ex: "gpt-4o")
+  monthly_budget?: number;            // USD por mês; sem limite se ausente
+  updated_at: string;
+}
+
+// Resposta gravada de um provedor, reproduzida pelo provedor simulado.
+// A chave é o hash canônico da conversa (mensagens de texto até o pedido).
+export interface LLMFixture {
+  key: string;
+  conversation: { role: string; content: string }[];
+  rounds: {
+    text: string;
+    calls: { id: string; name: string; input: Record<string, unknown> }[];
+    usage?: TokenUsage;
+  }[];                                  // uma por rodada de ferramentas
+  provider: LLMProviderId;
+  model: string;
+  recorded_at: string;
+}
+
+// Guardado em settings com a chave `llm-fixtures`
+export interface LLMFixtureStore {
+  recording: boolean;
+  fixtures: Record<string, LLMFixture>;
 }
 
 export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  model?: string; // respostas do assistente: provedor/modelo que gerou
 }
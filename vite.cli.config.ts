@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Node build of the offline verifier (cli/verify.ts). Dependencies are
+// bundled so the file runs on its own, outside the repository.
+export default defineConfig({
+  publicDir: false,
+  ssr: {
+    noExternal: true,
+  },
+  build: {
+    ssr: 'cli/verify.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'minicontratos-verify.js',
+      },
+    },
+  },
+})